@@ -0,0 +1,79 @@
+import type { BatchResult, EmailError, EmailMessage, EmailResult, Result } from "./types.ts"
+import { createError, toEmailError } from "./errors.ts"
+
+/** Assemble a `BatchResult` from index-aligned per-message results.
+ *  Holes (a provider returning fewer entries than it was sent) become
+ *  `PROVIDER` errors so `results.length` always matches the input. */
+export function batchResult(
+  driver: string,
+  results: ReadonlyArray<Result<EmailResult> | undefined>,
+  count = results.length,
+): BatchResult {
+  const out: Result<EmailResult>[] = []
+  const sent: Array<{ index: number; data: EmailResult }> = []
+  const failed: Array<{ index: number; error: EmailError }> = []
+  for (let index = 0; index < count; index++) {
+    const result = results[index] ?? {
+      data: null,
+      error: createError(driver, "PROVIDER", `no result returned for batch item ${index}`),
+    }
+    out.push(result)
+    if (result.error) failed.push({ index, error: result.error })
+    else sent.push({ index, data: result.data })
+  }
+  return { results: out, sent, failed }
+}
+
+/** Report a single error against every message — used when the
+ *  provider rejects the whole request (auth, network, validation). */
+export function batchFailure(count: number, error: EmailError): BatchResult {
+  const results: Result<EmailResult>[] = Array.from({ length: count }, () => ({
+    data: null,
+    error,
+  }))
+  return batchResult(error.driver, results)
+}
+
+/** Build one provider payload per message, capturing builder throws
+ *  (missing `from`, empty body, …) as per-index errors instead of
+ *  failing the whole batch. `entries` keeps the original index so the
+ *  provider response can be mapped back. */
+export function prepareBatch<T>(
+  driver: string,
+  msgs: ReadonlyArray<EmailMessage>,
+  build: (msg: EmailMessage) => T,
+): {
+  entries: Array<{ index: number; payload: T }>
+  results: Array<Result<EmailResult> | undefined>
+} {
+  const entries: Array<{ index: number; payload: T }> = []
+  const results: Array<Result<EmailResult> | undefined> = Array.from({ length: msgs.length })
+  msgs.forEach((msg, index) => {
+    try {
+      entries.push({ index, payload: build(msg) })
+    } catch (error) {
+      results[index] = { data: null, error: toEmailError(driver, error) }
+    }
+  })
+  return { entries, results }
+}
+
+/** Run `fn` over `items` with at most `limit` calls in flight, keeping
+ *  the output index-aligned with the input. */
+export async function mapLimit<T, R>(
+  items: ReadonlyArray<T>,
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const out: R[] = Array.from({ length: items.length })
+  let next = 0
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++
+      out[index] = await fn(items[index]!, index)
+    }
+  }
+  const workers = Math.max(1, Math.min(limit, items.length))
+  await Promise.all(Array.from({ length: workers }, worker))
+  return out
+}
@@ -0,0 +1,125 @@
+import type { CapabilityIssue, DriverFlags, EmailDriver, EmailMessage } from "./types.ts"
+import { normalizeAddresses } from "./_normalize.ts"
+
+/** Context the core knows about but the driver doesn't — features the
+ *  core emulates on the driver's behalf aren't reported as unsupported. */
+export interface CapabilityContext {
+  /** The core idempotency store is enabled, so `idempotencyKey` works
+   *  even when the provider ignores it. */
+  idempotency?: boolean
+  /** A scheduler queue is configured, so `scheduledAt` is emulated. */
+  scheduler?: boolean
+}
+
+/** Check `msg` against the driver's advertised `flags` and `limits`.
+ *  Drivers that advertise no flags at all (meta drivers like `fallback`)
+ *  are treated as unknown and only checked against their limits. */
+export function checkCapabilities(
+  msg: EmailMessage,
+  driver: EmailDriver,
+  context: CapabilityContext = {},
+): CapabilityIssue[] {
+  const issues: CapabilityIssue[] = []
+  const flags = driver.flags
+  const name = driver.name
+  const lacks = (flag: keyof DriverFlags) => Boolean(flags) && !flags![flag]
+  const report = (
+    feature: CapabilityIssue["feature"],
+    severity: CapabilityIssue["severity"],
+    message: string,
+  ) => issues.push({ feature, severity, message: `[${name}] ${message}` })
+
+  if (msg.raw) {
+    if (lacks("raw")) report("raw", "unsupported", "pre-built `raw` messages are not accepted")
+  } else {
+    if (msg.html && lacks("html")) {
+      report(
+        "html",
+        msg.text ? "degraded" : "unsupported",
+        msg.text ? "`html` body is dropped; only `text` is sent" : "`html` bodies are not sent",
+      )
+    }
+    if (msg.text && lacks("text")) {
+      report(
+        "text",
+        msg.html ? "degraded" : "unsupported",
+        msg.html ? "`text` body is dropped; only `html` is sent" : "`text` bodies are not sent",
+      )
+    }
+  }
+  if (msg.attachments?.length && lacks("attachments"))
+    report("attachments", "unsupported", "attachments are not supported")
+  if (msg.template && lacks("templates"))
+    report("templates", "unsupported", "provider-side templates are not supported")
+  if (msg.scheduledAt && lacks("scheduling")) {
+    if (context.scheduler)
+      report("scheduling", "degraded", "`scheduledAt` is emulated through the scheduler queue")
+    else report("scheduling", "unsupported", "`scheduledAt` is not supported")
+  }
+  if (msg.sandbox && lacks("sandbox"))
+    report("sandbox", "unsupported", "sandbox / test mode is not supported")
+  if (msg.replyTo && lacks("replyTo"))
+    report("replyTo", "unsupported", "`replyTo` is not supported")
+  if (msg.headers && Object.keys(msg.headers).length && lacks("customHeaders"))
+    report("customHeaders", "degraded", "custom headers are dropped")
+  if (msg.tags?.length && lacks("tagging")) report("tagging", "degraded", "tags are dropped")
+  if (msg.tracking && lacks("tracking"))
+    report("tracking", "degraded", "per-message tracking overrides are ignored")
+  if (msg.amp && lacks("amp")) report("amp", "degraded", "the AMP part is dropped")
+  if (msg.dsn && lacks("dsn")) report("dsn", "degraded", "DSN requests are ignored")
+  if (msg.idempotencyKey && lacks("idempotency") && !context.idempotency) {
+    report(
+      "idempotency",
+      "degraded",
+      "`idempotencyKey` is ignored — enable `createEmail({ idempotency })` to dedupe in the core",
+    )
+  }
+  if (msg.personalizations?.length && lacks("personalizations")) {
+    report(
+      "personalizations",
+      "degraded",
+      `personalizations are expanded into ${msg.personalizations.length} separate sends`,
+    )
+  }
+
+  const limits = driver.limits
+  if (limits?.maxRecipients !== undefined) {
+    const count =
+      normalizeAddresses(msg.to).length +
+      normalizeAddresses(msg.cc).length +
+      normalizeAddresses(msg.bcc).length
+    if (count > limits.maxRecipients) {
+      report(
+        "maxRecipients",
+        "unsupported",
+        `${count} recipients exceed the limit of ${limits.maxRecipients}`,
+      )
+    }
+  }
+  if (limits?.maxMessageBytes !== undefined) {
+    const size = estimateSize(msg)
+    if (size > limits.maxMessageBytes) {
+      report(
+        "maxMessageBytes",
+        "unsupported",
+        `message is ~${size} bytes, over the limit of ${limits.maxMessageBytes}`,
+      )
+    }
+  }
+  return issues
+}
+
+/** Rough encoded size: bodies as UTF-8 plus attachments after base64
+ *  inflation. Good enough to catch a 30MB PDF headed for a 10MB API. */
+export function estimateSize(msg: EmailMessage): number {
+  const encoder = new TextEncoder()
+  if (msg.raw) return typeof msg.raw === "string" ? encoder.encode(msg.raw).length : msg.raw.length
+  let size = 0
+  for (const part of [msg.subject, msg.text, msg.html, msg.amp]) {
+    if (part) size += encoder.encode(part).length
+  }
+  for (const a of msg.attachments ?? []) {
+    size += Math.ceil(a.content.length / 3) * 4
+  }
+  return size
+}
@@ -0,0 +1,45 @@
+import type { EmailInput, EmailTag, MessageDefaults } from "./types.ts"
+
+/** Layer `defaults` under `msg`, earliest layer first — see
+ *  `MessageDefaults` for the merge rules. Fields the message leaves
+ *  `undefined` fall through to the defaults. */
+export function applyDefaults(
+  msg: EmailInput,
+  ...layers: ReadonlyArray<MessageDefaults | undefined>
+): EmailInput {
+  const defaults = layers.reduce<MessageDefaults>((base, layer) => merge(base, layer ?? {}), {})
+  return merge(defaults, msg)
+}
+
+function merge<T extends MessageDefaults>(base: MessageDefaults, over: T): T {
+  const out = { ...base } as Record<string, unknown>
+  for (const [key, value] of Object.entries(over)) {
+    if (value !== undefined) out[key] = value
+  }
+  const merged = out as T
+  if (base.headers || over.headers) merged.headers = mergeHeaders(base.headers, over.headers)
+  if (base.tags || over.tags) merged.tags = mergeTags(base.tags, over.tags)
+  if (base.metadata || over.metadata) merged.metadata = { ...base.metadata, ...over.metadata }
+  if (base.tracking || over.tracking) merged.tracking = { ...base.tracking, ...over.tracking }
+  return merged
+}
+
+function mergeHeaders(
+  base: Record<string, string> = {},
+  over: Record<string, string> = {},
+): Record<string, string> {
+  const out: Record<string, string> = {}
+  const overridden = new Set(Object.keys(over).map((name) => name.toLowerCase()))
+  for (const [name, value] of Object.entries(base)) {
+    if (!overridden.has(name.toLowerCase())) out[name] = value
+  }
+  return Object.assign(out, over)
+}
+
+function mergeTags(
+  base: ReadonlyArray<EmailTag> = [],
+  over: ReadonlyArray<EmailTag> = [],
+): EmailTag[] {
+  const names = new Set(over.map((tag) => tag.name))
+  return [...base.filter((tag) => !names.has(tag.name)), ...over]
+}
@@ -1,25 +1,265 @@
-import type { EmailResult, IdempotencyStore } from "./types.ts"
+import type {
+  EmailResult,
+  IdempotencyLease,
+  IdempotencyStore,
+  MaybePromise,
+  Result,
+} from "./types.ts"
+import { abortError, createError } from "./errors.ts"
 
-/** Default in-memory idempotency store with TTL eviction.
+type Entry =
+  | { state: "done"; result: EmailResult; expiresAt: number }
+  | { state: "pending"; token: string; expiresAt: number }
+
+/** Default in-memory idempotency store with TTL eviction and leases.
  *
  *  Fine for single-instance servers and tests. For multi-process or
- *  serverless deployments, plug in an `unstorage`-backed store or a
+ *  serverless deployments, plug in `unstorageIdempotencyStore()` or a
  *  custom `IdempotencyStore` implementation. */
 export function memoryIdempotencyStore(defaultTtlSeconds = 3600): IdempotencyStore {
-  const store = new Map<string, { value: EmailResult; expiresAt: number }>()
+  const store = new Map<string, Entry>()
   return {
     get(key) {
       const entry = store.get(key)
-      if (!entry) return null
+      if (!entry || entry.state !== "done") return null
       if (entry.expiresAt <= Date.now()) {
         store.delete(key)
         return null
       }
-      return entry.value
+      return entry.result
     },
     set(key, value, ttlSeconds) {
       const ttl = (ttlSeconds ?? defaultTtlSeconds) * 1000
-      store.set(key, { value, expiresAt: Date.now() + ttl })
+      store.set(key, { state: "done", result: value, expiresAt: Date.now() + ttl })
+    },
+    acquire(key, leaseSeconds) {
+      const { lease, entry } = claim(store.get(key), leaseSeconds)
+      if (entry) store.set(key, entry)
+      return lease
+    },
+    release(key, token) {
+      const entry = store.get(key)
+      if (entry?.state === "pending" && entry.token === token) store.delete(key)
     },
   }
 }
+
+/** A minimal subset of the unstorage `Storage` interface — enough to
+ *  hold idempotency entries without forcing a peer dep. */
+export interface IdempotencyStorageLike {
+  getItem: (key: string) => MaybePromise<unknown>
+  setItem: (key: string, value: unknown) => MaybePromise<void>
+  removeItem: (key: string) => MaybePromise<void>
+}
+
+export interface UnstorageIdempotencyOptions {
+  /** Key prefix. Default: `"unemail:idempotency:"`. */
+  prefix?: string
+  /** TTL for recorded results when `set` gets none. Default: 3600. */
+  ttlSeconds?: number
+}
+
+/** Idempotency store backed by any unstorage driver (Redis, KV, fs, …),
+ *  so leases and results are shared across processes.
+ *
+ *  unstorage has no compare-and-set, so `acquire` writes its lease and
+ *  reads it back to confirm it won; two callers racing inside that
+ *  round-trip can still both win. Back the store with a driver that
+ *  serializes writes per key when that window matters. */
+export function unstorageIdempotencyStore(
+  storage: IdempotencyStorageLike,
+  options: UnstorageIdempotencyOptions = {},
+): IdempotencyStore {
+  const prefix = options.prefix ?? "unemail:idempotency:"
+  const defaultTtl = options.ttlSeconds ?? 3600
+  const key = (k: string) => prefix + k
+  const read = async (k: string) => revive(await storage.getItem(key(k)))
+
+  return {
+    async get(k) {
+      const entry = await read(k)
+      if (!entry || entry.state !== "done" || entry.expiresAt <= Date.now()) return null
+      return entry.result
+    },
+    async set(k, value, ttlSeconds) {
+      const entry: Entry = {
+        state: "done",
+        result: value,
+        expiresAt: Date.now() + (ttlSeconds ?? defaultTtl) * 1000,
+      }
+      await storage.setItem(key(k), entry)
+    },
+    async acquire(k, leaseSeconds) {
+      const { lease, entry } = claim(await read(k), leaseSeconds)
+      if (!entry || lease.status !== "acquired") return lease
+      await storage.setItem(key(k), entry)
+      const confirmed = await read(k)
+      if (confirmed?.state === "pending" && confirmed.token === lease.token) return lease
+      // Lost the race — report whatever the winner wrote.
+      if (confirmed?.state === "done") return { status: "completed", result: confirmed.result }
+      return { status: "pending", expiresAt: confirmed?.expiresAt ?? entry.expiresAt }
+    },
+    async release(k, token) {
+      const entry = await read(k)
+      if (entry?.state === "pending" && entry.token === token) await storage.removeItem(key(k))
+    },
+  }
+}
+
+/** Shared lease decision: live result → `completed`, live lease →
+ *  `pending`, otherwise a new lease (flagged `expired` when it replaces
+ *  one that lapsed). `entry` is what the store should write. */
+function claim(
+  current: Entry | null | undefined,
+  leaseSeconds: number,
+): { lease: IdempotencyLease; entry?: Entry } {
+  const now = Date.now()
+  if (current && current.expiresAt > now) {
+    if (current.state === "done") return { lease: { status: "completed", result: current.result } }
+    return { lease: { status: "pending", expiresAt: current.expiresAt } }
+  }
+  const token = `${now.toString(36)}.${Math.random().toString(36).slice(2, 12)}`
+  const expiresAt = now + leaseSeconds * 1000
+  const expired = current?.state === "pending"
+  return {
+    lease: { status: "acquired", token, expiresAt, ...(expired ? { expired } : {}) },
+    entry: { state: "pending", token, expiresAt },
+  }
+}
+
+function revive(value: unknown): Entry | null {
+  // Some unstorage drivers hand back the JSON string they stored.
+  const parsed: unknown = typeof value === "string" ? JSON.parse(value) : value
+  if (!parsed || typeof parsed !== "object") return null
+  const entry = parsed as Entry
+  if (entry.state === "done") entry.result = { ...entry.result, at: new Date(entry.result.at) }
+  return entry
+}
+
+export interface IdempotencyGuardOptions {
+  ttlSeconds?: number
+  /** How long a sender owns a key before others may take over. Default: 60. */
+  leaseSeconds?: number
+  /** How long a concurrent caller waits on a pending lease held by
+   *  another process. Default: the lease length. */
+  waitMs?: number
+  /** Poll interval while waiting. Default: 100. */
+  pollMs?: number
+  sleep?: (ms: number) => Promise<void>
+}
+
+/** Run sends under an idempotency key. Callers in this process that
+ *  share a key join the in-flight promise; callers elsewhere wait on
+ *  the store's lease. A waiter whose lease holder never finished gets a
+ *  retryable `TIMEOUT` — the first send may or may not have gone out.
+ *  Waiting of either kind stops as soon as the caller's `signal`
+ *  aborts. */
+export function createIdempotencyGuard(
+  store: IdempotencyStore,
+  options: IdempotencyGuardOptions = {},
+): (
+  key: string,
+  driver: string,
+  send: () => Promise<Result<EmailResult>>,
+  signal?: AbortSignal,
+) => Promise<Result<EmailResult>> {
+  const leaseSeconds = options.leaseSeconds ?? 60
+  const waitMs = options.waitMs ?? leaseSeconds * 1000
+  const pollMs = options.pollMs ?? 100
+  const sleep = options.sleep ?? ((ms) => new Promise((r) => setTimeout(r, ms)))
+  const inflight = new Map<string, Promise<Result<EmailResult>>>()
+
+  const record = async (key: string, token: string | null, result: Result<EmailResult>) => {
+    if (result.data) await store.set(key, result.data, options.ttlSeconds)
+    else if (token) await store.release?.(key, token)
+    return result
+  }
+
+  const run = async (
+    key: string,
+    driver: string,
+    send: () => Promise<Result<EmailResult>>,
+    signal: AbortSignal | undefined,
+  ): Promise<Result<EmailResult>> => {
+    if (!store.acquire) {
+      const cached = await store.get(key)
+      if (cached) return { data: cached, error: null }
+      return record(key, null, await send())
+    }
+
+    const deadline = Date.now() + waitMs
+    let waited = false
+    while (true) {
+      if (signal?.aborted) return { data: null, error: abortError(driver, signal.reason) }
+      const lease = await store.acquire(key, leaseSeconds)
+      if (lease.status === "completed") return { data: lease.result, error: null }
+      if (lease.status === "acquired") {
+        if (lease.expired && waited) {
+          await store.release?.(key, lease.token)
+          return {
+            data: null,
+            error: createError(
+              driver,
+              "TIMEOUT",
+              `idempotency lease for "${key}" expired before the first send finished; its outcome is unknown`,
+              { retryable: true },
+            ),
+          }
+        }
+        try {
+          return await record(key, lease.token, await send())
+        } catch (error) {
+          await store.release?.(key, lease.token)
+          throw error
+        }
+      }
+      waited = true
+      const remaining = deadline - Date.now()
+      if (remaining <= 0) {
+        return {
+          data: null,
+          error: createError(
+            driver,
+            "TIMEOUT",
+            `a send with idempotency key "${key}" is in flight`,
+            {
+              retryable: true,
+            },
+          ),
+        }
+      }
+      await untilAborted(sleep(Math.min(pollMs, remaining)), signal)
+    }
+  }
+
+  return async (key, driver, send, signal) => {
+    const joined = inflight.get(key)
+    if (joined) {
+      await untilAborted(joined, signal)
+      return signal?.aborted ? { data: null, error: abortError(driver, signal.reason) } : joined
+    }
+    const task = run(key, driver, send, signal)
+    inflight.set(key, task)
+    try {
+      return await task
+    } finally {
+      inflight.delete(key)
+    }
+  }
+}
+
+/** Settle once `promise` does or `signal` aborts, whichever is first. */
+async function untilAborted(promise: Promise<unknown>, signal: AbortSignal | undefined) {
+  if (!signal) return void (await promise)
+  let onAbort!: () => void
+  const aborted = new Promise<void>((resolve) => {
+    onAbort = resolve
+    if (signal.aborted) resolve()
+    else signal.addEventListener("abort", onAbort, { once: true })
+  })
+  try {
+    await Promise.race([promise, aborted])
+  } finally {
+    signal.removeEventListener("abort", onAbort)
+  }
+}
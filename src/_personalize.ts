@@ -0,0 +1,71 @@
+import type { EmailMessage, Personalization } from "./types.ts"
+
+/** Expand `msg.personalizations` into one standalone message per entry —
+ *  the core uses this for drivers without `flags.personalizations`.
+ *
+ *  Each copy gets the entry's recipients and subject, its `variables`
+ *  substituted into `subject` / `text` / `html` (`{{name}}`,
+ *  `{{ user.first }}`) and merged into `template.variables` and the
+ *  handlebars / liquid contexts, `sendAt` as `scheduledAt`, and
+ *  `customArgs` merged over `metadata`. An `idempotencyKey` is suffixed
+ *  with the entry index so retries stay deduplicated per recipient. */
+export function expandPersonalizations(msg: EmailMessage): EmailMessage[] {
+  const { personalizations = [], ...base } = msg
+  return personalizations.map((p, index) => personalize(base, p, index))
+}
+
+function personalize(base: EmailMessage, p: Personalization, index: number): EmailMessage {
+  const vars = p.variables ?? {}
+  const out: EmailMessage = {
+    ...base,
+    to: p.to,
+    cc: p.cc ?? base.cc,
+    bcc: p.bcc ?? base.bcc,
+    subject: interpolate(p.subject ?? base.subject, vars),
+  }
+  if (base.text) out.text = interpolate(base.text, vars)
+  if (base.html) out.html = interpolate(base.html, vars, escapeHtml)
+  if (p.variables) {
+    if (base.template)
+      out.template = { ...base.template, variables: { ...base.template.variables, ...vars } }
+    if (base.handlebars) out.handlebarsVars = { ...base.handlebarsVars, ...vars }
+    if (base.liquid) out.liquidVars = { ...base.liquidVars, ...vars }
+  }
+  if (p.sendAt) out.scheduledAt = p.sendAt
+  if (p.customArgs) out.metadata = { ...base.metadata, ...p.customArgs }
+  if (base.idempotencyKey) out.idempotencyKey = `${base.idempotencyKey}/${index}`
+  return out
+}
+
+/** Replace `{{ path }}` placeholders with values from `vars`. Unknown
+ *  paths are left untouched so a downstream renderer (handlebars,
+ *  liquid) can still resolve them. */
+export function interpolate(
+  input: string,
+  vars: Record<string, unknown>,
+  escape: (value: string) => string = (value) => value,
+): string {
+  return input.replace(/\{\{\s*([\w$.-]+)\s*\}\}/g, (match, path: string) => {
+    const value = lookup(vars, path)
+    if (value === undefined || value === null) return match
+    return escape(String(value))
+  })
+}
+
+function lookup(vars: Record<string, unknown>, path: string): unknown {
+  let current: unknown = vars
+  for (const key of path.split(".")) {
+    if (!current || typeof current !== "object") return undefined
+    current = (current as Record<string, unknown>)[key]
+  }
+  return current
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
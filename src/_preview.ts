@@ -0,0 +1,103 @@
+import type { EmailMessage, EmailPreview, MimePart } from "./types.ts"
+import { normalizeAddresses } from "./_normalize.ts"
+import { signDkim, type DkimSignerOptions } from "./driver/_smtp/dkim.ts"
+import { headerMessageId, normalizeMimeInput } from "./driver/_smtp/mime.ts"
+import { composeMessage, type ComposeOptions } from "./driver/_smtp/compose.ts"
+
+/** DKIM config accepted by `email.preview()` — same shape as the SMTP
+ *  driver's `dkim` option, or `false` to skip signing. */
+export type PreviewDkim =
+  | DkimSignerOptions
+  | ((msg: EmailMessage) => DkimSignerOptions | null)
+  | false
+
+export interface RenderPreviewOptions extends ComposeOptions {
+  dkim?: PreviewDkim | null
+  /** Render as sent to a server advertising `8BITMIME`. */
+  eightBitMime?: boolean
+}
+
+/** Serialize `msg` exactly like the SMTP driver does — `buildMime` with
+ *  any S/MIME or OpenPGP wrapping, or `msg.raw` verbatim — then
+ *  DKIM-sign and split it into a parts tree. */
+export async function renderPreview(
+  msg: EmailMessage,
+  options: RenderPreviewOptions = {},
+): Promise<EmailPreview> {
+  const messageId = headerMessageId(msg) ?? previewMessageId(msg)
+  let eml: string
+  let envelope: EmailPreview["envelope"]
+  if (msg.raw) {
+    eml = typeof msg.raw === "string" ? msg.raw : new TextDecoder().decode(msg.raw)
+    envelope = {
+      from: normalizeMimeInput(msg, messageId).from.email,
+      rcpt: [
+        ...new Set(
+          [
+            ...normalizeAddresses(msg.to),
+            ...normalizeAddresses(msg.cc),
+            ...normalizeAddresses(msg.bcc),
+          ].map((a) => a.email),
+        ),
+      ],
+    }
+  } else {
+    const composed = await composeMessage(msg, messageId, options)
+    eml = options.eightBitMime && composed.eightBit ? await composed.eightBit() : composed.sevenBit
+    envelope = composed.envelope
+  }
+  const config = typeof options.dkim === "function" ? options.dkim(msg) : options.dkim
+  if (config) eml = await signDkim(eml, config)
+  const parts = mimeTree(eml)
+  return { message: msg, envelope, headers: parts.headers, parts, eml }
+}
+
+/** Split a serialized message into its MIME structure. Leaf bodies are
+ *  left encoded so the tree diffs byte-for-byte against `eml`. */
+export function mimeTree(raw: string): MimePart {
+  const sep = raw.indexOf("\r\n\r\n")
+  const headers = parseHeaders(sep < 0 ? raw : raw.slice(0, sep))
+  const body = sep < 0 ? "" : raw.slice(sep + 4)
+  const type = headerValue(headers, "content-type") ?? "text/plain"
+  const contentType = type.split(";")[0]!.trim().toLowerCase()
+  const boundary = /boundary="?([^";]+)"?/i.exec(type)?.[1]
+  if (!contentType.startsWith("multipart/") || !boundary) return { headers, contentType, body }
+
+  const delimiter = new RegExp(`(?:^|\\r\\n)--${escapeRegExp(boundary)}`)
+  const parts: MimePart[] = []
+  // The first segment is the preamble; the one after the close
+  // delimiter (`--boundary--`) is the epilogue.
+  for (const segment of body.split(delimiter).slice(1)) {
+    if (segment.startsWith("--")) break
+    parts.push(mimeTree(segment.replace(/^[ \t]*\r\n/, "")))
+  }
+  return { headers, contentType, parts }
+}
+
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of block.replace(/\r\n(?=[ \t])/g, "").split("\r\n")) {
+    const colon = line.indexOf(":")
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim()
+    // Repeated headers (`Received`, multiple signatures) keep the first.
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim()
+  }
+  return headers
+}
+
+function headerValue(headers: Record<string, string>, name: string): string | undefined {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) return value
+  }
+  return undefined
+}
+
+function previewMessageId(msg: EmailMessage): string {
+  const domain = normalizeAddresses(msg.from)[0]?.email.split("@")[1] ?? "localhost"
+  return `<preview.${Date.now().toString(36)}.${Math.random().toString(36).slice(2, 10)}@${domain}>`
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
@@ -0,0 +1,173 @@
+import type { EmailMessage, EmailResult, Result, SendStatus } from "./types.ts"
+import type { EmailQueue } from "./queue/index.ts"
+import { createError, toEmailError } from "./errors.ts"
+
+/** `scheduledAt` emulation for drivers without native scheduling.
+ *
+ *  Future sends are parked on `queue` and answered with the queue item
+ *  id; `startWorker(email, queue)` sends them once due. Each parked
+ *  message carries an `idempotencyKey` (the caller's, or a generated
+ *  one) so the due send can be matched back to its scheduled id; with
+ *  `idempotency` configured on the client it also deduplicates
+ *  at-least-once queue redelivery.
+ *
+ *  A due send can't be cancelled once it has started. Another process
+ *  can still remove the item mid-send; a delivered result then wins
+ *  over the cancellation.
+ *
+ *  Outcomes are tracked in this process, for the most recent
+ *  `MAX_TRACKED` sends; from elsewhere `retrieve` only sees what
+ *  `queue.get` still holds. */
+export function createScheduler(queue: EmailQueue) {
+  const statuses = new Map<string, SendStatus>()
+  // idempotencyKey → scheduled id, until the send goes out.
+  const ids = new Map<string, string>()
+  // Scheduled ids whose due send is in flight in this process.
+  const sending = new Set<string>()
+
+  const owns = async (id: string) => statuses.has(id) || Boolean(await queue.get?.(id))
+
+  return {
+    /** Whether `msg` should be parked rather than sent now. */
+    isFuture(msg: EmailMessage): boolean {
+      return Boolean(msg.scheduledAt) && new Date(msg.scheduledAt!).getTime() > Date.now()
+    },
+
+    async schedule(msg: EmailMessage, driver: string): Promise<Result<EmailResult>> {
+      const idempotencyKey =
+        msg.idempotencyKey ??
+        `sched_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`
+      try {
+        const item = await queue.enqueue({ ...msg, idempotencyKey })
+        const sendAt = new Date(item.nextAttemptAt)
+        remember(statuses, item.id, { id: item.id, driver, state: "scheduled", at: sendAt })
+        remember(ids, idempotencyKey, item.id)
+        return {
+          data: {
+            id: item.id,
+            driver,
+            at: new Date(),
+            provider: { queue: queue.name, scheduledAt: sendAt.toISOString() },
+          },
+          error: null,
+        }
+      } catch (error) {
+        return { data: null, error: toEmailError(driver, error) }
+      }
+    },
+
+    /** Mark the due send of a message parked here earlier as started,
+     *  so `cancel` refuses it until `track` records the outcome. */
+    begin(msg: EmailMessage): void {
+      const id = msg.idempotencyKey ? ids.get(msg.idempotencyKey) : undefined
+      if (id) sending.add(id)
+    },
+
+    /** Record the outcome of a due send that was parked here earlier. */
+    track(msg: EmailMessage, result: Result<EmailResult>): void {
+      const id = msg.idempotencyKey ? ids.get(msg.idempotencyKey) : undefined
+      if (id) sending.delete(id)
+      const status = id ? statuses.get(id) : undefined
+      // A cancellation that lost the race to delivery is overridden.
+      if (!status || (status.state === "cancelled" && !result.data)) return
+      // Sent is final; a failure may still be retried and tracked again.
+      if (result.data) ids.delete(msg.idempotencyKey!)
+      remember(statuses, status.id, {
+        ...status,
+        state: result.data ? "sent" : "failed",
+        at: new Date(),
+        provider: result.data
+          ? { messageId: result.data.id }
+          : { code: result.error.code, message: result.error.message },
+      })
+    },
+
+    owns,
+
+    async cancel(id: string, driver: string): Promise<Result<void>> {
+      const status = statuses.get(id)
+      if (status && isFinal(status)) {
+        return {
+          data: null,
+          error: createError(driver, "INVALID_OPTIONS", `"${id}" is already ${status.state}`, {
+            retryable: false,
+          }),
+        }
+      }
+      if (sending.has(id)) {
+        return {
+          data: null,
+          error: createError(driver, "INVALID_OPTIONS", `"${id}" is being sent`, {
+            retryable: false,
+          }),
+        }
+      }
+      if (!queue.remove) {
+        return {
+          data: null,
+          error: createError(driver, "UNSUPPORTED", `queue "${queue.name}" cannot remove items`),
+        }
+      }
+      if (!(await queue.remove(id))) {
+        return {
+          data: null,
+          error: createError(driver, "INVALID_OPTIONS", `"${id}" is no longer queued`, {
+            retryable: false,
+          }),
+        }
+      }
+      remember(statuses, id, {
+        id,
+        driver: status?.driver ?? driver,
+        state: "cancelled",
+        at: new Date(),
+      })
+      return { data: undefined, error: null }
+    },
+
+    async retrieve(id: string, driver: string): Promise<Result<SendStatus>> {
+      const status = statuses.get(id)
+      if (status && isFinal(status)) return { data: status, error: null }
+      const item = await queue.get?.(id)
+      if (item) {
+        return {
+          data: {
+            id,
+            driver: status?.driver ?? driver,
+            // A failed attempt puts the item back for a retry.
+            state: item.attempts > 0 ? "queued" : "scheduled",
+            at: new Date(item.nextAttemptAt),
+            provider: item.lastError ? { lastError: item.lastError } : undefined,
+          },
+          error: null,
+        }
+      }
+      // Left the queue without passing through this process.
+      if (status?.state === "scheduled" && queue.get) {
+        return { data: { ...status, state: "unknown" }, error: null }
+      }
+      if (status) return { data: status, error: null }
+      // `owns` saw the item, but it left the queue since.
+      return {
+        data: null,
+        error: createError(driver, "NOT_FOUND", `no scheduled send "${id}"`, { retryable: false }),
+      }
+    },
+  }
+}
+
+/** Outcomes kept per scheduler; older ones are forgotten first. */
+const MAX_TRACKED = 10_000
+
+/** `map.set`, moving `key` to the newest end and dropping the oldest
+ *  entry once the map holds more than `MAX_TRACKED`. */
+function remember<V>(map: Map<string, V>, key: string, value: V): void {
+  map.delete(key)
+  map.set(key, value)
+  if (map.size > MAX_TRACKED) map.delete(map.keys().next().value!)
+}
+
+/** `failed` is not final — the worker may still retry the item. */
+function isFinal(status: SendStatus): boolean {
+  return status.state === "sent" || status.state === "cancelled"
+}
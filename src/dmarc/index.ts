@@ -1,11 +1,18 @@
 /**
- * Minimal DMARC aggregate (RUA) XML report parser. Zero-dep — we only
- * need the narrow RUA schema Google/Yahoo/Microsoft emit. Input can be
- * raw XML, gzipped bytes, or a fetch Response body.
+ * Minimal DMARC report parsers. Zero-dep. `parseDmarcAggregate` reads
+ * aggregate (RUA) XML — we only need the narrow schema
+ * Google/Yahoo/Microsoft emit — from raw XML or gzipped bytes.
+ * `parseDmarcFailureReport` reads failure (RUF) reports, the RFC 6591
+ * ARF messages a receiver sends per failing message.
  *
  * @module
  */
 
+import type { ArfReport } from "../parse/arf.ts"
+import type { ArfField } from "../parse/_arf.ts"
+import { parseArf } from "../parse/arf.ts"
+import { extractOriginalHeaders, extractPart, parseFields } from "../parse/_arf.ts"
+
 export interface DmarcReport {
   orgName?: string
   email?: string
@@ -38,6 +45,103 @@ export async function parseDmarcAggregate(input: string | Uint8Array): Promise<D
   return parseReportXml(xml)
 }
 
+/** An RFC 6591 authentication failure report. Field names follow the
+ *  report's own (`DKIM-Domain` → `dkimDomain`). */
+export interface DmarcFailureReport extends ArfReport {
+  feedbackType: "auth-failure"
+  /** What failed (RFC 6591 §3.2.2, RFC 7489 §7.3); other values read
+   *  as `other`. */
+  authFailure?: "dmarc" | "dkim" | "spf" | "bodyhash" | "revoked" | "signature" | "adsp" | "other"
+  /** What the receiver did with the message; values outside RFC 6591
+   *  §3.2 read as `other`. */
+  deliveryResult?: "delivered" | "spam" | "policy" | "reject" | "other"
+  /** The receiver's `Authentication-Results` for the message. */
+  authenticationResults?: string
+  dkimDomain?: string
+  dkimIdentity?: string
+  dkimSelector?: string
+  /** `DKIM-Canonicalized-Header`, decoded: the exact input the
+   *  receiver hashed. */
+  dkimCanonicalizedHeader?: string
+  /** `DKIM-Canonicalized-Body`, decoded. */
+  dkimCanonicalizedBody?: string
+  /** `SPF-DNS` records the receiver saw, e.g.
+   *  `txt : example.com : "v=spf1 -all"`. */
+  spfDns: string[]
+  /** Identifiers that aligned with the From domain; empty for `none`. */
+  identityAlignment?: Array<"dkim" | "spf">
+  /** Headers of the failing message, in order with repeats — possibly
+   *  redacted by the reporter (RFC 6590). `reportedHeaders` keeps only
+   *  the last of each. */
+  originalHeaders: ArfField[]
+}
+
+const AUTH_FAILURES: ReadonlyArray<NonNullable<DmarcFailureReport["authFailure"]>> = [
+  "dmarc",
+  "dkim",
+  "spf",
+  "bodyhash",
+  "revoked",
+  "signature",
+  "adsp",
+]
+
+const DELIVERY_RESULTS: ReadonlyArray<NonNullable<DmarcFailureReport["deliveryResult"]>> = [
+  "delivered",
+  "spam",
+  "policy",
+  "reject",
+  "other",
+]
+
+/** Parse a DMARC failure (RUF) report. Returns `null` for ARF messages
+ *  of any other `Feedback-Type`, so a mailbox of mixed feedback can be
+ *  fed straight in. */
+export function parseDmarcFailureReport(input: string | Uint8Array): DmarcFailureReport | null {
+  const raw = typeof input === "string" ? input : new TextDecoder().decode(input)
+  const base = parseArf(raw)
+  if (base.feedbackType?.toLowerCase() !== "auth-failure") return null
+  const fields = parseFields(extractPart(raw, "message/feedback-report"))
+  const field = (name: string) => fields.find((f) => f.name.toLowerCase() === name)?.value
+  const alignment = field("identity-alignment")
+  return {
+    ...base,
+    feedbackType: "auth-failure",
+    authFailure: oneOf(AUTH_FAILURES, field("auth-failure")),
+    deliveryResult: oneOf(DELIVERY_RESULTS, field("delivery-result")),
+    authenticationResults: field("authentication-results"),
+    dkimDomain: field("dkim-domain"),
+    dkimIdentity: field("dkim-identity"),
+    dkimSelector: field("dkim-selector"),
+    dkimCanonicalizedHeader: decodeBase64Field(field("dkim-canonicalized-header")),
+    dkimCanonicalizedBody: decodeBase64Field(field("dkim-canonicalized-body")),
+    spfDns: fields.filter((f) => f.name.toLowerCase() === "spf-dns").map((f) => f.value),
+    identityAlignment: alignment
+      ?.toLowerCase()
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id): id is "dkim" | "spf" => id === "dkim" || id === "spf"),
+    originalHeaders: extractOriginalHeaders(raw),
+  }
+}
+
+/** `value` lowercased if it is one of `allowed`, `other` if it isn't. */
+function oneOf<T extends string>(allowed: ReadonlyArray<T>, value: string | undefined) {
+  if (value === undefined) return undefined
+  const lower = value.toLowerCase()
+  return allowed.find((entry) => entry === lower) ?? "other"
+}
+
+function decodeBase64Field(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  try {
+    const binary = atob(value.replace(/\s+/g, ""))
+    return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)))
+  } catch {
+    return undefined
+  }
+}
+
 async function gunzipOrUtf8(bytes: Uint8Array): Promise<string> {
   if (bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
     // Use DecompressionStream if available, else node:zlib.
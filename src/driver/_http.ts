@@ -17,6 +17,8 @@ export interface HttpRequestInit {
   method?: string
   headers?: Record<string, string>
   body?: unknown
+  /** Forwarded to `fetch` — pass the driver's `ctx.signal`. */
+  signal?: AbortSignal
   /** Return a custom EmailErrorCode classification from the parsed body. */
   classifyError?: (
     status: number,
@@ -43,12 +45,18 @@ export async function httpJson(init: HttpRequestInit): Promise<Result<unknown>>
       method: init.method ?? "POST",
       headers,
       body: init.body == null ? undefined : JSON.stringify(init.body),
+      signal: init.signal,
     })
   } catch (err) {
     return { data: null, error: toEmailError(init.driver, err) }
   }
 
-  const text = await res.text()
+  let text: string
+  try {
+    text = await res.text()
+  } catch (err) {
+    return { data: null, error: toEmailError(init.driver, err) }
+  }
   const parsed = text ? safeJson(text) : null
 
   if (!res.ok) {
@@ -0,0 +1,138 @@
+/**
+ * Just enough DER for CMS: build the structures S/MIME sends and walk
+ * the certificates it reads. Not a general ASN.1 library — lengths are
+ * definite, tags single-byte.
+ *
+ * @module
+ */
+
+/** One decoded TLV. `bytes` is the whole encoding, `value` its content. */
+export interface Asn1Node {
+  tag: number
+  bytes: Uint8Array
+  value: Uint8Array
+}
+
+export function decodeDer(bytes: Uint8Array): Asn1Node {
+  const tag = bytes[0]
+  let length = bytes[1]
+  if (tag === undefined || length === undefined) throw new Error("[unemail/asn1] truncated DER")
+  let offset = 2
+  if (length & 0x80) {
+    const octets = length & 0x7f
+    length = 0
+    for (let i = 0; i < octets; i++) length = length * 256 + (bytes[offset + i] ?? 0)
+    offset += octets
+  }
+  if (offset + length > bytes.length) throw new Error("[unemail/asn1] truncated DER")
+  return {
+    tag,
+    bytes: bytes.subarray(0, offset + length),
+    value: bytes.subarray(offset, offset + length),
+  }
+}
+
+/** Children of a constructed node (SEQUENCE, SET, context tags). */
+export function childrenOf(node: Asn1Node): Asn1Node[] {
+  const out: Asn1Node[] = []
+  let rest = node.value
+  while (rest.length) {
+    const child = decodeDer(rest)
+    out.push(child)
+    rest = rest.subarray(child.bytes.length)
+  }
+  return out
+}
+
+export function der(tag: number, ...contents: Uint8Array[]): Uint8Array {
+  const length = contents.reduce((sum, part) => sum + part.length, 0)
+  const lengthBytes: number[] = []
+  if (length < 0x80) lengthBytes.push(length)
+  else {
+    for (let n = length; n > 0; n = Math.floor(n / 256)) lengthBytes.unshift(n % 256)
+    lengthBytes.unshift(0x80 | lengthBytes.length)
+  }
+  return concatBytes(new Uint8Array([tag, ...lengthBytes]), ...contents)
+}
+
+export function sequence(...items: Uint8Array[]): Uint8Array {
+  return der(0x30, ...items)
+}
+
+/** DER `SET OF`: members sorted by their encoding (X.690 §11.6), which
+ *  matters for signed attributes — the signature covers these bytes. */
+export function setOf(...items: Uint8Array[]): Uint8Array {
+  return der(0x31, ...[...items].sort(compareBytes))
+}
+
+/** `[n]` context tag; constructed unless `primitive` (IMPLICIT OCTET
+ *  STRING and the like). */
+export function contextTag(n: number, contents: Uint8Array, primitive = false): Uint8Array {
+  return der((primitive ? 0x80 : 0xa0) | n, contents)
+}
+
+export function integer(value: number | Uint8Array): Uint8Array {
+  let bytes: number[]
+  if (typeof value === "number") {
+    bytes = []
+    for (let n = value; n > 0; n = Math.floor(n / 256)) bytes.unshift(n % 256)
+    if (bytes.length === 0) bytes.push(0)
+  } else bytes = [...value]
+  if ((bytes[0] ?? 0) & 0x80) bytes.unshift(0)
+  return der(0x02, new Uint8Array(bytes))
+}
+
+export function octetString(bytes: Uint8Array): Uint8Array {
+  return der(0x04, bytes)
+}
+
+export const NULL: Uint8Array = new Uint8Array([0x05, 0x00])
+
+export function objectId(dotted: string): Uint8Array {
+  const [first = 0, second = 0, ...rest] = dotted.split(".").map(Number)
+  const out: number[] = []
+  for (const arc of [first * 40 + second, ...rest]) {
+    const groups: number[] = [arc % 128]
+    for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128))
+      groups.unshift((n % 128) | 0x80)
+    out.push(...groups)
+  }
+  return der(0x06, new Uint8Array(out))
+}
+
+/** `UTCTime` for dates through 2049, `GeneralizedTime` after (RFC 5280). */
+export function time(date: Date): Uint8Array {
+  const iso = date.toISOString().replace(/[-:T]/g, "").slice(0, 14)
+  const utc = date.getUTCFullYear() < 2050
+  return der(utc ? 0x17 : 0x18, new TextEncoder().encode(`${utc ? iso.slice(2) : iso}Z`))
+}
+
+/** DER bytes from PEM (any label) or as given. */
+export function pemToDer(input: string | Uint8Array): Uint8Array {
+  if (typeof input !== "string") return input
+  const b64 = input
+    .replace(/-----BEGIN [A-Z0-9 ]+-----/g, "")
+    .replace(/-----END [A-Z0-9 ]+-----/g, "")
+    .replace(/\s+/g, "")
+  const bin = atob(b64)
+  const out = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+  return out
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i]! - b[i]!
+  }
+  return a.length - b.length
+}
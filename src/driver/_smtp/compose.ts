@@ -0,0 +1,50 @@
+import type { EmailMessage } from "../../types.ts"
+import type { PgpOptions } from "./pgp.ts"
+import type { SmimeOptions } from "./smime.ts"
+import { createError } from "../../errors.ts"
+import { buildMime, normalizeMimeInput, prefersEightBit } from "./mime.ts"
+import { applyPgp } from "./pgp.ts"
+import { applySmime } from "./smime.ts"
+
+/** The SMTP driver options that shape a built message, shared with
+ *  `email.preview()` so it renders what the driver sends. */
+export interface ComposeOptions {
+  smime?: SmimeOptions | ((msg: EmailMessage) => SmimeOptions | null)
+  pgp?: PgpOptions | ((msg: EmailMessage) => PgpOptions | null)
+}
+
+export interface ComposedMessage {
+  envelope: { from: string; rcpt: string[] }
+  /** The message for any server, before DKIM. */
+  sevenBit: string
+  /** Build the rendering for servers advertising `8BITMIME`, when it
+   *  differs: non-ASCII text goes unencoded. */
+  eightBit?: () => Promise<string>
+}
+
+/** Build `msg` and wrap it in S/MIME or OpenPGP/MIME when configured.
+ *  Wrapped content stays 7-bit (RFC 8551 §3.1.2, RFC 3156 §3). */
+export async function composeMessage(
+  msg: EmailMessage,
+  messageId: string,
+  options: ComposeOptions,
+): Promise<ComposedMessage> {
+  const smime = typeof options.smime === "function" ? options.smime(msg) : options.smime
+  const pgp = typeof options.pgp === "function" ? options.pgp(msg) : options.pgp
+  if (smime && pgp) {
+    throw createError("smtp", "INVALID_OPTIONS", "smime and pgp can't both apply to a message")
+  }
+  const input = normalizeMimeInput(msg, messageId)
+  const mime = buildMime(input, { signing: Boolean(smime?.sign || pgp?.sign) })
+  const { rcpt } = mime.envelope
+  const bcc = input.bcc.map((address) => address.email)
+  const seal = async (raw: string) =>
+    smime ? applySmime(raw, rcpt, bcc, smime) : pgp ? applyPgp(raw, rcpt, bcc, pgp) : raw
+  const sevenBit = await seal(mime.body)
+  if (smime || pgp || !prefersEightBit(input)) return { envelope: mime.envelope, sevenBit }
+  return {
+    envelope: mime.envelope,
+    sevenBit,
+    eightBit: () => seal(buildMime(input, { eightBitMime: true }).body),
+  }
+}
@@ -1,8 +1,10 @@
 import type { Socket } from "node:net"
+import type { RecipientOutcome } from "../../types.ts"
 import type { TLSSocket } from "node:tls"
 import type { AuthMethod, SmtpReply } from "./auth.ts"
 import { authCramMd5, authLogin, authPlain, authXoauth2, pickAuthMethod } from "./auth.ts"
 import { cancelledError, replyError, timeoutError, wrapNetworkError } from "./errors.ts"
+import type { DsnParams } from "./dsn.ts"
 import { ReplyParser } from "./reply.ts"
 import { dotStuff } from "./mime.ts"
 
@@ -22,6 +24,10 @@ export interface ConnectionOptions {
   localName: string
   connectionTimeoutMs: number
   commandTimeoutMs: number
+  /** Called once the STARTTLS step is over, with the upgraded socket or
+   *  `null` when the session stays in plaintext. Throwing drops the
+   *  connection before anything else is sent. */
+  checkTls?: (socket: TLSSocket | null) => Promise<void>
 }
 
 export interface Capabilities {
@@ -29,6 +35,30 @@ export interface Capabilities {
   starttls: boolean
   size: number
   smtputf8: boolean
+  /** RFC 3461 delivery status notifications (`DSN`). */
+  dsn: boolean
+  /** RFC 2920 command pipelining. */
+  pipelining: boolean
+  /** RFC 3030 `BDAT` transfers (`CHUNKING`) and binary bodies over them
+   *  (`BINARYMIME`). */
+  chunking: boolean
+  binaryMime: boolean
+  /** RFC 6152 `8BITMIME`. */
+  eightBitMime: boolean
+}
+
+/** Envelope for one transaction. `dsn` parameters are only sent as
+ *  given — callers check `capabilities.dsn` first. */
+export interface SmtpEnvelope {
+  from: string
+  rcpt: string[]
+  dsn?: DsnParams
+}
+
+/** Per-recipient replies from one transaction. */
+export interface RecipientOutcomes {
+  accepted: RecipientOutcome[]
+  rejected: RecipientOutcome[]
 }
 
 /** A live SMTP connection. `sendMessage` handles MAIL FROM → RCPT TO →
@@ -37,7 +67,15 @@ export interface Capabilities {
 export interface SmtpConnection {
   id: number
   capabilities: Capabilities
-  sendMessage: (envelope: { from: string; rcpt: string[] }, body: string) => Promise<void>
+  /** Run one transaction. Every `RCPT TO` reply is collected: any
+   *  rejection fails the send unless `partial` is set, in which case the
+   *  message goes to the accepted recipients (and fails only when none
+   *  were). Failures carry both lists on the error `cause`. */
+  sendMessage: (
+    envelope: SmtpEnvelope,
+    body: string,
+    options?: { partial?: boolean },
+  ) => Promise<RecipientOutcomes>
   reset: () => Promise<void>
   quit: () => Promise<void>
   destroy: () => void
@@ -104,6 +142,7 @@ export async function createConnection(opts: ConnectionOptions): Promise<SmtpCon
       const reply = await recvInternal(pending, opts.commandTimeoutMs, "STARTTLS")
       if (reply.code !== 220) throw replyError(reply.code, reply.raw, "STARTTLS")
       socket = await upgradeTls(socket as Socket, tls, opts)
+      await opts.checkTls?.(socket as TLSSocket)
       socket.setEncoding("utf8")
       socket.on("data", (chunk: string | Buffer) =>
         parser.push(typeof chunk === "string" ? chunk : chunk.toString("utf8")),
@@ -114,8 +153,10 @@ export async function createConnection(opts: ConnectionOptions): Promise<SmtpCon
         failAll(pending, err)
       })
       caps = await ehlo(pending, socket, opts.localName, opts.commandTimeoutMs)
-    } else if (opts.requireTLS && !opts.secure) {
-      throw new Error(`[unemail] [smtp] STARTTLS required but not offered by ${opts.host}`)
+    } else if (!opts.secure) {
+      await opts.checkTls?.(null)
+      if (opts.requireTLS)
+        throw new Error(`[unemail] [smtp] STARTTLS required but not offered by ${opts.host}`)
     }
 
     // AUTH (if credentials provided and server advertises methods).
@@ -145,25 +186,94 @@ export async function createConnection(opts: ConnectionOptions): Promise<SmtpCon
     throw err
   }
 
+  /** Run `steps` and check each reply in order. With PIPELINING the
+   *  whole group is written before any reply is read; the first
+   *  unexpected reply still surfaces as that step's `replyError`. Steps
+   *  without `ok` are returned unchecked for the caller to judge. */
+  async function exchange(steps: ReadonlyArray<Step>): Promise<SmtpReply[]> {
+    if (!caps.pipelining || steps.length === 1) {
+      const replies: SmtpReply[] = []
+      for (const step of steps) {
+        await write(step)
+        const reply = await recvInternal(pending, opts.commandTimeoutMs, step.stage)
+        if (step.ok && !step.ok.includes(reply.code))
+          throw replyError(reply.code, reply.raw, step.stage)
+        replies.push(reply)
+      }
+      return replies
+    }
+    // Queue every waiter first so no reply arrives unclaimed, then send
+    // the group as one write.
+    const waiting = steps.map((step) => recvInternal(pending, opts.commandTimeoutMs, step.stage))
+    socket.cork()
+    for (const step of steps) {
+      socket.write(`${step.line}\r\n`)
+      if (step.payload) socket.write(step.payload)
+    }
+    socket.uncork()
+    const settled = await Promise.allSettled(waiting)
+    return settled.map((outcome, i) => {
+      if (outcome.status === "rejected") throw outcome.reason
+      const step = steps[i]!
+      if (step.ok && !step.ok.includes(outcome.value.code))
+        throw replyError(outcome.value.code, outcome.value.raw, step.stage)
+      return outcome.value
+    })
+  }
+
+  async function write(step: Step): Promise<void> {
+    await sendInternal(socket, step.line)
+    if (step.payload && !socket.write(step.payload)) {
+      await new Promise<void>((resolve) => socket.once("drain", () => resolve()))
+    }
+  }
+
   const connection: SmtpConnection = {
     id,
     capabilities: caps,
-    async sendMessage(envelope, body) {
-      await sendInternal(socket, `MAIL FROM:<${envelope.from}>`)
-      const mailReply = await recvInternal(pending, opts.commandTimeoutMs, "MAIL FROM")
-      if (mailReply.code !== 250) throw replyError(mailReply.code, mailReply.raw, "MAIL FROM")
-      for (const rcpt of envelope.rcpt) {
-        await sendInternal(socket, `RCPT TO:<${rcpt}>`)
-        const rcptReply = await recvInternal(pending, opts.commandTimeoutMs, "RCPT TO")
-        if (rcptReply.code !== 250 && rcptReply.code !== 251)
-          throw replyError(rcptReply.code, rcptReply.raw, "RCPT TO")
+    async sendMessage(envelope, body, options = {}) {
+      const bodyParam = bodyParameter(body, caps)
+      const envelopeSteps: Step[] = [
+        {
+          line: withParams(
+            `MAIL FROM:<${envelope.from}>`,
+            joinParams(envelope.dsn?.mail, bodyParam),
+          ),
+          stage: "MAIL FROM",
+          ok: [250],
+        },
+        ...envelope.rcpt.map((rcpt) => ({
+          line: withParams(`RCPT TO:<${rcpt}>`, envelope.dsn?.rcpt(rcpt)),
+          stage: "RCPT TO",
+        })),
+      ]
+      // DATA may close a pipelined group (RFC 2920 §3.1); its reply is
+      // judged only after the recipients are.
+      const dataStep: Step = { line: "DATA", stage: "DATA" }
+      const pipelineData = caps.pipelining && !caps.chunking
+
+      const replies = await exchange(pipelineData ? [...envelopeSteps, dataStep] : envelopeSteps)
+      const outcomes: RecipientOutcomes = { accepted: [], rejected: [] }
+      envelope.rcpt.forEach((rcpt, i) => {
+        const outcome = rcptOutcome(rcpt, replies[i + 1]!)
+        if (outcome.code === 250 || outcome.code === 251) outcomes.accepted.push(outcome)
+        else outcomes.rejected.push(outcome)
+      })
+      const firstRejected = outcomes.rejected[0]
+      if (firstRejected && (!options.partial || outcomes.accepted.length === 0)) {
+        throw replyError(firstRejected.code, firstRejected.message, "RCPT TO", { ...outcomes })
+      }
+
+      if (caps.chunking) {
+        // BDAT carries the message as counted octets: no dot-stuffing and
+        // no terminator line, and BINARYMIME content goes through as is.
+        await exchange(bdatSteps(new TextEncoder().encode(toCrlf(body) + "\r\n")))
+        return outcomes
       }
-      await sendInternal(socket, "DATA")
-      const dataReply = await recvInternal(pending, opts.commandTimeoutMs, "DATA")
+      const dataReply = pipelineData ? replies.at(-1)! : (await exchange([dataStep]))[0]!
       if (dataReply.code !== 354) throw replyError(dataReply.code, dataReply.raw, "DATA")
-      await sendInternal(socket, dotStuff(body) + "\r\n.")
-      const endReply = await recvInternal(pending, opts.commandTimeoutMs, "DATA-end")
-      if (endReply.code !== 250) throw replyError(endReply.code, endReply.raw, "DATA-end")
+      await exchange([{ line: dotStuff(body) + "\r\n.", stage: "DATA-end", ok: [250] }])
+      return outcomes
     },
     async reset() {
       await sendInternal(socket, "RSET")
@@ -190,6 +300,62 @@ export async function createConnection(opts: ConnectionOptions): Promise<SmtpCon
   return connection
 }
 
+/** One command in an `exchange`: the line to send, the bytes that
+ *  follow it (BDAT chunks) and the reply codes that count as success. */
+interface Step {
+  line: string
+  stage: string
+  ok?: ReadonlyArray<number>
+  payload?: Uint8Array
+}
+
+function rcptOutcome(email: string, reply: SmtpReply): RecipientOutcome {
+  const text = reply.lines[0] ?? ""
+  const status = /^([245]\.\d{1,3}\.\d{1,3})\b/.exec(text)?.[1]
+  return { email, code: reply.code, ...(status ? { status } : {}), message: reply.raw }
+}
+
+/** BDAT chunk size — large messages go out as several chunks so a
+ *  single reply timeout never covers an unbounded upload. */
+const BDAT_CHUNK = 1024 * 1024
+
+function bdatSteps(bytes: Uint8Array): Step[] {
+  const steps: Step[] = []
+  for (let offset = 0; offset < bytes.length || steps.length === 0; offset += BDAT_CHUNK) {
+    const payload = bytes.subarray(offset, offset + BDAT_CHUNK)
+    const last = offset + BDAT_CHUNK >= bytes.length
+    steps.push({
+      line: `BDAT ${payload.length}${last ? " LAST" : ""}`,
+      stage: last ? "BDAT LAST" : "BDAT",
+      ok: [250],
+      payload,
+    })
+  }
+  return steps
+}
+
+/** `BODY=` for `MAIL FROM`: 8-bit content is declared as 8BITMIME, or
+ *  as BINARYMIME when only that (with CHUNKING) is offered. Pure 7-bit
+ *  bodies, and servers offering neither, get no parameter. */
+function bodyParameter(body: string, caps: Capabilities): string | undefined {
+  if (!/[\u0080-\uffff]/.test(body)) return undefined
+  if (caps.eightBitMime) return "BODY=8BITMIME"
+  if (caps.chunking && caps.binaryMime) return "BODY=BINARYMIME"
+  return undefined
+}
+
+function toCrlf(body: string): string {
+  return body.replace(/\r?\n/g, "\r\n")
+}
+
+function withParams(command: string, params: string | undefined): string {
+  return params ? `${command} ${params}` : command
+}
+
+function joinParams(...params: ReadonlyArray<string | undefined>): string | undefined {
+  return params.filter(Boolean).join(" ") || undefined
+}
+
 interface PendingReply {
   stage: string
   resolve: (reply: SmtpReply) => void
@@ -246,12 +412,22 @@ function parseCapabilities(reply: SmtpReply): Capabilities {
     starttls: false,
     size: 0,
     smtputf8: false,
+    dsn: false,
+    pipelining: false,
+    chunking: false,
+    binaryMime: false,
+    eightBitMime: false,
   }
   // Skip the first line (server greeting echo); parse the rest.
   for (const line of reply.lines.slice(1)) {
     const upper = line.toUpperCase()
     if (upper === "STARTTLS") caps.starttls = true
     else if (upper === "SMTPUTF8") caps.smtputf8 = true
+    else if (upper === "DSN") caps.dsn = true
+    else if (upper === "PIPELINING") caps.pipelining = true
+    else if (upper === "CHUNKING") caps.chunking = true
+    else if (upper === "BINARYMIME") caps.binaryMime = true
+    else if (upper === "8BITMIME") caps.eightBitMime = true
     else if (upper.startsWith("SIZE")) {
       const size = Number(upper.split(/\s+/)[1] ?? 0)
       if (Number.isFinite(size)) caps.size = size
@@ -79,12 +79,14 @@ export async function signDkim(message: string, options: DkimSignerOptions): Pro
   return finalHeader + "\r\n" + message
 }
 
-interface ParsedHeader {
+export interface ParsedHeader {
   name: string
   value: string
 }
 
-function parseHeaders(block: string): ParsedHeader[] {
+/** Header fields in order; `value` is everything after the colon,
+ *  folding included. */
+export function parseHeaders(block: string): ParsedHeader[] {
   const out: ParsedHeader[] = []
   const lines = block.split(/\r\n/)
   let current: ParsedHeader | null = null
@@ -113,7 +115,7 @@ function findHeaderBodySeparator(message: string): number {
   return -1
 }
 
-function canonicalizeHeaderRelaxed(name: string, value: string): string {
+export function canonicalizeHeaderRelaxed(name: string, value: string): string {
   // Lowercase header name, unfold + collapse WSP runs in the value.
   const canonValue = value
     .replace(/\r\n/g, "")
@@ -123,7 +125,7 @@ function canonicalizeHeaderRelaxed(name: string, value: string): string {
   return `${name.toLowerCase().trim()}:${canonValue}\r\n`
 }
 
-function canonicalizeBodyRelaxed(body: string): string {
+export function canonicalizeBodyRelaxed(body: string): string {
   // Reduce WSP runs within lines; strip trailing WSP; strip trailing
   // empty lines. If the body is empty, return CRLF per RFC 6376.
   const lines = body.split(/\r\n/)
@@ -133,6 +135,16 @@ function canonicalizeBodyRelaxed(body: string): string {
   return lines.map((l) => l.replace(/[ \t]+/g, " ").replace(/[ \t]+$/g, "")).join("\r\n") + "\r\n"
 }
 
+/** RFC 6376 §3.4.1: the field exactly as it appeared. */
+export function canonicalizeHeaderSimple(name: string, value: string): string {
+  return `${name}:${value}\r\n`
+}
+
+/** RFC 6376 §3.4.3: trailing empty lines dropped, one final CRLF. */
+export function canonicalizeBodySimple(body: string): string {
+  return body.replace(/(\r\n)*$/, "\r\n")
+}
+
 function buildDkimHeader(fields: Record<string, string>): string {
   const order = ["v", "a", "c", "d", "s", "t", "bh", "h", "b"]
   const parts: string[] = []
@@ -159,7 +171,7 @@ async function sha256Base64(value: string): Promise<string> {
   return bytesToBase64(new Uint8Array(digest))
 }
 
-async function importKey(
+export async function importKey(
   key: string | CryptoKey,
   algorithm: "rsa-sha256" | "ed25519-sha256",
 ): Promise<CryptoKey> {
@@ -188,16 +200,22 @@ async function importKey(
   )
 }
 
-async function signBytes(
+export async function signBytes(
   key: CryptoKey,
   algorithm: "rsa-sha256" | "ed25519-sha256",
   data: Uint8Array,
 ): Promise<Uint8Array> {
-  const algo: AlgorithmIdentifier =
-    algorithm === "ed25519-sha256"
-      ? ({ name: "Ed25519" } as unknown as AlgorithmIdentifier)
-      : { name: "RSASSA-PKCS1-v1_5" }
-  const sig = await crypto.subtle.sign(algo, key, data as BufferSource)
+  if (algorithm === "ed25519-sha256") {
+    // RFC 8463 §3: Ed25519 signs the SHA-256 hash, not the data itself.
+    const hash = await crypto.subtle.digest("SHA-256", data as BufferSource)
+    const sig = await crypto.subtle.sign(
+      { name: "Ed25519" } as unknown as AlgorithmIdentifier,
+      key,
+      hash,
+    )
+    return new Uint8Array(sig)
+  }
+  const sig = await crypto.subtle.sign({ name: "RSASSA-PKCS1-v1_5" }, key, data as BufferSource)
   return new Uint8Array(sig)
 }
 
@@ -0,0 +1,56 @@
+import type { DsnOptions } from "../../types.ts"
+import { createError } from "../../errors.ts"
+
+/** RFC 3461 parameters for one transaction: what goes after
+ *  `MAIL FROM:<…>` and after a given `RCPT TO:<…>`. Empty strings when
+ *  the message asks for nothing on that command. */
+export interface DsnParams {
+  mail: string
+  rcpt: (recipient: string) => string
+}
+
+/** Translate `msg.dsn` into ESMTP parameters for a message going to
+ *  `recipients`. Throws `INVALID_OPTIONS` for requests the server would
+ *  reject anyway (`NEVER` combined with other NOTIFY values). */
+export function dsnParams(dsn: DsnOptions, recipients: ReadonlyArray<string>): DsnParams {
+  const mail: string[] = []
+  const rcpt: string[] = []
+  if (dsn.ret) mail.push(`RET=${dsn.ret}`)
+  if (dsn.envid) mail.push(`ENVID=${xtext(dsn.envid)}`)
+  if (dsn.notify?.length) {
+    const notify = [...new Set(dsn.notify)]
+    if (notify.includes("NEVER") && notify.length > 1)
+      throw createError("smtp", "INVALID_OPTIONS", "dsn.notify NEVER cannot be combined", {
+        retryable: false,
+      })
+    rcpt.push(`NOTIFY=${notify.join(",")}`)
+  }
+  const { orcpt } = dsn
+  // ORCPT names one recipient's original address; a lone string can't
+  // speak for several.
+  const original = (recipient: string) =>
+    typeof orcpt === "string"
+      ? recipients.length === 1
+        ? orcpt
+        : undefined
+      : (orcpt?.[recipient] ?? orcpt?.[recipient.toLowerCase()])
+  return {
+    mail: mail.join(" "),
+    rcpt: (recipient) => {
+      const address = original(recipient)
+      return [...rcpt, ...(address ? [`ORCPT=rfc822;${xtext(address)}`] : [])].join(" ")
+    },
+  }
+}
+
+/** RFC 3461 §4 xtext: `+`, `=`, controls, space and non-ASCII become
+ *  `+HH` (UTF-8 bytes, uppercase hex). */
+export function xtext(value: string): string {
+  let out = ""
+  for (const byte of new TextEncoder().encode(value)) {
+    if (byte < 33 || byte > 126 || byte === 43 || byte === 61)
+      out += `+${byte.toString(16).toUpperCase().padStart(2, "0")}`
+    else out += String.fromCharCode(byte)
+  }
+  return out
+}
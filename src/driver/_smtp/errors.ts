@@ -1,5 +1,5 @@
 import type { EmailErrorCode } from "../../types.ts"
-import { createError, EmailError } from "../../errors.ts"
+import { abortError, createError, EmailError } from "../../errors.ts"
 
 const DRIVER = "smtp"
 
@@ -18,14 +18,20 @@ export function mapReplyCode(code: number): { code: EmailErrorCode; retryable: b
   return { code: "PROVIDER", retryable: false }
 }
 
-/** Surface an SMTP reply as an `EmailError`. */
-export function replyError(replyCode: number, raw: string, stage?: string): EmailError {
+/** Surface an SMTP reply as an `EmailError`. `extra` is merged into
+ *  the `cause` record. */
+export function replyError(
+  replyCode: number,
+  raw: string,
+  stage?: string,
+  extra?: Record<string, unknown>,
+): EmailError {
   const { code, retryable } = mapReplyCode(replyCode)
   const prefix = stage ? `${stage}: ` : ""
   return createError(DRIVER, code, `${prefix}${replyCode} ${raw}`, {
     status: replyCode,
     retryable,
-    cause: { replyCode, raw, stage },
+    cause: { replyCode, raw, stage, ...extra },
   })
 }
 
@@ -45,3 +51,18 @@ export function timeoutError(stage: string, ms: number): EmailError {
 export function cancelledError(reason = "cancelled"): EmailError {
   return createError(DRIVER, "CANCELLED", reason, { retryable: false })
 }
+
+/** Surface an aborted per-send signal as `CANCELLED` or `TIMEOUT`. */
+export function abortedError(signal: AbortSignal): EmailError {
+  return abortError(DRIVER, signal.reason)
+}
+
+/** Surface a session (or exchanger) refused by the recipient domain's
+ *  TLS policy. Retryable, so the next MX gets a try; `cause.tlsResult`
+ *  carries the RFC 8460 result type. */
+export function tlsPolicyError(host: string, tlsResult: string): EmailError {
+  return createError(DRIVER, "NETWORK", `${host}: TLS policy failure (${tlsResult})`, {
+    retryable: true,
+    cause: { host, tlsResult },
+  })
+}
@@ -55,12 +55,41 @@ export function normalizeMimeInput(
   }
 }
 
-export function buildMime(input: MimeInput): MimeOutput {
-  const boundary = `----unemail_${randomBoundary()}`
-  const altBoundary = `----unemail_alt_${randomBoundary()}`
-  const hasAttachments = (input.attachments?.length ?? 0) > 0
-  const hasBothBodies = Boolean(input.text && input.html) || Boolean(input.amp)
+/** The caller's own `Message-ID` header, whatever the case of its name. */
+export function headerMessageId(msg: EmailMessage): string | undefined {
+  for (const [name, value] of Object.entries(msg.headers ?? {})) {
+    if (name.toLowerCase() === "message-id") return value
+  }
+  return undefined
+}
 
+/** A `Message-ID` on the sender's domain, for messages built outside a
+ *  driver (`buildSmime`, `buildPgp`). */
+export function messageIdFor(msg: EmailMessage): string {
+  const domain = normalizeAddresses(msg.from)[0]?.email.split("@")[1] ?? "localhost"
+  return `<${Date.now().toString(36)}.${Math.random().toString(36).slice(2, 10)}@${domain}>`
+}
+
+/** Serialization choices that depend on the receiving server. */
+export interface MimeOptions {
+  /** The server advertised `8BITMIME`, so text parts with non-ASCII
+   *  (but short) lines can go out as `8bit`. */
+  eightBitMime?: boolean
+  /** The message will be signed (S/MIME, OpenPGP/MIME). Relays may strip
+   *  trailing whitespace or escape a leading `From `, which breaks a
+   *  detached signature, so text parts with either go out
+   *  quoted-printable (RFC 3156 §5, RFC 8551 §3.1). */
+  signing?: boolean
+}
+
+/** One MIME entity before serialization: its own headers and its
+ *  encoded body (a multipart's body holds its rendered children). */
+interface Entity {
+  headers: Record<string, string>
+  body: string
+}
+
+export function buildMime(input: MimeInput, options: MimeOptions = {}): MimeOutput {
   const headers: Record<string, string> = {
     From: formatAddress(input.from),
     To: input.to.map(formatAddress).join(", "),
@@ -72,16 +101,18 @@ export function buildMime(input: MimeInput): MimeOutput {
   if (input.cc.length) headers.Cc = input.cc.map(formatAddress).join(", ")
   if (input.replyTo.length) headers["Reply-To"] = input.replyTo.map(formatAddress).join(", ")
   if (input.headers) {
-    for (const [k, v] of Object.entries(input.headers)) headers[k] = v
+    for (const [k, v] of Object.entries(input.headers)) {
+      // A custom header replaces a built one of any case.
+      for (const name of Object.keys(headers)) {
+        if (name.toLowerCase() === k.toLowerCase()) delete headers[name]
+      }
+      headers[k] = v
+    }
   }
 
-  const body = hasAttachments
-    ? buildMultipartMixed(input, boundary, altBoundary, hasBothBodies, headers)
-    : hasBothBodies
-      ? buildMultipartAlternative(input, altBoundary, headers)
-      : buildSinglePart(input, headers)
-
-  const rendered = renderHeaders(headers) + "\r\n" + body
+  const entity = messageEntity(input, options)
+  Object.assign(headers, entity.headers)
+  const rendered = renderHeaders(headers) + "\r\n" + entity.body
 
   return {
     envelope: {
@@ -93,123 +124,170 @@ export function buildMime(input: MimeInput): MimeOutput {
   }
 }
 
-function renderHeaders(headers: Record<string, string>): string {
-  const lines: string[] = []
-  for (const [name, value] of Object.entries(headers)) {
-    if (value === "") continue
-    lines.push(`${name}: ${foldHeader(value)}`)
-  }
-  return lines.join("\r\n") + "\r\n"
+/** Whether `buildMime` would encode differently for an `8BITMIME`
+ *  server — i.e. some text part has non-ASCII content. */
+export function prefersEightBit(input: MimeInput): boolean {
+  return [input.text, input.html, input.amp].some((text) => text && NON_ASCII.test(text))
 }
 
-function buildSinglePart(input: MimeInput, headers: Record<string, string>): string {
-  if (input.html) {
-    headers["Content-Type"] = "text/html; charset=utf-8"
-    headers["Content-Transfer-Encoding"] = "quoted-printable"
-    return encodeQuotedPrintable(input.html)
-  }
-  headers["Content-Type"] = "text/plain; charset=utf-8"
-  headers["Content-Transfer-Encoding"] = "quoted-printable"
-  return encodeQuotedPrintable(input.text ?? "")
-}
-
-function buildMultipartAlternative(
-  input: MimeInput,
-  boundary: string,
-  headers: Record<string, string>,
-): string {
-  headers["Content-Type"] = `multipart/alternative; boundary="${boundary}"`
-  const parts: string[] = []
-  if (input.text) {
-    parts.push(
-      [
-        `--${boundary}`,
-        "Content-Type: text/plain; charset=utf-8",
-        "Content-Transfer-Encoding: quoted-printable",
-        "",
-        encodeQuotedPrintable(input.text),
-      ].join("\r\n"),
+/** `multipart/mixed` → `multipart/related` → `multipart/alternative`,
+ *  each level only when needed: inline (`cid`) parts sit next to the
+ *  HTML they belong to, so clients don't list them as attachments. */
+function messageEntity(input: MimeInput, options: MimeOptions): Entity {
+  const attachments = input.attachments ?? []
+  const related = input.html ? attachments.filter(isInline) : []
+  const mixed = attachments.filter((a) => !related.includes(a))
+  let entity = bodyEntity(input, options)
+  if (related.length) {
+    entity = multipart(
+      "related",
+      [entity, ...related.map((a) => attachmentEntity(a, "inline"))],
+      `type="${mediaType(entity)}"`,
     )
   }
-  if (input.amp) {
-    parts.push(
-      [
-        `--${boundary}`,
-        "Content-Type: text/x-amp-html; charset=utf-8",
-        "Content-Transfer-Encoding: quoted-printable",
-        "",
-        encodeQuotedPrintable(input.amp),
-      ].join("\r\n"),
-    )
-  }
-  if (input.html) {
-    parts.push(
-      [
-        `--${boundary}`,
-        "Content-Type: text/html; charset=utf-8",
-        "Content-Transfer-Encoding: quoted-printable",
-        "",
-        encodeQuotedPrintable(input.html),
-      ].join("\r\n"),
-    )
+  if (mixed.length) {
+    entity = multipart("mixed", [
+      entity,
+      ...mixed.map((a) => attachmentEntity(a, a.disposition ?? "attachment")),
+    ])
   }
-  parts.push(`--${boundary}--`)
-  return parts.join("\r\n")
-}
-
-function buildMultipartMixed(
-  input: MimeInput,
-  outerBoundary: string,
-  altBoundary: string,
-  hasBothBodies: boolean,
-  headers: Record<string, string>,
-): string {
-  headers["Content-Type"] = `multipart/mixed; boundary="${outerBoundary}"`
-  const parts: string[] = []
-
-  const altHeaders: Record<string, string> = {}
-  const bodyPart = hasBothBodies
-    ? buildMultipartAlternative(input, altBoundary, altHeaders)
-    : buildSinglePart(input, altHeaders)
-
-  parts.push(
-    [
-      `--${outerBoundary}`,
-      `Content-Type: ${altHeaders["Content-Type"] ?? "text/plain; charset=utf-8"}`,
-      ...(altHeaders["Content-Transfer-Encoding"]
-        ? [`Content-Transfer-Encoding: ${altHeaders["Content-Transfer-Encoding"]}`]
-        : []),
-      "",
-      bodyPart,
-    ].join("\r\n"),
-  )
-
-  for (const a of input.attachments ?? []) {
-    parts.push(renderAttachment(outerBoundary, a))
+  return entity
+}
+
+function isInline(a: Attachment): boolean {
+  return a.disposition === "inline" || (a.cid !== undefined && a.disposition === undefined)
+}
+
+function bodyEntity(input: MimeInput, options: MimeOptions): Entity {
+  const alternatives: Entity[] = []
+  if (input.text) alternatives.push(textEntity("text/plain", input.text, options))
+  if (input.amp) alternatives.push(textEntity("text/x-amp-html", input.amp, options))
+  if (input.html) alternatives.push(textEntity("text/html", input.html, options))
+  if (alternatives.length > 1 || input.amp) return multipart("alternative", alternatives)
+  return alternatives[0] ?? textEntity("text/plain", "", options)
+}
+
+function textEntity(type: string, content: string, options: MimeOptions): Entity {
+  const text = content.replace(/\r?\n/g, "\r\n")
+  const encoding = textEncoding(text, options)
+  const body =
+    encoding === "quoted-printable"
+      ? encodeQuotedPrintable(text)
+      : encoding === "base64"
+        ? foldBase64(toBase64FromString(text))
+        : text
+  return {
+    headers: {
+      "Content-Type": `${type}; charset=utf-8`,
+      "Content-Transfer-Encoding": encoding,
+    },
+    body,
   }
-  parts.push(`--${outerBoundary}--`)
-  return parts.join("\r\n")
 }
 
-function renderAttachment(boundary: string, a: Attachment): string {
+/** RFC 2045 §2.7–2.8: `7bit` for ASCII text in short lines, `8bit` when
+ *  the server takes it and only the ASCII rule fails, otherwise the
+ *  smaller of quoted-printable (mostly-Latin text) and base64 (CJK,
+ *  emoji-heavy text). Signed text that transit could alter is never
+ *  left unencoded. */
+function textEncoding(text: string, options: MimeOptions): string {
+  const encoder = new TextEncoder()
+  const lineSafe =
+    !/\r(?!\n)/.test(text) &&
+    !text.includes("\0") &&
+    text.split("\r\n").every((line) => encoder.encode(line).length <= 998) &&
+    !(options.signing && /[ \t]$|^From /m.test(text.replace(/\r\n/g, "\n")))
+  if (lineSafe && !NON_ASCII.test(text)) return "7bit"
+  if (lineSafe && options.eightBitMime) return "8bit"
+  const qpLength = encodeQuotedPrintable(text).length
+  const base64Length = Math.ceil(encoder.encode(text).length / 3) * 4 * (78 / 76)
+  return qpLength <= base64Length ? "quoted-printable" : "base64"
+}
+
+function attachmentEntity(a: Attachment, disposition: string): Entity {
   const base64 =
     typeof a.content === "string"
       ? isLikelyBase64(a.content)
         ? a.content
         : toBase64FromString(a.content)
       : toBase64FromBytes(a.content)
-  const folded = foldBase64(base64)
-  const contentType = a.contentType ?? "application/octet-stream"
-  const disposition = a.disposition ?? "attachment"
-  const lines = [
-    `--${boundary}`,
-    `Content-Type: ${contentType}; name="${encodeHeader(a.filename)}"`,
-    "Content-Transfer-Encoding: base64",
-    `Content-Disposition: ${disposition}; filename="${encodeHeader(a.filename)}"`,
-  ]
-  if (a.cid) lines.push(`Content-ID: <${a.cid}>`)
-  lines.push("", folded)
-  return lines.join("\r\n")
+  const headers: Record<string, string> = {
+    "Content-Type": `${a.contentType ?? "application/octet-stream"}; name=${quote(encodeHeader(a.filename))}`,
+    "Content-Transfer-Encoding": "base64",
+    "Content-Disposition": `${disposition}; ${filenameParameter(a.filename)}`,
+  }
+  if (a.cid) headers["Content-ID"] = `<${a.cid}>`
+  return { headers, body: foldBase64(base64) }
+}
+
+/** `filename` for Content-Disposition: quoted when ASCII, otherwise
+ *  RFC 2231 `filename*` with UTF-8 percent-encoding, split into
+ *  numbered continuations so no segment outgrows a header line. */
+function filenameParameter(name: string): string {
+  if (/^[\x20-\x7E]*$/.test(name)) return `filename=${quote(name)}`
+  const segments: string[] = [""]
+  for (const byte of new TextEncoder().encode(name)) {
+    const char = String.fromCharCode(byte)
+    const encoded = /[A-Za-z0-9!#$&+\-.^_`|~]/.test(char)
+      ? char
+      : `%${byte.toString(16).toUpperCase().padStart(2, "0")}`
+    if (segments[segments.length - 1]!.length + encoded.length > 60) segments.push("")
+    segments[segments.length - 1] += encoded
+  }
+  if (segments.length === 1) return `filename*=utf-8''${segments[0]}`
+  return segments
+    .map((segment, i) => `filename*${i}*=${i === 0 ? "utf-8''" : ""}${segment}`)
+    .join("; ")
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`
+}
+
+function multipart(subtype: string, parts: ReadonlyArray<Entity>, params?: string): Entity {
+  const boundary = `----unemail_${subtype}_${randomBoundary()}`
+  const body = [
+    ...parts.map((part) => `--${boundary}\r\n${renderHeaders(part.headers)}\r\n${part.body}`),
+    `--${boundary}--`,
+  ].join("\r\n")
+  return {
+    headers: {
+      "Content-Type": `multipart/${subtype}; ${params ? `${params}; ` : ""}boundary="${boundary}"`,
+    },
+    body,
+  }
+}
+
+function mediaType(entity: Entity): string {
+  return entity.headers["Content-Type"]!.split(";")[0]!
+}
+
+function renderHeaders(headers: Record<string, string>): string {
+  const lines: string[] = []
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === "") continue
+    lines.push(`${name}: ${foldHeader(value)}`)
+  }
+  return lines.join("\r\n") + "\r\n"
+}
+
+/** Split a built message for S/MIME or OpenPGP/MIME wrapping: the
+ *  `Content-*` headers and the body become the entity to protect, the
+ *  other headers (with `MIME-Version`) stay outside. */
+export function detachEntity(message: string): { headers: string; entity: string } {
+  const sep = message.indexOf("\r\n\r\n")
+  if (sep < 0) throw new Error("[unemail/mime] message must contain CRLF CRLF separator")
+  const outer: string[] = []
+  const inner: string[] = []
+  for (const field of message.slice(0, sep).split(/\r\n(?![ \t])/)) {
+    if (/^content-/i.test(field)) inner.push(field)
+    else outer.push(field)
+  }
+  if (!outer.some((field) => /^mime-version:/i.test(field))) outer.push("MIME-Version: 1.0")
+  return {
+    headers: outer.map((field) => `${field}\r\n`).join(""),
+    entity: `${inner.map((field) => `${field}\r\n`).join("")}\r\n${message.slice(sep + 4)}`,
+  }
 }
 
 /** Dot-stuff a body for DATA transmission per RFC 5321 §4.5.2. Lines that
@@ -244,19 +322,29 @@ function encodeHeader(value: string): string {
   return `=?utf-8?B?${b64}?=`
 }
 
+/** RFC 2045 §6.7, plus `=46` for the `F` of a line-initial `From ` so
+ *  no relay mangles it into `>From `. */
 function encodeQuotedPrintable(input: string): string {
   const out: string[] = []
-  for (const ch of input) {
+  const chars = Array.from(input)
+  for (const [i, ch] of chars.entries()) {
     const code = ch.codePointAt(0)!
     if (ch === "\n") {
       out.push("\r\n")
       continue
     }
     if (ch === "\r") continue
-    if (code === 0x20 || code === 0x09) {
+    const lineStart = i === 0 || chars[i - 1] === "\n"
+    const lineEnd = i === chars.length - 1 || chars[i + 1] === "\r" || chars[i + 1] === "\n"
+    // Whitespace at a line end would be stripped in transit (rule 3).
+    if ((code === 0x20 || code === 0x09) && !lineEnd) {
       out.push(ch)
       continue
     }
+    if (ch === "F" && lineStart && chars.slice(i, i + 5).join("") === "From ") {
+      out.push("=46")
+      continue
+    }
     if (code >= 0x21 && code <= 0x7e && ch !== "=") {
       out.push(ch)
       continue
@@ -291,7 +379,7 @@ function toBase64FromString(value: string): string {
   return toBase64FromBytes(bytes)
 }
 
-function toBase64FromBytes(bytes: Uint8Array): string {
+export function toBase64FromBytes(bytes: Uint8Array): string {
   const g = globalThis as {
     Buffer?: { from: (b: Uint8Array) => { toString: (enc: string) => string } }
   }
@@ -305,13 +393,15 @@ function isLikelyBase64(value: string): boolean {
   return /^[A-Za-z0-9+/=\r\n]+$/.test(value) && value.length > 0 && value.length % 4 === 0
 }
 
-function foldBase64(b64: string, width = 76): string {
+export function foldBase64(b64: string, width = 76): string {
   const chunks: string[] = []
   for (let i = 0; i < b64.length; i += width) chunks.push(b64.slice(i, i + width))
   return chunks.join("\r\n")
 }
 
-function randomBoundary(): string {
+const NON_ASCII = /[\u0080-\uffff]/
+
+export function randomBoundary(): string {
   return Math.random().toString(36).slice(2, 12) + Date.now().toString(36)
 }
 
@@ -0,0 +1,71 @@
+import type { EmailError } from "../../errors.ts"
+import { createError } from "../../errors.ts"
+
+/** One MX answer, shaped like `node:dns` `resolveMx()` results. */
+export interface MxRecord {
+  exchange: string
+  priority: number
+}
+
+/** DNS lookups needed for direct-to-MX delivery. Matches
+ *  `node:dns/promises`, so `import("node:dns/promises")` works as is;
+ *  pass a stand-in to test offline. Lookup failures should reject with
+ *  the resolver's `code` (`ENODATA`, `ENOTFOUND`, …) on the error. */
+export interface MxResolver {
+  resolveMx: (domain: string) => Promise<MxRecord[]>
+}
+
+/** Group envelope recipients by (lowercased) domain, keeping order. */
+export function groupByDomain(recipients: ReadonlyArray<string>): Map<string, string[]> {
+  const groups = new Map<string, string[]>()
+  for (const rcpt of recipients) {
+    const domain = rcpt.slice(rcpt.lastIndexOf("@") + 1).toLowerCase()
+    groups.set(domain, [...(groups.get(domain) ?? []), rcpt])
+  }
+  return groups
+}
+
+/** Mail exchangers for `domain`, most preferred first (RFC 5321 §5.1).
+ *  A domain without MX records is its own exchanger; a null MX
+ *  (RFC 7505) or a nonexistent domain fails permanently, other lookup
+ *  errors are retryable. */
+export async function resolveMxHosts(domain: string, resolver: MxResolver): Promise<string[]> {
+  let records: MxRecord[]
+  try {
+    records = await resolver.resolveMx(domain)
+  } catch (error) {
+    const code = (error as { code?: unknown }).code
+    if (code === "ENODATA") return [domain]
+    throw mxLookupError(domain, error, code === "ENOTFOUND")
+  }
+  if (records.length === 0) return [domain]
+  if (records.some((record) => record.exchange === "" || record.exchange === ".")) {
+    throw createError("smtp", "PROVIDER", `${domain} does not accept mail (null MX)`, {
+      retryable: false,
+    })
+  }
+  return [...records]
+    .sort((a, b) => a.priority - b.priority)
+    .map((record) => record.exchange.replace(/\.$/, ""))
+}
+
+function mxLookupError(domain: string, cause: unknown, permanent: boolean): EmailError {
+  const reason = cause instanceof Error ? cause.message : String(cause)
+  return createError(
+    "smtp",
+    permanent ? "PROVIDER" : "NETWORK",
+    `MX lookup for ${domain} failed: ${reason}`,
+    { retryable: !permanent, cause },
+  )
+}
+
+/** Default resolver — `node:dns`, loaded on first use so the driver
+ *  module stays importable where it's missing. */
+export function nodeMxResolver(): MxResolver {
+  return {
+    async resolveMx(domain) {
+      const dns = await import("node:dns/promises")
+      return dns.resolveMx(domain)
+    },
+  }
+}
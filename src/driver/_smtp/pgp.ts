@@ -0,0 +1,139 @@
+/**
+ * RFC 3156 OpenPGP/MIME for outgoing mail: `multipart/signed` with a
+ * detached `application/pgp-signature`, and `multipart/encrypted`. The
+ * OpenPGP work itself is delegated to a `PgpBackend`, so the choice of
+ * implementation (openpgp.js, a gpg subprocess, an HSM) stays with the
+ * application.
+ *
+ * @module
+ */
+
+import type { MaybePromise } from "../../types.ts"
+import { createError } from "../../errors.ts"
+import { detachEntity, randomBoundary } from "./mime.ts"
+
+/** A public key as the backend understands it — armored text or the
+ *  binary transferable key WKD serves. */
+export type PgpKey = string | Uint8Array
+
+/** OpenPGP implementation behind the `pgp` option. `data` is the exact
+ *  MIME entity to protect (CRLF line endings); results are ASCII-armored. */
+export interface PgpBackend {
+  /** Hash the signatures use, for `micalg=pgp-<hash>`. Default: `"sha256"`. */
+  hash?: string
+  /** Detached signature over `data` (`-----BEGIN PGP SIGNATURE-----`). */
+  sign: (data: Uint8Array) => Promise<string>
+  /** `data` encrypted to every key (`-----BEGIN PGP MESSAGE-----`). */
+  encrypt: (data: Uint8Array, keys: ReadonlyArray<PgpKey>) => Promise<string>
+}
+
+export interface PgpEncryptOptions {
+  /** Public key for one envelope recipient — e.g. `wkdLookup` from
+   *  `unemail/pgp`. Every recipient needs one; the send fails otherwise.
+   *  Messages with Bcc recipients can't be encrypted: every recipient's
+   *  key ID is visible in the encrypted message. */
+  keys: (address: string) => MaybePromise<PgpKey | null | undefined>
+}
+
+export interface PgpOptions {
+  backend: PgpBackend
+  /** Detach-sign the message. */
+  sign?: boolean
+  /** Encrypt, after signing when `sign` is set (RFC 3156 §6.1). */
+  encrypt?: PgpEncryptOptions
+}
+
+/** Wrap a built RFC 5322 message. Like `applySmime`, the `Content-*`
+ *  headers move into the protected entity, and DKIM signs afterwards. */
+export async function applyPgp(
+  message: string,
+  recipients: ReadonlyArray<string>,
+  bcc: ReadonlyArray<string>,
+  options: PgpOptions,
+): Promise<string> {
+  if (options.encrypt && bcc.length) {
+    throw createError(
+      "pgp",
+      "INVALID_OPTIONS",
+      "can't encrypt with Bcc recipients: their key IDs would be listed in the message",
+      { retryable: false },
+    )
+  }
+  const { headers, entity: content } = detachEntity(message)
+  let entity = content
+  if (options.sign) entity = await signEntity(entity, options.backend)
+  if (options.encrypt) {
+    const keys = await recipientKeys(recipients, options.encrypt)
+    entity = await encryptEntity(entity, options.backend, keys)
+  }
+  return headers + entity
+}
+
+async function signEntity(entity: string, backend: PgpBackend): Promise<string> {
+  const signature = await backend.sign(new TextEncoder().encode(entity))
+  const boundary = `----unemail_signed_${randomBoundary()}`
+  return [
+    `Content-Type: multipart/signed; micalg=pgp-${(backend.hash ?? "sha256").toLowerCase()};\r\n protocol="application/pgp-signature"; boundary="${boundary}"`,
+    "",
+    "This is an OpenPGP/MIME signed message (RFC 3156).",
+    `--${boundary}`,
+    entity,
+    `--${boundary}`,
+    'Content-Type: application/pgp-signature; name="signature.asc"',
+    "Content-Description: OpenPGP digital signature",
+    'Content-Disposition: attachment; filename="signature.asc"',
+    "",
+    crlf(signature),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n")
+}
+
+async function encryptEntity(
+  entity: string,
+  backend: PgpBackend,
+  keys: ReadonlyArray<PgpKey>,
+): Promise<string> {
+  const armored = await backend.encrypt(new TextEncoder().encode(entity), keys)
+  const boundary = `----unemail_encrypted_${randomBoundary()}`
+  return [
+    `Content-Type: multipart/encrypted; protocol="application/pgp-encrypted";\r\n boundary="${boundary}"`,
+    "",
+    "This is an OpenPGP/MIME encrypted message (RFC 3156).",
+    `--${boundary}`,
+    "Content-Type: application/pgp-encrypted",
+    "Content-Description: PGP/MIME version identification",
+    "",
+    "Version: 1",
+    "",
+    `--${boundary}`,
+    'Content-Type: application/octet-stream; name="encrypted.asc"',
+    "Content-Description: OpenPGP encrypted message",
+    'Content-Disposition: inline; filename="encrypted.asc"',
+    "",
+    crlf(armored),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n")
+}
+
+async function recipientKeys(
+  recipients: ReadonlyArray<string>,
+  options: PgpEncryptOptions,
+): Promise<PgpKey[]> {
+  const addresses = [...new Set(recipients.map((address) => address.toLowerCase()))]
+  const found = await Promise.all(addresses.map((address) => options.keys(address)))
+  const missing = addresses.filter((_, i) => !found[i])
+  if (missing.length) {
+    throw createError("pgp", "INVALID_OPTIONS", `no OpenPGP key for ${missing.join(", ")}`, {
+      retryable: false,
+    })
+  }
+  return found as PgpKey[]
+}
+
+/** Armor as the backend returned it, with CRLF endings and no trailing
+ *  newline (the boundary line supplies it). */
+function crlf(armored: string): string {
+  return armored.replace(/\r?\n/g, "\r\n").replace(/(\r\n)+$/, "")
+}
@@ -1,6 +1,6 @@
 import type { ConnectionOptions, SmtpConnection } from "./connection.ts"
 import { createConnection } from "./connection.ts"
-import { cancelledError } from "./errors.ts"
+import { abortedError, cancelledError } from "./errors.ts"
 
 /** Options for the pool layer. A subset of `SmtpDriverOptions`. */
 export interface PoolOptions {
@@ -23,7 +23,9 @@ interface Entry {
  *  idle AND in-flight connections are tracked, so `dispose()` can wait on
  *  in-flight sends and then quit everything. */
 export interface ConnectionPool {
-  acquire: () => Promise<SmtpConnection>
+  /** Aborting `signal` gives up the wait for a free slot (or a
+   *  connection still being set up) and rejects with `abortedError`. */
+  acquire: (signal?: AbortSignal) => Promise<SmtpConnection>
   release: (conn: SmtpConnection, failed?: boolean) => Promise<void>
   dispose: () => Promise<void>
   size: () => { idle: number; inFlight: number; waiters: number }
@@ -53,8 +55,9 @@ export function createPool(options: PoolOptions): ConnectionPool {
   }
 
   return {
-    async acquire() {
+    async acquire(signal) {
       if (disposed) throw cancelledError("pool disposed")
+      if (signal?.aborted) throw abortedError(signal)
       // 1. Reuse an idle entry.
       for (const entry of idle) {
         idle.delete(entry)
@@ -68,13 +71,19 @@ export function createPool(options: PoolOptions): ConnectionPool {
       }
       // 2. If under the cap (or pooling disabled — always create a fresh one), create.
       if (!options.enabled || inFlight.size < options.maxConnections) {
-        const entry = await create()
+        const entry = await untilAborted(create(), signal, (late) => late.conn.destroy())
         inFlight.set(entry.conn, entry)
         return entry.conn
       }
       // 3. Otherwise wait for a release.
       return new Promise<SmtpConnection>((resolve, reject) => {
+        const onAbort = () => {
+          const index = waiters.indexOf(waiter)
+          if (index >= 0) waiters.splice(index, 1)
+          reject(abortedError(signal!))
+        }
         const waiter = (entry: Entry) => {
+          signal?.removeEventListener("abort", onAbort)
           if (disposed) {
             reject(cancelledError("pool disposed while waiting"))
             return
@@ -83,6 +92,7 @@ export function createPool(options: PoolOptions): ConnectionPool {
           resolve(entry.conn)
         }
         waiters.push(waiter)
+        signal?.addEventListener("abort", onAbort, { once: true })
       })
     },
 
@@ -162,12 +172,51 @@ export function createPool(options: PoolOptions): ConnectionPool {
   }
 }
 
+/** Settle with `task` unless `signal` aborts first. A result that
+ *  arrives after the abort is handed to `discard` so it doesn't leak. */
+function untilAborted<T>(
+  task: Promise<T>,
+  signal: AbortSignal | undefined,
+  discard: (late: T) => void,
+): Promise<T> {
+  if (!signal) return task
+  return new Promise<T>((resolve, reject) => {
+    let aborted = false
+    const onAbort = () => {
+      aborted = true
+      reject(abortedError(signal))
+    }
+    signal.addEventListener("abort", onAbort, { once: true })
+    task.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort)
+        if (aborted) discard(value)
+        else resolve(value)
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort)
+        reject(error)
+      },
+    )
+  })
+}
+
 function rejectedConn(): SmtpConnection {
   // Placeholder returned to waiters during dispose — callers are already
   // rejected via the waiter promise; this value is never used.
   return {
     id: -1,
-    capabilities: { authMethods: new Set(), starttls: false, size: 0, smtputf8: false },
+    capabilities: {
+      authMethods: new Set(),
+      starttls: false,
+      size: 0,
+      smtputf8: false,
+      dsn: false,
+      pipelining: false,
+      chunking: false,
+      binaryMime: false,
+      eightBitMime: false,
+    },
     sendMessage: () => Promise.reject(cancelledError("pool disposed")),
     reset: () => Promise.reject(cancelledError("pool disposed")),
     quit: () => Promise.resolve(),
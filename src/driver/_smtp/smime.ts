@@ -0,0 +1,279 @@
+/**
+ * RFC 8551 S/MIME for outgoing mail: detached signatures
+ * (`multipart/signed`) and enveloped data (`application/pkcs7-mime`),
+ * CMS (RFC 5652) encoded by hand over Web Crypto like the DKIM signer,
+ * so it runs wherever `crypto.subtle` does.
+ *
+ * Signing is RSA with SHA-256; encryption is AES-256-CBC with the key
+ * wrapped per recipient by RSA-OAEP (SHA-256). Both need RSA
+ * certificates.
+ *
+ * @module
+ */
+
+import type { MaybePromise } from "../../types.ts"
+import type { Asn1Node } from "./asn1.ts"
+import { createError } from "../../errors.ts"
+import {
+  NULL,
+  childrenOf,
+  contextTag,
+  der,
+  decodeDer,
+  integer,
+  objectId,
+  octetString,
+  pemToDer,
+  sequence,
+  setOf,
+  time,
+} from "./asn1.ts"
+import { detachEntity, foldBase64, randomBoundary, toBase64FromBytes } from "./mime.ts"
+
+export interface SmimeSignOptions {
+  /** Signer certificate, PEM or DER. */
+  certificate: string | Uint8Array
+  /** Its RSA private key as PKCS8 PEM, or a pre-imported
+   *  `RSASSA-PKCS1-v1_5`/SHA-256 CryptoKey. */
+  privateKey: string | CryptoKey
+  /** Intermediate certificates to ship with the signature. */
+  chain?: ReadonlyArray<string | Uint8Array>
+}
+
+export interface SmimeEncryptOptions {
+  /** Certificate (PEM or DER) for one envelope recipient. Every
+   *  recipient needs one — the send fails rather than go out readable
+   *  to some and unreadable to others. Messages with Bcc recipients
+   *  can't be encrypted: every recipient's issuer and serial number is
+   *  visible in the envelope. */
+  certificates: (address: string) => MaybePromise<string | Uint8Array | null | undefined>
+}
+
+export interface SmimeOptions {
+  sign?: SmimeSignOptions
+  /** Encrypt after signing, so the signature is inside the envelope. */
+  encrypt?: SmimeEncryptOptions
+}
+
+const OID = {
+  data: "1.2.840.113549.1.7.1",
+  signedData: "1.2.840.113549.1.7.2",
+  envelopedData: "1.2.840.113549.1.7.3",
+  contentType: "1.2.840.113549.1.9.3",
+  messageDigest: "1.2.840.113549.1.9.4",
+  signingTime: "1.2.840.113549.1.9.5",
+  sha256: "2.16.840.1.101.3.4.2.1",
+  rsaEncryption: "1.2.840.113549.1.1.1",
+  rsaesOaep: "1.2.840.113549.1.1.7",
+  mgf1: "1.2.840.113549.1.1.8",
+  aes256Cbc: "2.16.840.1.101.3.4.1.42",
+}
+
+/** Wrap a built RFC 5322 message (headers + CRLF CRLF + body). The
+ *  `Content-*` headers move into the protected entity; the rest stay on
+ *  the outside. Apply before DKIM — the DKIM body hash has to cover
+ *  the wrapped body. */
+export async function applySmime(
+  message: string,
+  recipients: ReadonlyArray<string>,
+  bcc: ReadonlyArray<string>,
+  options: SmimeOptions,
+): Promise<string> {
+  if (options.encrypt && bcc.length) {
+    throw createError(
+      "smime",
+      "INVALID_OPTIONS",
+      "can't encrypt with Bcc recipients: their certificates would be named in the envelope",
+      { retryable: false },
+    )
+  }
+  const { headers, entity: content } = detachEntity(message)
+  let entity = content
+  if (options.sign) entity = await signEntity(entity, options.sign)
+  if (options.encrypt) {
+    const certificates = await recipientCertificates(recipients, options.encrypt)
+    entity = await encryptEntity(entity, certificates)
+  }
+  return headers + entity
+}
+
+/** `multipart/signed` around `entity`, with a detached CMS SignedData. */
+async function signEntity(entity: string, options: SmimeSignOptions): Promise<string> {
+  const certificate = pemToDer(options.certificate)
+  const chain = (options.chain ?? []).map(pemToDer)
+  const digest = new Uint8Array(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(entity) as BufferSource),
+  )
+  const signedAttributes = [
+    attribute(OID.contentType, objectId(OID.data)),
+    attribute(OID.signingTime, time(new Date())),
+    attribute(OID.messageDigest, octetString(digest)),
+  ]
+  // The signature covers the attributes as a DER SET, not as the
+  // `[0] IMPLICIT` they're carried in.
+  const attributesSet = setOf(...signedAttributes)
+  const key = await importSigningKey(options.privateKey)
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: "RSASSA-PKCS1-v1_5" }, key, attributesSet as BufferSource),
+  )
+  const signerInfo = sequence(
+    integer(1),
+    issuerAndSerial(certificate),
+    algorithm(OID.sha256),
+    contextTag(0, decodeDer(attributesSet).value),
+    algorithm(OID.rsaEncryption, NULL),
+    octetString(signature),
+  )
+  const signedData = sequence(
+    integer(1),
+    setOf(algorithm(OID.sha256)),
+    sequence(objectId(OID.data)),
+    der(0xa0, certificate, ...chain),
+    setOf(signerInfo),
+  )
+  const cms = sequence(objectId(OID.signedData), contextTag(0, signedData))
+
+  const boundary = `----unemail_signed_${randomBoundary()}`
+  return [
+    `Content-Type: multipart/signed; protocol="application/pkcs7-signature";\r\n micalg=sha-256; boundary="${boundary}"`,
+    "",
+    "This is a cryptographically signed message in MIME format.",
+    "",
+    `--${boundary}`,
+    entity,
+    `--${boundary}`,
+    'Content-Type: application/pkcs7-signature; name="smime.p7s"',
+    "Content-Transfer-Encoding: base64",
+    'Content-Disposition: attachment; filename="smime.p7s"',
+    "",
+    foldBase64(toBase64FromBytes(cms)),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n")
+}
+
+/** `application/pkcs7-mime` enveloped data readable by each certificate
+ *  holder. */
+async function encryptEntity(
+  entity: string,
+  certificates: ReadonlyArray<Uint8Array>,
+): Promise<string> {
+  const contentKey = await crypto.subtle.generateKey({ name: "AES-CBC", length: 256 }, true, [
+    "encrypt",
+  ])
+  const iv = crypto.getRandomValues(new Uint8Array(16))
+  const encrypted = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-CBC", iv },
+      contentKey,
+      new TextEncoder().encode(entity) as BufferSource,
+    ),
+  )
+  const rawKey = new Uint8Array(await crypto.subtle.exportKey("raw", contentKey))
+  const oaep = algorithm(
+    OID.rsaesOaep,
+    sequence(
+      contextTag(0, algorithm(OID.sha256)),
+      contextTag(1, algorithm(OID.mgf1, algorithm(OID.sha256))),
+    ),
+  )
+  const recipientInfos = await Promise.all(
+    certificates.map(async (certificate) => {
+      const publicKey = await crypto.subtle.importKey(
+        "spki",
+        certificateFields(certificate).subjectPublicKeyInfo.bytes as BufferSource,
+        { name: "RSA-OAEP", hash: "SHA-256" },
+        false,
+        ["encrypt"],
+      )
+      const wrapped = new Uint8Array(
+        await crypto.subtle.encrypt({ name: "RSA-OAEP" }, publicKey, rawKey as BufferSource),
+      )
+      return sequence(integer(0), issuerAndSerial(certificate), oaep, octetString(wrapped))
+    }),
+  )
+  const envelopedData = sequence(
+    integer(0),
+    setOf(...recipientInfos),
+    sequence(
+      objectId(OID.data),
+      algorithm(OID.aes256Cbc, octetString(iv)),
+      contextTag(0, encrypted, true),
+    ),
+  )
+  const cms = sequence(objectId(OID.envelopedData), contextTag(0, envelopedData))
+  return [
+    'Content-Type: application/pkcs7-mime; smime-type=enveloped-data; name="smime.p7m"',
+    "Content-Transfer-Encoding: base64",
+    'Content-Disposition: attachment; filename="smime.p7m"',
+    "",
+    foldBase64(toBase64FromBytes(cms)),
+    "",
+  ].join("\r\n")
+}
+
+async function recipientCertificates(
+  recipients: ReadonlyArray<string>,
+  options: SmimeEncryptOptions,
+): Promise<Uint8Array[]> {
+  const addresses = [...new Set(recipients.map((address) => address.toLowerCase()))]
+  const found = await Promise.all(addresses.map((address) => options.certificates(address)))
+  const missing = addresses.filter((_, i) => !found[i])
+  if (missing.length) {
+    throw createError(
+      "smime",
+      "INVALID_OPTIONS",
+      `no S/MIME certificate for ${missing.join(", ")}`,
+      { retryable: false },
+    )
+  }
+  const unique = new Map<string, Uint8Array>()
+  for (const certificate of found) {
+    const bytes = pemToDer(certificate!)
+    unique.set(toBase64FromBytes(bytes), bytes)
+  }
+  return [...unique.values()]
+}
+
+interface CertificateFields {
+  serialNumber: Asn1Node
+  issuer: Asn1Node
+  subjectPublicKeyInfo: Asn1Node
+}
+
+/** The TBSCertificate fields CMS refers to (RFC 5280 §4.1). */
+export function certificateFields(certificate: Uint8Array): CertificateFields {
+  const [tbs] = childrenOf(decodeDer(certificate))
+  if (!tbs) throw new Error("[unemail/smime] not an X.509 certificate")
+  const fields = childrenOf(tbs)
+  // `version` is an optional `[0]` ahead of the serial number.
+  if (fields[0]?.tag === 0xa0) fields.shift()
+  const [serialNumber, , issuer, , , subjectPublicKeyInfo] = fields
+  if (!serialNumber || !issuer || !subjectPublicKeyInfo)
+    throw new Error("[unemail/smime] not an X.509 certificate")
+  return { serialNumber, issuer, subjectPublicKeyInfo }
+}
+
+function issuerAndSerial(certificate: Uint8Array): Uint8Array {
+  const { issuer, serialNumber } = certificateFields(certificate)
+  return sequence(issuer.bytes, serialNumber.bytes)
+}
+
+function algorithm(oid: string, parameters?: Uint8Array): Uint8Array {
+  return parameters ? sequence(objectId(oid), parameters) : sequence(objectId(oid))
+}
+
+function attribute(oid: string, value: Uint8Array): Uint8Array {
+  return sequence(objectId(oid), setOf(value))
+}
+
+async function importSigningKey(key: string | CryptoKey): Promise<CryptoKey> {
+  if (typeof key !== "string") return key
+  return crypto.subtle.importKey(
+    "pkcs8",
+    pemToDer(key) as BufferSource,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"],
+  )
+}
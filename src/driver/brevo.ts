@@ -45,10 +45,11 @@ const brevo: DriverFactory<BrevoDriverOptions> = defineDriver<BrevoDriverOptions
       return Boolean(options.apiKey)
     },
 
-    async send(msg) {
+    async send(msg, ctx) {
       const payload = buildBrevoPayload(msg)
       const res = await httpJson({
         fetch: fetchImpl,
+        signal: ctx.signal,
         driver: DRIVER,
         url: `${endpoint}/v3/smtp/email`,
         headers: { "api-key": options.apiKey },
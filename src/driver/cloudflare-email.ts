@@ -1,6 +1,6 @@
 import type { DriverFactory, EmailResult, Result } from "../types.ts"
 import { defineDriver } from "../_define.ts"
-import { buildMime, normalizeMimeInput } from "./_smtp/mime.ts"
+import { buildMime, headerMessageId, normalizeMimeInput } from "./_smtp/mime.ts"
 import { createError, createRequiredError, toEmailError } from "../errors.ts"
 import { normalizeAddresses } from "../_normalize.ts"
 
@@ -72,7 +72,7 @@ const cloudflareEmail: DriverFactory<CloudflareEmailDriverOptions> =
               error: createError(DRIVER, "INVALID_OPTIONS", "`from` and `to` are required"),
             }
           const messageId =
-            msg.headers?.["Message-ID"] ??
+            headerMessageId(msg) ??
             `<${Date.now().toString(36)}.${Math.random().toString(36).slice(2)}@cloudflare-email>`
           const mime = buildMime(normalizeMimeInput(msg, messageId))
           const message = new Ctor(from.email, to.email, mime.body)
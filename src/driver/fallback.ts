@@ -36,6 +36,8 @@ const fallback: DriverFactory<FallbackOptions> = defineDriver<FallbackOptions>((
         } catch (thrown) {
           lastError = toEmailError(driver.name, thrown)
         }
+        // An aborted send must not spill over to the next driver.
+        if (ctx.signal?.aborted) break
       }
       return {
         data: null,
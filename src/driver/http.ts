@@ -60,12 +60,13 @@ const http: DriverFactory<HttpDriverOptions> = defineDriver<HttpDriverOptions>((
       return true
     },
 
-    async send(msg) {
+    async send(msg, ctx) {
       const payload = transform(msg)
       const headers: Record<string, string> = { ...options.headers }
       if (options.apiKey) headers.authorization = `Bearer ${options.apiKey}`
       const res = await httpJson({
         fetch: fetchImpl,
+        signal: ctx.signal,
         driver: DRIVER,
         url: options.endpoint,
         method: options.method ?? "POST",
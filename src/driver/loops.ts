@@ -39,7 +39,7 @@ const loops: DriverFactory<LoopsDriverOptions> = defineDriver<LoopsDriverOptions
       return Boolean(options.apiKey)
     },
 
-    async send(msg) {
+    async send(msg, ctx) {
       const transactionalId =
         msg.template?.id ?? msg.headers?.["x-loops-transactional-id"] ?? options.transactionalId
       if (!transactionalId) {
@@ -66,6 +66,7 @@ const loops: DriverFactory<LoopsDriverOptions> = defineDriver<LoopsDriverOptions
 
       const res = await httpJson({
         fetch: fetchImpl,
+        signal: ctx.signal,
         driver: DRIVER,
         url: `${endpoint}/api/v1/transactional`,
         headers: { authorization: `Bearer ${options.apiKey}` },
@@ -51,12 +51,13 @@ const mailchannels: DriverFactory<MailChannelsDriverOptions> =
         return true
       },
 
-      async send(msg) {
+      async send(msg, ctx) {
         const payload = buildMailChannelsPayload(msg, options)
         const headers: Record<string, string> = {}
         if (options.apiKey) headers["x-api-key"] = options.apiKey
         const res = await httpJson({
           fetch: fetchImpl,
+          signal: ctx.signal,
           driver: DRIVER,
           url: `${endpoint}/tx/v1/send`,
           headers,
@@ -6,6 +6,7 @@ import type {
   EmailResult,
   Result,
 } from "../types.ts"
+import { batchFailure, batchResult, prepareBatch } from "../_batch.ts"
 import { defineDriver } from "../_define.ts"
 import { normalizeAddresses } from "../_normalize.ts"
 import { createError, createRequiredError } from "../errors.ts"
@@ -46,10 +47,11 @@ const mailersend: DriverFactory<MailerSendDriverOptions> = defineDriver<MailerSe
         return Boolean(options.apiKey)
       },
 
-      async send(msg) {
+      async send(msg, ctx) {
         const payload = buildMailerSendPayload(msg)
         const res = await httpJson({
           fetch: fetchImpl,
+          signal: ctx.signal,
           driver: DRIVER,
           url: `${endpoint}/v1/email`,
           headers: { authorization: `Bearer ${options.apiKey}` },
@@ -69,24 +71,33 @@ const mailersend: DriverFactory<MailerSendDriverOptions> = defineDriver<MailerSe
         }
       },
 
-      async sendBatch(msgs) {
-        const payload = msgs.map(buildMailerSendPayload)
+      async sendBatch(msgs, ctx) {
+        const { entries, results } = prepareBatch(DRIVER, msgs, buildMailerSendPayload)
+        if (entries.length === 0) return batchResult(DRIVER, results)
         const res = await httpJson({
           fetch: fetchImpl,
+          signal: ctx.signal,
           driver: DRIVER,
           url: `${endpoint}/v1/bulk-email`,
           headers: { authorization: `Bearer ${options.apiKey}` },
-          body: payload,
+          body: entries.map((entry) => entry.payload),
         })
-        if (res.error) return res as never
+        if (res.error) return batchFailure(msgs.length, res.error)
+        // Bulk sends are processed asynchronously — per-message failures
+        // surface later via the bulk-email status endpoint, not here.
         const body = (res.data ?? {}) as { bulk_email_id?: string }
-        const results: EmailResult[] = msgs.map((_, i) => ({
-          id: `${body.bulk_email_id ?? "ms_bulk"}_${i}`,
-          driver: DRIVER,
-          at: new Date(),
-          provider: body as Record<string, unknown>,
-        }))
-        return { data: results, error: null }
+        for (const { index } of entries) {
+          results[index] = {
+            data: {
+              id: `${body.bulk_email_id ?? "ms_bulk"}_${index}`,
+              driver: DRIVER,
+              at: new Date(),
+              provider: body as Record<string, unknown>,
+            },
+            error: null,
+          }
+        }
+        return batchResult(DRIVER, results)
       },
     }
   },
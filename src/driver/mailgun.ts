@@ -39,19 +39,22 @@ const mailgun: DriverFactory<MailgunDriverOptions> = defineDriver<MailgunDriverO
         replyTo: true,
         customHeaders: true,
         scheduling: true,
+        sandbox: true,
       },
+      limits: { maxRecipients: 1000, maxMessageBytes: 25 * 1024 * 1024 },
 
       async isAvailable() {
         return Boolean(options.apiKey && options.domain)
       },
 
-      async send(msg) {
+      async send(msg, ctx) {
         const form = buildMailgunForm(msg)
         return mailgunRequest(
           fetchImpl,
           `${endpoint}/v3/${options.domain}/messages`,
           options.apiKey,
           form,
+          ctx.signal,
         )
       },
     }
@@ -117,6 +120,7 @@ async function mailgunRequest(
   url: string,
   apiKey: string,
   form: FormData,
+  signal?: AbortSignal,
 ): Promise<Result<EmailResult>> {
   const auth = `Basic ${basicAuth("api", apiKey)}`
   let res: Response
@@ -125,6 +129,7 @@ async function mailgunRequest(
       method: "POST",
       headers: { authorization: auth, accept: "application/json" },
       body: form,
+      signal,
     })
   } catch (err) {
     return { data: null, error: toEmailError(DRIVER, err) }
@@ -7,6 +7,7 @@ import type {
   EmailTag,
   Result,
 } from "../types.ts"
+import { batchFailure, batchResult, prepareBatch } from "../_batch.ts"
 import { defineDriver } from "../_define.ts"
 import { normalizeAddresses } from "../_normalize.ts"
 import { createError, createRequiredError } from "../errors.ts"
@@ -85,13 +86,14 @@ const mailtrap: DriverFactory<MailtrapDriverOptions> = defineDriver<MailtrapDriv
         tagging: true,
         replyTo: true,
         customHeaders: true,
+        sandbox: true,
       },
 
       async isAvailable() {
         return Boolean(options.apiKey)
       },
 
-      async send(msg) {
+      async send(msg, ctx) {
         const unsupported = rejectUnsupported(msg)
         if (unsupported) return unsupported
 
@@ -102,6 +104,7 @@ const mailtrap: DriverFactory<MailtrapDriverOptions> = defineDriver<MailtrapDriv
         const payload = buildPayload(msg, defaultCategory)
         const res = await httpJson({
           fetch: fetchImpl,
+          signal: ctx.signal,
           driver: DRIVER,
           url: resolveApiUrl(useSandbox, "send", options, sendEndpoint, sandboxEndpoint),
           headers: mailtrapHeaders(),
@@ -112,69 +115,74 @@ const mailtrap: DriverFactory<MailtrapDriverOptions> = defineDriver<MailtrapDriv
         return parseSendSuccess(res.data)
       },
 
-      async sendBatch(msgs) {
-        if (msgs.length === 0) return { data: [], error: null }
-        for (const msg of msgs) {
-          const unsupported = rejectUnsupported(msg)
-          if (unsupported) return unsupported as Result<ReadonlyArray<EmailResult>>
-        }
+      async sendBatch(msgs, ctx) {
+        if (msgs.length === 0) return batchResult(DRIVER, [])
 
         const mixed = validateBatchSandboxModes(msgs, options)
-        if (mixed) return mixed as Result<ReadonlyArray<EmailResult>>
+        if (mixed?.error) return batchFailure(msgs.length, mixed.error)
 
         const useSandbox = resolveSandboxMode(msgs[0]!, options)
         const inboxErr = requireInboxIdForSandbox(useSandbox, options)
-        if (inboxErr) return inboxErr as Result<ReadonlyArray<EmailResult>>
+        if (inboxErr?.error) return batchFailure(msgs.length, inboxErr.error)
+
+        const { entries, results } = prepareBatch(DRIVER, msgs, (m) => {
+          const unsupported = rejectUnsupported(m)
+          if (unsupported?.error) throw unsupported.error
+          return buildPayload(m, defaultCategory)
+        })
+        if (entries.length === 0) return batchResult(DRIVER, results)
 
         const payload = {
-          requests: msgs.map((m) => buildPayload(m, defaultCategory)),
+          requests: entries.map((entry) => entry.payload),
         }
         const res = await httpJson({
           fetch: fetchImpl,
+          signal: ctx.signal,
           driver: DRIVER,
           url: resolveApiUrl(useSandbox, "batch", options, sendEndpoint, sandboxEndpoint),
           headers: mailtrapHeaders(),
           body: payload,
           classifyError: classifyMailtrapError,
         })
-        if (res.error) return res as never
+        if (res.error) return batchFailure(msgs.length, res.error)
 
         const body = (res.data ?? {}) as MailtrapBatchSuccess
         if (body.success === false) {
-          return {
-            data: null,
-            error: createError(
-              DRIVER,
-              "PROVIDER",
-              formatErrors(body.errors) ?? "batch request failed",
-              { cause: body },
-            ),
-          }
+          return batchFailure(
+            msgs.length,
+            createError(DRIVER, "PROVIDER", formatErrors(body.errors) ?? "batch request failed", {
+              cause: body,
+            }),
+          )
         }
 
         const responses = body.responses ?? []
-        for (let i = 0; i < responses.length; i++) {
+        entries.forEach(({ index }, i) => {
           const item = responses[i]
-          if (item?.success === false) {
-            return {
+          if (!item) return
+          if (item.success === false) {
+            results[index] = {
               data: null,
               error: createError(
                 DRIVER,
                 "PROVIDER",
-                formatErrors(item.errors) || `batch item ${i} failed`,
+                formatErrors(item.errors) || `batch item ${index} failed`,
                 { cause: item },
               ),
             }
+            return
           }
-        }
-
-        const results: EmailResult[] = responses.map((item, i) => ({
-          id: item?.message_ids?.[0] ?? `mailtrap_${Date.now().toString(36)}_${i}`,
-          driver: DRIVER,
-          at: new Date(),
-          provider: item as unknown as Record<string, unknown>,
-        }))
-        return { data: results, error: null }
+          results[index] = {
+            data: {
+              id: item.message_ids?.[0] ?? `mailtrap_${Date.now().toString(36)}_${index}`,
+              driver: DRIVER,
+              at: new Date(),
+              provider: item as unknown as Record<string, unknown>,
+            },
+            error: null,
+          }
+        })
+        return batchResult(DRIVER, results)
       },
     }
   },
@@ -27,7 +27,6 @@ const mock: DriverFactory<MockDriverOptions, EmailMessage[]> = defineDriver<
       attachments: true,
       html: true,
       text: true,
-      batch: true,
       replyTo: true,
       customHeaders: true,
       tagging: true,
@@ -54,15 +53,6 @@ const mock: DriverFactory<MockDriverOptions, EmailMessage[]> = defineDriver<
       }
       return { data: result, error: null }
     },
-    async sendBatch(msgs, ctx) {
-      const out: EmailResult[] = []
-      for (const msg of msgs) {
-        const r = await this.send(msg, ctx)
-        if (r.error) return r as never
-        out.push(r.data!)
-      }
-      return { data: out, error: null }
-    },
   }
 })
 
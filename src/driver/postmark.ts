@@ -6,6 +6,7 @@ import type {
   EmailResult,
   Result,
 } from "../types.ts"
+import { batchFailure, batchResult, prepareBatch } from "../_batch.ts"
 import { defineDriver } from "../_define.ts"
 import { formatAddress, normalizeAddresses } from "../_normalize.ts"
 import { createError, createRequiredError, toEmailError } from "../errors.ts"
@@ -49,15 +50,24 @@ const postmark: DriverFactory<PostmarkDriverOptions> = defineDriver<PostmarkDriv
         replyTo: true,
         customHeaders: true,
       },
+      limits: { maxRecipients: 50, maxMessageBytes: 10 * 1024 * 1024, maxBatchSize: 500 },
 
       async isAvailable() {
         return Boolean(options.token)
       },
 
-      async send(msg) {
+      async send(msg, ctx) {
         const payload = buildPayload(msg, options.messageStream)
         const path = msg.template ? "/email/withTemplate" : "/email"
-        const res = await request(fetchImpl, endpoint, path, "POST", options.token, payload)
+        const res = await request(
+          fetchImpl,
+          endpoint,
+          path,
+          "POST",
+          options.token,
+          payload,
+          ctx.signal,
+        )
         if (res.error) return res as Result<EmailResult>
         const body = res.data as PostmarkSendResponse
         const result: EmailResult = {
@@ -70,39 +80,59 @@ const postmark: DriverFactory<PostmarkDriverOptions> = defineDriver<PostmarkDriv
         return { data: result, error: null }
       },
 
-      async sendBatch(msgs) {
-        const payload = msgs.map((m) => buildPayload(m, options.messageStream))
+      async sendBatch(msgs, ctx) {
+        const { entries, results } = prepareBatch(DRIVER, msgs, (m) =>
+          buildPayload(m, options.messageStream),
+        )
+        if (entries.length === 0) return batchResult(DRIVER, results)
+        const payload = entries.map((entry) => entry.payload)
         const anyTemplate = msgs.some((m) => m.template)
         const path = anyTemplate ? "/email/batchWithTemplates" : "/email/batch"
         const requestBody = anyTemplate ? { Messages: payload } : payload
-        const res = await request(fetchImpl, endpoint, path, "POST", options.token, requestBody)
-        if (res.error) return res as never
-        const responses = res.data as PostmarkSendResponse[]
-        const failures = responses.filter((entry) => (entry.ErrorCode ?? 0) !== 0)
-        if (failures.length > 0) {
-          const first = failures[0]!
-          return {
-            data: null,
-            error: createError(
-              DRIVER,
-              "PROVIDER",
-              first.Message ?? `batch partial failure (${failures.length}/${responses.length})`,
-              {
-                status: first.ErrorCode,
-                cause: responses,
-                retryable: false,
-              },
-            ),
+        const res = await request(
+          fetchImpl,
+          endpoint,
+          path,
+          "POST",
+          options.token,
+          requestBody,
+          ctx.signal,
+        )
+        if (res.error) return batchFailure(msgs.length, res.error)
+        // Postmark answers 200 with one entry per message; rejected
+        // entries carry a non-zero `ErrorCode` alongside the accepted ones.
+        const responses = (res.data ?? []) as PostmarkSendResponse[]
+        entries.forEach(({ index }, i) => {
+          const entry = responses[i]
+          if (!entry) return
+          if ((entry.ErrorCode ?? 0) !== 0) {
+            results[index] = {
+              data: null,
+              error: createError(
+                DRIVER,
+                "PROVIDER",
+                entry.Message ?? `batch item ${index} failed`,
+                {
+                  status: entry.ErrorCode,
+                  cause: entry,
+                  retryable: false,
+                },
+              ),
+            }
+            return
           }
-        }
-        const results: EmailResult[] = responses.map((entry, i) => ({
-          id: entry.MessageID,
-          driver: DRIVER,
-          stream: msgs[i]?.stream ?? options.messageStream,
-          at: parsePostmarkDate(entry.SubmittedAt) ?? new Date(),
-          provider: entry as unknown as Record<string, unknown>,
-        }))
-        return { data: results, error: null }
+          results[index] = {
+            data: {
+              id: entry.MessageID,
+              driver: DRIVER,
+              stream: msgs[index]?.stream ?? options.messageStream,
+              at: parsePostmarkDate(entry.SubmittedAt) ?? new Date(),
+              provider: entry as unknown as Record<string, unknown>,
+            },
+            error: null,
+          }
+        })
+        return batchResult(DRIVER, results)
       },
     }
   },
@@ -193,6 +223,7 @@ async function request(
   method: string,
   token: string,
   body: unknown,
+  signal?: AbortSignal,
 ): Promise<Result<unknown>> {
   let res: Response
   try {
@@ -204,6 +235,7 @@ async function request(
         "x-postmark-server-token": token,
       },
       body: JSON.stringify(body),
+      signal,
     })
   } catch (err) {
     return { data: null, error: toEmailError(DRIVER, err) }
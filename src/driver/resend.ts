@@ -9,6 +9,7 @@ import type {
   SendStatus,
   SendStatusState,
 } from "../types.ts"
+import { batchFailure, batchResult, prepareBatch } from "../_batch.ts"
 import { defineDriver } from "../_define.ts"
 import { formatAddress, normalizeAddresses } from "../_normalize.ts"
 import { createError, createRequiredError, toEmailError } from "../errors.ts"
@@ -64,15 +65,17 @@ const resend: DriverFactory<ResendDriverOptions> = defineDriver<ResendDriverOpti
       cancelable: true,
       retrievable: true,
     },
+    limits: { maxRecipients: 50, maxMessageBytes: 40 * 1024 * 1024, maxBatchSize: 100 },
 
     async isAvailable() {
       return Boolean(options.apiKey)
     },
 
-    async send(msg) {
+    async send(msg, ctx) {
       const payload = buildPayload(msg)
       const res = await request(fetchImpl, endpoint, "/emails", "POST", options.apiKey, payload, {
         idempotencyKey: msg.idempotencyKey,
+        signal: ctx.signal,
       })
       if (res.error) return res as Result<EmailResult>
       const data = res.data as ResendApiSuccess
@@ -120,28 +123,54 @@ const resend: DriverFactory<ResendDriverOptions> = defineDriver<ResendDriverOpti
       }
     },
 
-    async sendBatch(msgs) {
-      const payload = msgs.map((m) => buildPayload(m))
+    async sendBatch(msgs, ctx) {
+      const { entries, results } = prepareBatch(DRIVER, msgs, buildPayload)
+      if (entries.length === 0) return batchResult(DRIVER, results)
+      // Permissive validation makes Resend accept the valid emails and
+      // report the invalid ones by (request-relative) index instead of
+      // rejecting the whole batch.
       const res = await request(
         fetchImpl,
         endpoint,
         "/emails/batch",
         "POST",
         options.apiKey,
-        payload,
+        entries.map((entry) => entry.payload),
+        { batchValidation: "permissive", signal: ctx.signal },
       )
-      if (res.error) return res as never
-      const body = (res.data ?? {}) as { data?: Array<{ id: string }> }
-      const items = body.data ?? []
-      return {
-        data: items.map((entry) => ({
-          id: entry.id,
-          driver: DRIVER,
-          at: new Date(),
-          provider: entry,
-        })),
-        error: null,
+      if (res.error) return batchFailure(msgs.length, res.error)
+      const body = (res.data ?? {}) as {
+        data?: Array<{ id: string }>
+        errors?: Array<{ index: number; message?: string }>
       }
+      const rejected = new Map((body.errors ?? []).map((e) => [e.index, e]))
+      const accepted = body.data ?? []
+      let next = 0
+      entries.forEach(({ index }, i) => {
+        const failure = rejected.get(i)
+        if (failure) {
+          results[index] = {
+            data: null,
+            error: createError(
+              DRIVER,
+              "PROVIDER",
+              failure.message ?? `batch item ${index} failed`,
+              {
+                cause: failure,
+                retryable: false,
+              },
+            ),
+          }
+          return
+        }
+        const entry = accepted[next++]
+        if (!entry) return
+        results[index] = {
+          data: { id: entry.id, driver: DRIVER, at: new Date(), provider: entry },
+          error: null,
+        }
+      })
+      return batchResult(DRIVER, results)
     },
   }
 })
@@ -235,17 +264,22 @@ async function request(
   method: string,
   apiKey: string,
   body: unknown,
-  extras?: { idempotencyKey?: string },
+  extras?: {
+    idempotencyKey?: string
+    batchValidation?: "strict" | "permissive"
+    signal?: AbortSignal
+  },
 ): Promise<Result<unknown>> {
   const headers: Record<string, string> = {
     authorization: `Bearer ${apiKey}`,
     "content-type": "application/json",
   }
   if (extras?.idempotencyKey) headers["Idempotency-Key"] = extras.idempotencyKey
+  if (extras?.batchValidation) headers["x-batch-validation"] = extras.batchValidation
 
   let res: Response
   try {
-    const init: RequestInit = { method, headers }
+    const init: RequestInit = { method, headers, signal: extras?.signal }
     if (body !== null && method !== "GET") init.body = JSON.stringify(body)
     res = await fetchImpl(`${endpoint}${path}`, init)
   } catch (err) {
@@ -0,0 +1,224 @@
+import type {
+  DriverFactory,
+  EmailAddress,
+  EmailDriver,
+  EmailMessage,
+  EmailResult,
+  EmailTag,
+  Result,
+} from "../types.ts"
+import { estimateSize } from "../_capabilities.ts"
+import { defineDriver } from "../_define.ts"
+import { normalizeAddresses } from "../_normalize.ts"
+import { createError, fanOutFailure, toEmailError } from "../errors.ts"
+
+/** Domain matcher — exact (case-insensitive) name, `*.example.com` for
+ *  any subdomain, or a RegExp tested against the bare domain. */
+export type DomainPattern = string | RegExp
+
+/** Declarative conditions for a `route` rule. Every condition set on a
+ *  rule must hold; list-valued conditions match when any entry does. */
+export interface RouteRule {
+  driver: EmailDriver
+  /** Matched per recipient — recipients of one message can split
+   *  across rules. */
+  recipientDomain?: DomainPattern | ReadonlyArray<DomainPattern>
+  senderDomain?: DomainPattern | ReadonlyArray<DomainPattern>
+  /** Tag name, or `{ name, value }` to match both. */
+  tag?: string | EmailTag
+  stream?: string | ReadonlyArray<string>
+  /** Every listed key must equal `msg.metadata[key]`. */
+  metadata?: Record<string, string>
+  /** Estimated encoded size bounds in bytes, inclusive. */
+  size?: { min?: number; max?: number }
+}
+
+/** One leg of a split send, recorded on `EmailResult.provider.routes`. */
+export interface RouteOutcome {
+  driver: string
+  recipients: string[]
+  result: Result<EmailResult>
+}
+
+/** Pick a driver per message — or per recipient — from ordered rules;
+ *  the first matching rule wins, unmatched recipients go to `default`.
+ *
+ *  When a message's recipients land on different drivers it is split
+ *  into one send per driver, each copy keeping only its recipients in
+ *  their original `to` / `cc` / `bcc` role — except a driver that only
+ *  gets Bcc recipients, which sends each of them a copy addressed `to`
+ *  them alone. `provider.routes` records which driver handled which
+ *  recipient and how each leg ended. If any leg failed the send fails,
+ *  and the error `cause` holds the same `{ routes }`.
+ *
+ *  ```ts
+ *  createEmail({
+ *    driver: route({
+ *      rules: [{ recipientDomain: ["outlook.com", "hotmail.com", "live.com"], driver: ses(opts) }],
+ *      default: resend({ apiKey }),
+ *    }),
+ *  })
+ *  ```
+ */
+export interface RouteOptions {
+  rules: ReadonlyArray<RouteRule>
+  /** Driver for recipients no rule matches. Without it, an unmatched
+   *  recipient fails the send with `INVALID_OPTIONS`. */
+  default?: EmailDriver
+}
+
+const DRIVER = "route"
+
+const route: DriverFactory<RouteOptions> = defineDriver<RouteOptions>((options) => {
+  if (!options || (options.rules.length === 0 && !options.default))
+    throw createError(
+      DRIVER,
+      "INVALID_OPTIONS",
+      "at least one rule or a default driver is required",
+    )
+
+  const rules = options.rules
+  const defaultDriver = options.default
+  const drivers = [
+    ...new Set([...rules.map((rule) => rule.driver), ...(defaultDriver ? [defaultDriver] : [])]),
+  ]
+
+  function resolve(msg: EmailMessage, stream: string | undefined, recipient: EmailAddress) {
+    const size = lazy(() => estimateSize(msg))
+    for (const rule of rules) {
+      if (rule.recipientDomain && !matchDomain(rule.recipientDomain, recipient.email)) continue
+      if (rule.senderDomain) {
+        const sender = normalizeAddresses(msg.from)[0]?.email ?? ""
+        if (!matchDomain(rule.senderDomain, sender)) continue
+      }
+      if (rule.tag && !matchTag(rule.tag, msg.tags)) continue
+      if (rule.stream && !list(rule.stream).includes(stream ?? "")) continue
+      if (rule.metadata && !matchMetadata(rule.metadata, msg.metadata)) continue
+      if (rule.size) {
+        if (rule.size.min !== undefined && size() < rule.size.min) continue
+        if (rule.size.max !== undefined && size() > rule.size.max) continue
+      }
+      return rule.driver
+    }
+    return defaultDriver
+  }
+
+  return {
+    name: DRIVER,
+    options,
+    async send(msg, ctx) {
+      const stream = msg.stream ?? ctx.stream
+      const roles = {
+        to: normalizeAddresses(msg.to),
+        cc: normalizeAddresses(msg.cc),
+        bcc: normalizeAddresses(msg.bcc),
+      }
+      const groups = new Map<EmailDriver, EmailAddress[]>()
+      for (const recipient of [...roles.to, ...roles.cc, ...roles.bcc]) {
+        const driver = resolve(msg, stream, recipient)
+        if (!driver) {
+          return {
+            data: null,
+            error: createError(DRIVER, "INVALID_OPTIONS", `no route matches ${recipient.email}`, {
+              retryable: false,
+            }),
+          }
+        }
+        groups.set(driver, [...(groups.get(driver) ?? []), recipient])
+      }
+
+      if (groups.size <= 1) {
+        const driver = groups.keys().next().value ?? defaultDriver ?? rules[0]!.driver
+        ctx.driver = driver.name
+        return driver.send(msg, ctx)
+      }
+
+      // Most providers need a visible recipient, so a leg of Bcc
+      // recipients alone goes out as one copy each, addressed `to` them.
+      const hidden = new Set(roles.bcc)
+      const legs: Array<{ driver: EmailDriver; recipients: EmailAddress[]; bccOnly: boolean }> = []
+      for (const [driver, recipients] of groups) {
+        if (recipients.every((a) => hidden.has(a))) {
+          for (const a of recipients) legs.push({ driver, recipients: [a], bccOnly: true })
+        } else legs.push({ driver, recipients, bccOnly: false })
+      }
+
+      const outcomes = await Promise.all(
+        legs.map(async ({ driver, recipients, bccOnly }): Promise<RouteOutcome> => {
+          const only = new Set(recipients)
+          const copy: EmailMessage = bccOnly
+            ? { ...msg, to: recipients, cc: [], bcc: [] }
+            : {
+                ...msg,
+                to: roles.to.filter((a) => only.has(a)),
+                cc: roles.cc.filter((a) => only.has(a)),
+                bcc: roles.bcc.filter((a) => only.has(a)),
+              }
+          let result: Result<EmailResult>
+          try {
+            result = await driver.send(copy, { ...ctx, driver: driver.name })
+          } catch (thrown) {
+            result = { data: null, error: toEmailError(driver.name, thrown) }
+          }
+          return { driver: driver.name, recipients: recipients.map((a) => a.email), result }
+        }),
+      )
+
+      const first = outcomes.find((outcome) => outcome.result.data)?.result.data
+      const failed = outcomes.find((outcome) => outcome.result.error)?.result.error
+      if (failed) {
+        const delivered = outcomes.filter((outcome) => outcome.result.data).length
+        return {
+          data: null,
+          error: fanOutFailure(DRIVER, delivered, outcomes.length, failed, { routes: outcomes }),
+        }
+      }
+      return {
+        data: { id: first!.id, driver: DRIVER, at: first!.at, provider: { routes: outcomes } },
+        error: null,
+      }
+    },
+    async initialize() {
+      await Promise.all(drivers.map((d) => d.initialize?.()))
+    },
+    async dispose() {
+      await Promise.all(drivers.map((d) => d.dispose?.()))
+    },
+  }
+})
+
+function matchDomain(
+  pattern: DomainPattern | ReadonlyArray<DomainPattern>,
+  address: string,
+): boolean {
+  const domain = address.slice(address.lastIndexOf("@") + 1).toLowerCase()
+  return list(pattern).some((p) => {
+    if (p instanceof RegExp) return p.test(domain)
+    const expected = p.toLowerCase()
+    if (expected.startsWith("*.")) return domain.endsWith(expected.slice(1))
+    return domain === expected
+  })
+}
+
+function matchTag(tag: string | EmailTag, tags: ReadonlyArray<EmailTag> = []): boolean {
+  if (typeof tag === "string") return tags.some((t) => t.name === tag)
+  return tags.some((t) => t.name === tag.name && t.value === tag.value)
+}
+
+function matchMetadata(
+  expected: Record<string, string>,
+  actual: Record<string, string> = {},
+): boolean {
+  return Object.entries(expected).every(([key, value]) => actual[key] === value)
+}
+
+function list<T>(value: T | ReadonlyArray<T>): ReadonlyArray<T> {
+  return Array.isArray(value) ? (value as ReadonlyArray<T>) : [value as T]
+}
+
+function lazy<T>(compute: () => T): () => T {
+  let cached: { value: T } | undefined
+  return () => (cached ??= { value: compute() }).value
+}
+
+export default route
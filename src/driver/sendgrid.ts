@@ -45,16 +45,19 @@ const sendgrid: DriverFactory<SendGridDriverOptions> = defineDriver<SendGridDriv
         customHeaders: true,
         scheduling: true,
         personalizations: true,
+        sandbox: true,
       },
+      limits: { maxRecipients: 1000, maxMessageBytes: 30 * 1024 * 1024 },
 
       async isAvailable() {
         return Boolean(options.apiKey)
       },
 
-      async send(msg) {
+      async send(msg, ctx) {
         const payload = buildSendGridPayload(msg, options)
         const res = await httpJson({
           fetch: fetchImpl,
+          signal: ctx.signal,
           driver: DRIVER,
           url: `${endpoint}/v3/mail/send`,
           headers: { authorization: `Bearer ${options.apiKey}` },
@@ -2,7 +2,7 @@ import type { DriverFactory, EmailMessage, EmailResult, Result } from "../types.
 import type { AwsCredentials } from "./_ses/sigv4.ts"
 import { defineDriver } from "../_define.ts"
 import { createError, createRequiredError, toEmailError } from "../errors.ts"
-import { buildMime, normalizeMimeInput } from "./_smtp/mime.ts"
+import { buildMime, headerMessageId, normalizeMimeInput } from "./_smtp/mime.ts"
 import { signRequest } from "./_ses/sigv4.ts"
 
 /** Options for the AWS SES v2 driver. Zero-dep: no \`@aws-sdk/*\` imports,
@@ -52,17 +52,19 @@ const ses: DriverFactory<SesDriverOptions> = defineDriver<SesDriverOptions>((opt
       attachments: true,
       html: true,
       text: true,
-      batch: true,
       tagging: true,
       replyTo: true,
       customHeaders: true,
+      amp: true,
     },
+    // SES v2 caps Destination at 50 addresses and raw messages at 40MB.
+    limits: { maxRecipients: 50, maxMessageBytes: 40 * 1024 * 1024 },
 
     async isAvailable() {
       return Boolean(credentials.accessKeyId && credentials.secretAccessKey)
     },
 
-    async send(msg) {
+    async send(msg, ctx) {
       const payload = buildSendPayload(msg, options)
       const res = await sesRequest(
         fetchImpl,
@@ -71,6 +73,7 @@ const ses: DriverFactory<SesDriverOptions> = defineDriver<SesDriverOptions>((opt
         payload,
         options,
         credentials,
+        ctx.signal,
       )
       if (res.error) return res as Result<EmailResult>
       const body = (res.data ?? {}) as { MessageId?: string }
@@ -90,20 +93,6 @@ const ses: DriverFactory<SesDriverOptions> = defineDriver<SesDriverOptions>((opt
         error: null,
       }
     },
-
-    async sendBatch(msgs) {
-      // SES v2 has SendBulkEmail but it requires a template; raw-MIME bulk
-      // isn't a supported API. Fall back to sequential sends — the core
-      // `sendBatch()` wrapper does this too, but implementing here keeps
-      // the contract consistent (no `sendBatch` → fall through to sequential).
-      const results: EmailResult[] = []
-      for (const msg of msgs) {
-        const r = await this.send!(msg, { driver: DRIVER, attempt: 1, meta: {} })
-        if (r.error) return r as never
-        results.push(r.data!)
-      }
-      return { data: results, error: null }
-    },
   }
 })
 
@@ -130,7 +119,7 @@ function readEnv(name: string): string | undefined {
 
 function buildSendPayload(msg: EmailMessage, options: SesDriverOptions): Record<string, unknown> {
   const messageId =
-    msg.headers?.["Message-ID"] ??
+    headerMessageId(msg) ??
     `<${Date.now().toString(36)}.${Math.random().toString(36).slice(2, 10)}@ses.amazonaws.com>`
   const mime = buildMime(normalizeMimeInput(msg, messageId))
   const destination: Record<string, string[]> = { ToAddresses: splitHeader(mime.headers.To) }
@@ -175,6 +164,7 @@ async function sesRequest(
   body: unknown,
   options: SesDriverOptions,
   credentials: AwsCredentials,
+  signal?: AbortSignal,
 ): Promise<Result<unknown>> {
   const bodyText = JSON.stringify(body)
   let signed
@@ -199,6 +189,7 @@ async function sesRequest(
       method: signed.method,
       headers: signed.headers,
       body: signed.body,
+      signal,
     })
   } catch (err) {
     return { data: null, error: toEmailError(DRIVER, err) }
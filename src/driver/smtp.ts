@@ -1,16 +1,35 @@
-import type { DriverFactory, EmailMessage, EmailResult } from "../types.ts"
+import type {
+  DriverFactory,
+  EmailMessage,
+  EmailResult,
+  RecipientOutcome,
+  Result,
+} from "../types.ts"
 import type { ConnectionOptions } from "./_smtp/connection.ts"
 import type { PoolOptions } from "./_smtp/pool.ts"
 import type { AuthMethod } from "./_smtp/auth.ts"
+import type { MxTlsPlan, OutboundTlsPolicy, TlsSession } from "../mta-sts/index.ts"
 import { defineDriver } from "../_define.ts"
 import { EmailError } from "../errors.ts"
-import { createError, createRequiredError, toEmailError } from "../errors.ts"
-import { buildMime, normalizeMimeInput } from "./_smtp/mime.ts"
+import { createError, createRequiredError, fanOutFailure, toEmailError } from "../errors.ts"
+import { headerMessageId, normalizeMimeInput } from "./_smtp/mime.ts"
+import { composeMessage } from "./_smtp/compose.ts"
 import { normalizeAddresses } from "../_normalize.ts"
 import { createPool, type ConnectionPool } from "./_smtp/pool.ts"
+import { abortedError, tlsPolicyError } from "./_smtp/errors.ts"
+import { dsnParams, type DsnParams } from "./_smtp/dsn.ts"
+import {
+  groupByDomain,
+  nodeMxResolver,
+  resolveMxHosts,
+  type MxRecord,
+  type MxResolver,
+} from "./_smtp/mx.ts"
 import { signDkim, type DkimSignerOptions } from "./_smtp/dkim.ts"
+import type { SmimeOptions } from "./_smtp/smime.ts"
+import type { PgpOptions } from "./_smtp/pgp.ts"
 
-export type { DkimSignerOptions }
+export type { DkimSignerOptions, MxRecord, MxResolver, PgpOptions, SmimeOptions }
 
 function normalizeAddressList(input: EmailMessage["to"] | undefined): string[] {
   return normalizeAddresses(input).map((a) => a.email)
@@ -20,7 +39,8 @@ function normalizeAddressList(input: EmailMessage["to"] | undefined): string[] {
  *  the full matrix. Defaults favor security: `rejectUnauthorized: true`,
  *  AUTO auth, STARTTLS if the server advertises it. */
 export interface SmtpDriverOptions {
-  host: string
+  /** Smarthost. Required unless `directMx` is set. */
+  host?: string
   port?: number
   secure?: boolean
   requireTLS?: boolean
@@ -42,17 +62,81 @@ export interface SmtpDriverOptions {
    *  single signer config or a per-message resolver for multi-tenant
    *  sending. */
   dkim?: DkimSignerOptions | ((msg: EmailMessage) => DkimSignerOptions | null)
+  /** Sign and/or encrypt built messages with S/MIME (RFC 8551), before
+   *  DKIM signs the result. `msg.raw` is sent as given — wrap it with
+   *  `buildSmime` from `unemail/smime` instead. */
+  smime?: SmimeOptions | ((msg: EmailMessage) => SmimeOptions | null)
+  /** Sign and/or encrypt built messages with OpenPGP/MIME (RFC 3156)
+   *  through `pgp.backend`, before DKIM. Can't be combined with `smime`
+   *  on the same message; `msg.raw` is sent as given. */
+  pgp?: PgpOptions | ((msg: EmailMessage) => PgpOptions | null)
+  /** What to do with `msg.dsn` when the server doesn't advertise the
+   *  `DSN` extension: `"reject"` fails the send with `UNSUPPORTED`;
+   *  `"warn"` sends without the RFC 3461 parameters and lists the
+   *  reason on `provider.warnings`. Default: `"warn"`. */
+  dsnUnsupported?: "reject" | "warn"
+  /** When the server rejects some `RCPT TO`s, deliver to the accepted
+   *  ones instead of failing the whole message. Either way
+   *  `provider.accepted` / `provider.rejected` (or the error `cause`)
+   *  list each recipient's reply with its enhanced status code. The send
+   *  still fails when no recipient was accepted. Default: `false`. */
+  partialDelivery?: boolean
+  /** Deliver straight to each recipient domain's mail exchangers instead
+   *  of a smarthost (`host` is then not needed). Recipients are grouped
+   *  by domain; each domain's MX hosts are tried in preference order
+   *  over port 25 with opportunistic STARTTLS (certificates are only
+   *  verified when `rejectUnauthorized` is set, or a `tlsPolicy` asks
+   *  for it). A domain that didn't take the message fails the send —
+   *  with the per-domain `domains` on the error `cause` — unless
+   *  `partialDelivery` is set; see `provider.domains`. */
+  directMx?: boolean | DirectMxOptions
+}
+
+export interface DirectMxOptions {
+  /** MX lookups. Default: `node:dns`. */
+  resolver?: MxResolver
+  /** Port the exchangers listen on. Default: 25. */
+  port?: number
+  /** Honour recipient domains' MTA-STS / DANE policies — build one with
+   *  `createOutboundTlsPolicy()` from `unemail/mta-sts`. Exchangers the
+   *  policy rules out are skipped, and in `enforce` mode (or under DANE)
+   *  a session without authenticated TLS is dropped before MAIL FROM;
+   *  either way the domain fails with a retryable `NETWORK` error whose
+   *  `cause.tlsResult` names the RFC 8460 result type. */
+  tlsPolicy?: OutboundTlsPolicy
+}
+
+/** What one successful transaction reported. */
+interface Delivery {
+  capabilities: string[]
+  accepted: RecipientOutcome[]
+  rejected: RecipientOutcome[]
+  warnings: string[]
+}
+
+/** The signed message for a connection, by whether it took `8BITMIME`. */
+type MessageBody = (eightBitMime: boolean) => Promise<string>
+
+/** Per-domain result of a `directMx` send, listed on
+ *  `provider.domains`. `host` is the last exchanger tried. */
+export interface DirectMxOutcome {
+  domain: string
+  recipients: string[]
+  host?: string
+  delivery?: Delivery
+  error?: EmailError
 }
 
 const DRIVER = "smtp"
 
 const smtp: DriverFactory<SmtpDriverOptions> = defineDriver<SmtpDriverOptions>((opts) => {
-  if (!opts?.host) throw createRequiredError(DRIVER, "host")
+  if (!opts?.host && !opts?.directMx) throw createRequiredError(DRIVER, "host")
 
   const secure = opts.secure ?? false
   const port = opts.port ?? (secure ? 465 : 587)
+  const localName = opts.localName ?? resolveLocalName()
   const connectionOpts: ConnectionOptions = {
-    host: opts.host,
+    host: opts.host ?? "",
     port,
     secure,
     requireTLS: opts.requireTLS,
@@ -62,7 +146,7 @@ const smtp: DriverFactory<SmtpDriverOptions> = defineDriver<SmtpDriverOptions>((
     getAccessToken: opts.getAccessToken,
     rejectUnauthorized: opts.rejectUnauthorized ?? true,
     tls: opts.tls,
-    localName: opts.localName ?? resolveLocalName(),
+    localName,
     connectionTimeoutMs: opts.connectionTimeoutMs ?? 30_000,
     commandTimeoutMs: opts.commandTimeoutMs ?? 10_000,
   }
@@ -76,12 +160,160 @@ const smtp: DriverFactory<SmtpDriverOptions> = defineDriver<SmtpDriverOptions>((
     connection: connectionOpts,
   }
 
-  let pool: ConnectionPool | null = null
-  function getPool(): ConnectionPool {
-    pool ??= createPool(poolOpts)
+  const directMx = opts.directMx ? (opts.directMx === true ? {} : opts.directMx) : null
+  const mxResolver = directMx?.resolver ?? nodeMxResolver()
+  const verifyMxCertificates = opts.rejectUnauthorized ?? false
+  const tlsPolicy = directMx?.tlsPolicy
+  const { dsnUnsupported, partialDelivery } = opts
+
+  // One pool per server: the smarthost, or each MX host reached so far
+  // (per TLS policy in force, so a policy change gets fresh sessions).
+  const pools = new Map<string, ConnectionPool>()
+  // Latest plan per pool, read when one of its connections negotiates TLS.
+  const tlsPlans = new Map<string, MxTlsPlan>()
+
+  /** Hold a session to its plan: report any failure, and refuse the
+   *  connection when the plan enforces. */
+  async function checkTls(key: string, socket: import("node:tls").TLSSocket | null) {
+    const plan = tlsPlans.get(key)!
+    const result = socket ? await plan.check(tlsSession(socket)) : "starttls-not-supported"
+    if (!result) return
+    plan.report(result)
+    if (plan.enforce) throw tlsPolicyError(plan.host, result)
+  }
+
+  function getPool(host = connectionOpts.host, plan?: MxTlsPlan): ConnectionPool {
+    const policed = plan && plan.policyType !== "no-policy-found"
+    const key = policed ? `${host} ${plan.policyType}${plan.enforce ? " enforce" : ""}` : host
+    if (policed) tlsPlans.set(key, plan)
+    let pool = pools.get(key)
+    if (!pool) {
+      const connection: ConnectionOptions = directMx
+        ? {
+            ...connectionOpts,
+            host,
+            port: directMx.port ?? 25,
+            secure: false,
+            // Opportunistic STARTTLS: MX certificates rarely match, and
+            // relays don't take client credentials.
+            requireTLS: false,
+            // DANE authenticates without the WebPKI (RFC 7672 §3.1).
+            rejectUnauthorized: plan?.policyType === "tlsa" ? false : verifyMxCertificates,
+            user: undefined,
+            password: undefined,
+            getAccessToken: undefined,
+            checkTls: policed ? (socket) => checkTls(key, socket) : undefined,
+          }
+        : connectionOpts
+      pool = createPool({ ...poolOpts, connection })
+      pools.set(key, pool)
+    }
     return pool
   }
 
+  /** One SMTP transaction against `host`. Never throws. */
+  async function deliver(
+    host: string,
+    envelope: { from: string; rcpt: string[] },
+    body: MessageBody,
+    dsn: DsnParams | undefined,
+    signal: AbortSignal | undefined,
+    plan?: MxTlsPlan,
+  ): Promise<Result<Delivery>> {
+    try {
+      const pool = getPool(host, plan)
+      const conn = await pool.acquire(signal)
+      const warnings: string[] = []
+      if (dsn && !conn.capabilities.dsn) {
+        if (dsnUnsupported === "reject") {
+          await pool.release(conn).catch(() => {})
+          return {
+            data: null,
+            error: createError(DRIVER, "UNSUPPORTED", `${host} does not advertise DSN`, {
+              retryable: false,
+            }),
+          }
+        }
+        warnings.push(`${host} does not advertise DSN; dsn options were not sent`)
+      }
+      let failed = false
+      // Tear the connection down mid-transaction on abort; it can't be
+      // reused once a command is left unanswered.
+      const onAbort = () => conn.destroy()
+      signal?.addEventListener("abort", onAbort, { once: true })
+      try {
+        const envelopeDsn = conn.capabilities.dsn ? dsn : undefined
+        const { accepted, rejected } = await conn.sendMessage(
+          { ...envelope, dsn: envelopeDsn },
+          await body(conn.capabilities.eightBitMime),
+          { partial: partialDelivery },
+        )
+        return {
+          data: {
+            capabilities: Array.from(conn.capabilities.authMethods),
+            accepted,
+            rejected,
+            warnings,
+          },
+          error: null,
+        }
+      } catch (err) {
+        failed = true
+        if (signal?.aborted) return { data: null, error: abortedError(signal) }
+        return { data: null, error: toEmailError(DRIVER, err) }
+      } finally {
+        signal?.removeEventListener("abort", onAbort)
+        await pool.release(conn, failed).catch(() => {})
+      }
+    } catch (err) {
+      return { data: null, error: toEmailError(DRIVER, err) }
+    }
+  }
+
+  /** Deliver to each recipient domain's own exchangers, walking them in
+   *  MX preference order. A retryable failure (connection refused, 4xx,
+   *  TLS policy) moves on to the next exchanger; a permanent one (5xx)
+   *  settles the domain. */
+  async function deliverDirect(
+    envelope: { from: string; rcpt: string[] },
+    body: MessageBody,
+    dsn: DsnParams | undefined,
+    signal: AbortSignal | undefined,
+  ): Promise<DirectMxOutcome[]> {
+    return Promise.all(
+      Array.from(groupByDomain(envelope.rcpt), async ([domain, recipients]) => {
+        let hosts: string[]
+        let plans: MxTlsPlan[] | undefined
+        try {
+          hosts = await resolveMxHosts(domain, mxResolver)
+          plans = await tlsPolicy?.plan(domain, hosts)
+        } catch (err) {
+          return { domain, recipients, error: toEmailError(DRIVER, err) }
+        }
+        let outcome: DirectMxOutcome = { domain, recipients }
+        for (const [i, host] of hosts.entries()) {
+          const plan = plans?.[i]
+          if (plan?.refused) {
+            outcome = { domain, recipients, host, error: tlsPolicyError(host, plan.refused) }
+            continue
+          }
+          const result = await deliver(
+            host,
+            { from: envelope.from, rcpt: recipients },
+            body,
+            dsn,
+            signal,
+            plan,
+          )
+          if (result.data) return { domain, recipients, host, delivery: result.data }
+          outcome = { domain, recipients, host, error: result.error }
+          if (!result.error.retryable || signal?.aborted) break
+        }
+        return outcome
+      }),
+    )
+  }
+
   return {
     name: DRIVER,
     options: opts,
@@ -91,20 +323,26 @@ const smtp: DriverFactory<SmtpDriverOptions> = defineDriver<SmtpDriverOptions>((
       text: true,
       customHeaders: true,
       replyTo: true,
+      amp: true,
+      raw: true,
+      dsn: true,
     },
 
     async dispose() {
-      if (pool) await pool.dispose()
-      pool = null
+      const closing = [...pools.values()]
+      pools.clear()
+      await Promise.all(closing.map((pool) => pool.dispose()))
     },
 
-    async send(msg) {
+    async send(msg, ctx) {
       try {
-        const messageId = msg.headers?.["Message-ID"] ?? generateMessageId(opts.host)
+        const messageId = headerMessageId(msg) ?? generateMessageId(opts.host ?? localName)
+        const dkimConfig = typeof opts.dkim === "function" ? opts.dkim(msg) : opts.dkim
+        const sign = async (raw: string) => (dkimConfig ? signDkim(raw, dkimConfig) : raw)
         let envelope: { from: string; rcpt: string[] }
-        let rawBody: string
+        let body: MessageBody
         if (msg.raw) {
-          rawBody = typeof msg.raw === "string" ? msg.raw : new TextDecoder().decode(msg.raw)
+          const rawBody = typeof msg.raw === "string" ? msg.raw : new TextDecoder().decode(msg.raw)
           envelope = {
             from: normalizeMimeInput(msg, messageId).from.email,
             rcpt: Array.from(
@@ -115,35 +353,69 @@ const smtp: DriverFactory<SmtpDriverOptions> = defineDriver<SmtpDriverOptions>((
               ]),
             ),
           }
+          if (envelope.rcpt.length === 0)
+            throw createError(DRIVER, "INVALID_OPTIONS", "at least one recipient is required")
+          const signed = await sign(rawBody)
+          body = async () => signed
         } else {
-          const mime = buildMime(normalizeMimeInput(msg, messageId))
-          envelope = mime.envelope
-          rawBody = mime.body
+          const composed = await composeMessage(msg, messageId, opts)
+          envelope = composed.envelope
+          if (envelope.rcpt.length === 0)
+            throw createError(DRIVER, "INVALID_OPTIONS", "at least one recipient is required")
+          // The 7-bit rendering goes anywhere; servers advertising
+          // 8BITMIME get the 8-bit one, rendered (and signed) on first use.
+          const sevenBit = await sign(composed.sevenBit)
+          let eightBit: Promise<string> | undefined
+          const render = composed.eightBit
+          body = async (eightBitMime) =>
+            eightBitMime && render ? (eightBit ??= render().then(sign)) : sevenBit
         }
-        if (envelope.rcpt.length === 0)
-          throw createError(DRIVER, "INVALID_OPTIONS", "at least one recipient is required")
-        const dkimConfig = typeof opts.dkim === "function" ? opts.dkim(msg) : opts.dkim
-        const body = dkimConfig ? await signDkim(rawBody, dkimConfig) : rawBody
-        const conn = await getPool().acquire()
-        let failed = false
-        try {
-          await conn.sendMessage(envelope, body)
-          const result: EmailResult = {
-            id: messageId,
-            driver: DRIVER,
-            at: new Date(),
-            provider: { capabilities: Array.from(conn.capabilities.authMethods) },
+        const dsn = msg.dsn ? dsnParams(msg.dsn, envelope.rcpt) : undefined
+
+        if (directMx) {
+          const domains = await deliverDirect(envelope, body, dsn, ctx.signal)
+          const delivered = domains.filter((outcome) => outcome.delivery)
+          const undelivered = domains.find((outcome) => outcome.error)
+          if (delivered.length === 0) return { data: null, error: undelivered!.error! }
+          const warnings = delivered.flatMap((outcome) => outcome.delivery!.warnings)
+          const provider = {
+            domains,
+            accepted: delivered.flatMap((outcome) => outcome.delivery!.accepted),
+            rejected: delivered.flatMap((outcome) => outcome.delivery!.rejected),
+            ...(warnings.length ? { warnings } : {}),
           }
-          return { data: result, error: null }
-        } catch (err) {
-          failed = true
-          const error = err instanceof EmailError ? err : toEmailError(DRIVER, err)
-          return { data: null, error }
-        } finally {
-          await getPool()
-            .release(conn, failed)
-            .catch(() => {})
+          if (undelivered && !partialDelivery) {
+            const total = domains.length
+            const error = fanOutFailure(
+              DRIVER,
+              delivered.length,
+              total,
+              undelivered.error!,
+              provider,
+            )
+            return { data: null, error }
+          }
+          return {
+            data: { id: messageId, driver: DRIVER, at: new Date(), provider },
+            error: null,
+          }
+        }
+
+        const result = await deliver(connectionOpts.host, envelope, body, dsn, ctx.signal)
+        if (result.error) return result
+        const { capabilities, accepted, rejected, warnings } = result.data
+        const sent: EmailResult = {
+          id: messageId,
+          driver: DRIVER,
+          at: new Date(),
+          provider: {
+            capabilities,
+            accepted,
+            rejected,
+            ...(warnings.length ? { warnings } : {}),
+          },
         }
+        return { data: sent, error: null }
       } catch (err) {
         return { data: null, error: err instanceof EmailError ? err : toEmailError(DRIVER, err) }
       }
@@ -167,6 +439,25 @@ function resolveLocalName(): string {
   }
 }
 
+/** What a TLS policy needs to judge an upgraded socket. */
+function tlsSession(socket: import("node:tls").TLSSocket): TlsSession {
+  const chain: Uint8Array[] = []
+  let cert = socket.getPeerCertificate(true)
+  while (cert?.raw) {
+    chain.push(new Uint8Array(cert.raw))
+    // The root certificate lists itself as its issuer.
+    if (!cert.issuerCertificate || cert.issuerCertificate === cert) break
+    cert = cert.issuerCertificate
+  }
+  const error = socket.authorizationError as unknown
+  return {
+    authorized: socket.authorized,
+    authorizationError:
+      typeof error === "string" ? error : (error as { code?: string } | null)?.code,
+    chain,
+  }
+}
+
 function generateMessageId(host: string): string {
   const rand = Math.random().toString(36).slice(2, 10)
   const ts = Date.now().toString(36)
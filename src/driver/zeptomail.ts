@@ -52,10 +52,11 @@ const zeptomail: DriverFactory<ZeptomailDriverOptions> = defineDriver<ZeptomailD
         return Boolean(options.token)
       },
 
-      async send(msg) {
+      async send(msg, ctx) {
         const payload = buildPayload(msg, options)
         const res = await httpJson({
           fetch: fetchImpl,
+          signal: ctx.signal,
           driver: DRIVER,
           url: `${endpoint}/email`,
           headers: { authorization: options.token },
@@ -1,16 +1,32 @@
 import type {
+  BatchResult,
+  CapabilityIssue,
   EmailDriver,
+  EmailInput,
   EmailMessage,
+  EmailPreview,
   EmailResult,
   IdempotencyStore,
   MaybePromise,
+  MessageDefaults,
   Middleware,
   Result,
   SendContext,
   SendStatus,
 } from "./types.ts"
-import { memoryIdempotencyStore } from "./_idempotency.ts"
-import { createError, toEmailError } from "./errors.ts"
+import { batchFailure, batchResult, mapLimit } from "./_batch.ts"
+import { checkCapabilities } from "./_capabilities.ts"
+import { applyDefaults } from "./_defaults.ts"
+import {
+  createIdempotencyGuard,
+  memoryIdempotencyStore,
+  type IdempotencyGuardOptions,
+} from "./_idempotency.ts"
+import { expandPersonalizations } from "./_personalize.ts"
+import { renderPreview, type PreviewDkim, type RenderPreviewOptions } from "./_preview.ts"
+import { createScheduler } from "./_schedule.ts"
+import type { EmailQueue } from "./queue/index.ts"
+import { abortError, createError, type EmailError, fanOutFailure, toEmailError } from "./errors.ts"
 
 function createUnsupported(driver: string, op: string) {
   return createError(driver, "UNSUPPORTED", `${op}() not supported by "${driver}"`)
@@ -21,10 +37,63 @@ function createUnsupported(driver: string, op: string) {
 export interface CreateEmailOptions {
   driver: EmailDriver
   /** When set, enables idempotency-key deduplication backed by this store.
-   *  Defaults to an in-memory TTL store when `idempotency` is `true`. */
-  idempotency?: boolean | { store?: IdempotencyStore; ttlSeconds?: number }
-  /** Abort signal forwarded to drivers via `SendContext.signal`. */
+   *  Defaults to an in-memory TTL store when `idempotency` is `true`.
+   *  Concurrent sends sharing a key wait for the first one; see
+   *  `IdempotencyGuardOptions` for the lease and wait timings. */
+  idempotency?: boolean | ({ store?: IdempotencyStore } & IdempotencyGuardOptions)
+  /** Abort signal forwarded to drivers via `SendContext.signal`, for
+   *  every send. Combined with the per-call `SendOptions.signal`. */
   signal?: AbortSignal
+  /** Fan-out settings for `msg.personalizations` on drivers without
+   *  native support. `concurrency` bounds the per-recipient sends in
+   *  flight at once. Default: 5. */
+  personalizations?: { concurrency?: number }
+  /** Preflight every send against the mounted driver's `flags` and
+   *  `limits` (see `email.validate()`) and fail with `UNSUPPORTED`
+   *  before anything leaves the process. `true` rejects `unsupported`
+   *  findings; `"degraded"` also rejects features the driver would
+   *  silently drop or the core would emulate. Default: off. */
+  strict?: boolean | "degraded"
+  /** Fields every message inherits unless it sets its own — a default
+   *  `from`, shared headers and tags, … Applied before middleware. */
+  defaults?: MessageDefaults
+  /** Queue that emulates `scheduledAt` on drivers without
+   *  `flags.scheduling`: future sends are enqueued and answered with the
+   *  queue item id, which `cancel()` / `retrieve()` then accept. Drain
+   *  it with `startWorker(email, queue)`, and configure `idempotency`
+   *  too if the queue may redeliver an item. */
+  scheduler?: EmailQueue
+}
+
+/** Per-call options for `email.send()` / `email.sendBatch()`. */
+export interface SendOptions {
+  /** Abort this send. It reaches `fetch` in HTTP drivers, the SMTP pool
+   *  and connection, and `withRetry` backoff; the send then fails with
+   *  `CANCELLED`. */
+  signal?: AbortSignal
+  /** Deadline for the whole send — middleware, retries and the driver
+   *  call. Fails with a retryable `TIMEOUT` once it passes; the message
+   *  may or may not have been accepted. */
+  timeoutMs?: number
+}
+
+/** Options for `email.preview()`. */
+export interface PreviewOptions {
+  /** DKIM signer for the preview. Defaults to the routed driver's own
+   *  `dkim` option (SMTP); `false` skips signing. */
+  dkim?: PreviewDkim
+  /** Render what a server advertising `8BITMIME` would get: non-ASCII
+   *  text unencoded. Default: the 7-bit rendering every server accepts. */
+  eightBitMime?: boolean
+}
+
+/** Per-stream settings accepted by `mount()`. */
+export interface MountOptions {
+  /** Middleware that only runs for sends routed to this stream. Merged
+   *  with the instance-level `use()` stack and sorted by `order`. */
+  middleware?: ReadonlyArray<Middleware>
+  /** Defaults for this stream, layered over `createEmail({ defaults })`. */
+  defaults?: MessageDefaults
 }
 
 /** Public handle returned by `createEmail()`. Mirrors the unstorage-style
@@ -32,18 +101,29 @@ export interface CreateEmailOptions {
 export interface Email {
   readonly driver: EmailDriver
   use: (middleware: Middleware) => Email
-  mount: (stream: string, driver: EmailDriver) => Email
+  mount: (stream: string, driver: EmailDriver, options?: MountOptions) => Email
   unmount: (stream: string, dispose?: boolean) => Promise<void>
   getMount: (stream?: string) => EmailDriver
   getMounts: () => ReadonlyArray<{ stream: string; driver: EmailDriver }>
   isAvailable: (stream?: string) => Promise<boolean>
-  send: (msg: EmailMessage) => Promise<Result<EmailResult>>
-  sendBatch: (msgs: ReadonlyArray<EmailMessage>) => Promise<Result<ReadonlyArray<EmailResult>>>
+  /** Check a message against the flags and limits of the driver it
+   *  would be routed to (`options.stream`, else `msg.stream`). Returns
+   *  every unsupported or degraded feature; empty means a clean send. */
+  validate: (msg: EmailInput, options?: { stream?: string }) => CapabilityIssue[]
+  send: (msg: EmailInput, options?: SendOptions) => Promise<Result<EmailResult>>
+  /** Dry run: run the middleware pipeline and the MIME builder (plus
+   *  DKIM) exactly as `send` would, but return the final message
+   *  instead of handing it to the driver. `afterSend` / `onError` hooks
+   *  don't fire, and `ctx.preview` is set for `beforeSend` / `around`. */
+  preview: (msg: EmailInput, options?: PreviewOptions) => Promise<Result<EmailPreview>>
+  /** Send many messages through the driver's native batch endpoint (or
+   *  one `send` each when it has none). Never short-circuits — every
+   *  input index gets its own success or `EmailError`. */
+  sendBatch: (msgs: ReadonlyArray<EmailInput>, options?: SendOptions) => Promise<BatchResult>
   /** Stream the results of `sendBatch` one at a time — useful for
    *  large (5k+) fan-outs where you don't want every `EmailResult` in
-   *  memory. Unlike `sendBatch` it never short-circuits on the first
-   *  error; each message yields its own Result. */
-  sendBatchStream: (msgs: ReadonlyArray<EmailMessage>) => AsyncIterable<Result<EmailResult>>
+   *  memory. Each message yields its own Result. */
+  sendBatchStream: (msgs: ReadonlyArray<EmailInput>) => AsyncIterable<Result<EmailResult>>
   /** Cancel a scheduled send on the active (or mounted) driver. Routes
    *  to `UNSUPPORTED` when the driver's `flags.cancelable` is unset. */
   cancel: (id: string, options?: { stream?: string }) => Promise<Result<void>>
@@ -62,11 +142,15 @@ export interface Email {
  *  ```
  */
 export function createEmail(options: CreateEmailOptions): Email {
-  const mounts = new Map<string, EmailDriver>()
+  const mounts = new Map<
+    string,
+    { driver: EmailDriver; middleware: Middleware[]; defaults?: MessageDefaults }
+  >()
   const middleware: Middleware[] = []
   let initialized = false
 
   const idempotency = resolveIdempotency(options.idempotency)
+  const scheduler = options.scheduler ? createScheduler(options.scheduler) : null
 
   const api: Email = {
     get driver() {
@@ -78,25 +162,29 @@ export function createEmail(options: CreateEmailOptions): Email {
       return api
     },
 
-    mount(stream, driver) {
-      mounts.set(stream, driver)
+    mount(stream, driver, mountOptions = {}) {
+      mounts.set(stream, {
+        driver,
+        middleware: [...(mountOptions.middleware ?? [])],
+        defaults: mountOptions.defaults,
+      })
       return api
     },
 
     async unmount(stream, dispose = true) {
-      const driver = mounts.get(stream)
-      if (!driver) return
+      const entry = mounts.get(stream)
+      if (!entry) return
       mounts.delete(stream)
-      if (dispose) await driver.dispose?.()
+      if (dispose) await entry.driver.dispose?.()
     },
 
     getMount(stream) {
       if (!stream) return options.driver
-      return mounts.get(stream) ?? options.driver
+      return mounts.get(stream)?.driver ?? options.driver
     },
 
     getMounts() {
-      return Array.from(mounts.entries(), ([stream, driver]) => ({ stream, driver }))
+      return Array.from(mounts.entries(), ([stream, { driver }]) => ({ stream, driver }))
     },
 
     async isAvailable(stream) {
@@ -109,73 +197,146 @@ export function createEmail(options: CreateEmailOptions): Email {
       }
     },
 
-    async send(msg) {
+    validate(input, opts = {}) {
+      const stream = opts.stream ?? input.stream
+      const msg = resolveDefaults(input, stream)
+      return checkCapabilities(msg, api.getMount(stream), {
+        idempotency: Boolean(idempotency),
+        scheduler: Boolean(scheduler),
+      })
+    },
+
+    async send(input, opts = {}) {
       await ensureInitialized()
 
-      if (msg.idempotencyKey && idempotency) {
-        const cached = await idempotency.store.get(msg.idempotencyKey)
-        if (cached) return { data: cached, error: null }
+      let msg = resolveDefaults(input)
+      if (!msg.from) return { data: null, error: missingFrom(msg) }
+
+      if (options.strict) {
+        const rejected = preflight(msg)
+        if (rejected) return { data: null, error: rejected }
+      }
+
+      const signal = sendSignal(opts)
+      if (signal?.aborted) {
+        return { data: null, error: abortError(api.getMount(msg.stream).name, signal.reason) }
+      }
+
+      if (msg.personalizations?.length && !api.getMount(msg.stream).flags?.personalizations) {
+        return sendPersonalized(msg, signal)
       }
 
       const driver = api.getMount(msg.stream)
+      if (scheduler && msg.scheduledAt && !driver.flags?.scheduling) {
+        if (scheduler.isFuture(msg)) return scheduler.schedule(msg, driver.name)
+        // Due (or redelivered) emulated send — the driver can't take it.
+        msg = { ...msg, scheduledAt: undefined }
+      }
+
+      const outgoing = msg
+      const key = outgoing.idempotencyKey
+      scheduler?.begin(outgoing)
+      const result =
+        key && idempotency
+          ? await idempotency(key, driver.name, () => dispatch(outgoing, signal), signal)
+          : await dispatch(outgoing, signal)
+      scheduler?.track(outgoing, result)
+      return result
+    },
+
+    async preview(input, opts = {}) {
+      await ensureInitialized()
+      let msg = resolveDefaults(input)
+      const driver = api.getMount(msg.stream)
+      if (!msg.from) return { data: null, error: missingFrom(msg) }
+
+      if (msg.personalizations?.length) {
+        const previews: EmailPreview[] = []
+        for (const copy of expandPersonalizations(msg)) {
+          const result = await api.preview(copy, opts)
+          if (result.error) return result
+          previews.push(result.data)
+        }
+        return { data: { ...previews[0]!, personalizations: previews }, error: null }
+      }
+
+      const stack = pipeline(msg.stream)
       const ctx: SendContext = {
         driver: driver.name,
         stream: msg.stream,
         attempt: 1,
         signal: options.signal,
         meta: {},
+        preview: true,
       }
 
       try {
         msg = applyUnsubscribeHeaders(msg)
-        msg = fanOutPersonalizations(msg, driver)
-        await runHook("beforeSend", (mw) => mw.beforeSend?.(msg, ctx))
-
-        let result = await driver.send(msg, ctx)
-
-        if (result.error) {
-          const recovered = await tryRecover(msg, ctx, result.error)
-          if (recovered) result = recovered
-        }
-
-        if (result.data && msg.idempotencyKey && idempotency) {
-          await idempotency.store.set(msg.idempotencyKey, result.data, idempotency.ttlSeconds)
+        for (const mw of stack) await mw.beforeSend?.(msg, ctx)
+
+        let final: EmailMessage | undefined
+        const result = await runAround(
+          stack,
+          async (next) => {
+            final = next
+            return { data: { id: "preview", driver: driver.name, at: new Date() }, error: null }
+          },
+          msg,
+          ctx,
+        )
+        if (result.error) return result
+        if (!final) {
+          return {
+            data: null,
+            error: createError(
+              driver.name,
+              "CANCELLED",
+              "middleware answered without reaching the driver; nothing to preview",
+            ),
+          }
         }
 
-        await runHook("afterSend", (mw) => mw.afterSend?.(msg, ctx, result))
-        return result
+        // The routed driver's own wrapping and signing (SMTP) apply.
+        const own = (driver.options ?? {}) as RenderPreviewOptions
+        const rendered = await renderPreview(final, {
+          smime: own.smime,
+          pgp: own.pgp,
+          dkim: opts.dkim ?? own.dkim,
+          eightBitMime: opts.eightBitMime,
+        })
+        return { data: rendered, error: null }
       } catch (error) {
-        const emailError = toEmailError(driver.name, error)
-        const recovered = await tryRecover(msg, ctx, emailError)
-        if (recovered) return recovered
-        return { data: null, error: emailError }
+        return { data: null, error: toEmailError(driver.name, error) }
       }
     },
 
-    async sendBatch(msgs) {
+    async sendBatch(inputs, opts = {}) {
       await ensureInitialized()
-      if (msgs.length === 0) return { data: [], error: null }
-      const driver = api.getMount(msgs[0]!.stream)
-      const ctx: SendContext = {
-        driver: driver.name,
-        stream: msgs[0]!.stream,
-        attempt: 1,
-        signal: options.signal,
-        meta: {},
-      }
-      if (driver.sendBatch) return Promise.resolve(driver.sendBatch(msgs, ctx)).then(resultOrError)
-      // Fallback — sequential sends honoring individual idempotency keys.
-      const results: EmailResult[] = []
-      for (const msg of msgs) {
-        const res = await api.send(msg)
-        if (res.error) return res as Result<ReadonlyArray<EmailResult>>
-        results.push(res.data)
+      const msgs = inputs.map((input) => resolveDefaults(input))
+      const signal = sendSignal(opts)
+      // A batch may span streams — each stream's messages go to its own
+      // driver, and the results are put back in input order.
+      const streams = new Map<string | undefined, number[]>()
+      msgs.forEach((msg, index) => {
+        const indexes = streams.get(msg.stream)
+        if (indexes) indexes.push(index)
+        else streams.set(msg.stream, [index])
+      })
+      const results: Result<EmailResult>[] = []
+      for (const [stream, indexes] of streams) {
+        const group = await sendGroup(
+          stream,
+          indexes.map((index) => msgs[index]!),
+          signal,
+        )
+        indexes.forEach((index, i) => (results[index] = group.results[i]!))
       }
-      return { data: results, error: null }
+      return batchResult("batch", results)
     },
 
     async cancel(id, opts = {}) {
       const driver = api.getMount(opts.stream)
+      if (scheduler && (await scheduler.owns(id))) return scheduler.cancel(id, driver.name)
       if (!driver.cancel) {
         return {
           data: null,
@@ -187,6 +348,7 @@ export function createEmail(options: CreateEmailOptions): Email {
 
     async retrieve(id, opts = {}) {
       const driver = api.getMount(opts.stream)
+      if (scheduler && (await scheduler.owns(id))) return scheduler.retrieve(id, driver.name)
       if (!driver.retrieve) {
         return {
           data: null,
@@ -208,31 +370,182 @@ export function createEmail(options: CreateEmailOptions): Email {
 
     async dispose() {
       await options.driver.dispose?.()
-      for (const driver of mounts.values()) await driver.dispose?.()
+      for (const { driver } of mounts.values()) await driver.dispose?.()
       mounts.clear()
     },
   }
 
+  /** One stream's share of a `sendBatch`: the driver's own batch
+   *  endpoint when it has one — in requests of at most
+   *  `limits.maxBatchSize`, after the per-message checks `send` makes —
+   *  else a `send` per message. */
+  async function sendGroup(
+    stream: string | undefined,
+    msgs: EmailMessage[],
+    signal: AbortSignal | undefined,
+  ): Promise<BatchResult> {
+    const driver = api.getMount(stream)
+    if (driver.sendBatch) {
+      const results: Array<Result<EmailResult> | undefined> = []
+      const ready: number[] = []
+      msgs.forEach((msg, index) => {
+        const rejected = !msg.from ? missingFrom(msg) : options.strict ? preflight(msg) : null
+        if (rejected) results[index] = { data: null, error: rejected }
+        else ready.push(index)
+      })
+      const size = Math.max(1, driver.limits?.maxBatchSize ?? ready.length)
+      for (let start = 0; start < ready.length; start += size) {
+        const chunk = ready.slice(start, start + size)
+        const ctx: SendContext = { driver: driver.name, stream, attempt: 1, signal, meta: {} }
+        let batch: BatchResult
+        try {
+          batch = await driver.sendBatch(
+            chunk.map((index) => msgs[index]!),
+            ctx,
+          )
+        } catch (error) {
+          batch = batchFailure(chunk.length, abortedOr(driver.name, error, signal))
+        }
+        chunk.forEach((index, i) => (results[index] = batch.results[i]))
+      }
+      return batchResult(driver.name, results, msgs.length)
+    }
+    // Fallback — sequential sends through the full `send` pipeline.
+    const results: Result<EmailResult>[] = []
+    for (const msg of msgs) results.push(await api.send(msg, { signal }))
+    return batchResult(driver.name, results)
+  }
+
+  /** Layer instance and stream defaults under the message. `from` may
+   *  still be missing afterwards — callers check before sending. */
+  function resolveDefaults(input: EmailInput, stream = input.stream): EmailMessage {
+    return applyDefaults(
+      input,
+      options.defaults,
+      stream ? mounts.get(stream)?.defaults : undefined,
+    ) as EmailMessage
+  }
+
+  function missingFrom(msg: EmailMessage) {
+    return createError(
+      api.getMount(msg.stream).name,
+      "INVALID_OPTIONS",
+      "`from` is required — set it on the message or in `defaults`",
+    )
+  }
+
+  /** The instance signal, the caller's and a `timeoutMs` deadline
+   *  folded into the one signal a send runs under. */
+  function sendSignal(opts: SendOptions): AbortSignal | undefined {
+    const signals = [
+      options.signal,
+      opts.signal,
+      opts.timeoutMs === undefined ? undefined : AbortSignal.timeout(opts.timeoutMs),
+    ].filter((signal): signal is AbortSignal => Boolean(signal))
+    return signals.length > 1 ? AbortSignal.any(signals) : signals[0]
+  }
+
   async function ensureInitialized() {
     if (initialized) return
     initialized = true
     await options.driver.initialize?.()
-    for (const driver of mounts.values()) await driver.initialize?.()
+    for (const { driver } of mounts.values()) await driver.initialize?.()
   }
 
-  async function runHook<K extends keyof Middleware>(
-    _kind: K,
-    apply: (mw: Middleware) => MaybePromise<unknown>,
-  ) {
-    for (const mw of middleware) await apply(mw)
+  /** The send pipeline proper: `beforeSend`, the `around` onion over
+   *  `driver.send`, `onError` recovery and `afterSend`. Never throws. */
+  async function dispatch(msg: EmailMessage, signal?: AbortSignal): Promise<Result<EmailResult>> {
+    const driver = api.getMount(msg.stream)
+    const stack = pipeline(msg.stream)
+    const ctx: SendContext = {
+      driver: driver.name,
+      stream: msg.stream,
+      attempt: 1,
+      signal,
+      meta: {},
+    }
+
+    try {
+      msg = applyUnsubscribeHeaders(msg)
+      for (const mw of stack) await mw.beforeSend?.(msg, ctx)
+
+      let result = await runAround(stack, (next) => driver.send(next, ctx), msg, ctx)
+      if (result.error && signal?.aborted) {
+        result = { data: null, error: abortedOr(driver.name, result.error, signal) }
+      }
+
+      if (result.error) {
+        const recovered = await tryRecover(stack, msg, ctx, result.error)
+        if (recovered) result = recovered
+      }
+
+      for (const mw of stack) await mw.afterSend?.(msg, ctx, result)
+      return result
+    } catch (error) {
+      const emailError = abortedOr(driver.name, error, signal)
+      const recovered = await tryRecover(stack, msg, ctx, emailError)
+      if (recovered) return recovered
+      return { data: null, error: emailError }
+    }
+  }
+
+  /** Strict-mode gate — turn blocking capability issues into a single
+   *  `UNSUPPORTED` error carrying the full list as `cause`. */
+  function preflight(msg: EmailMessage) {
+    const blocking = api
+      .validate(msg)
+      .filter((issue) => issue.severity === "unsupported" || options.strict === "degraded")
+    if (blocking.length === 0) return null
+    const driver = api.getMount(msg.stream)
+    return createError(
+      driver.name,
+      "UNSUPPORTED",
+      `preflight failed: ${blocking.map((issue) => issue.feature).join(", ")}`,
+      { retryable: false, cause: blocking },
+    )
+  }
+
+  /** Send one copy per personalization through the full pipeline and
+   *  fold the outcomes into a single result. When any copy failed the
+   *  error's `cause` is the `BatchResult`, so callers can tell which
+   *  recipients got theirs. */
+  async function sendPersonalized(
+    msg: EmailMessage,
+    signal: AbortSignal | undefined,
+  ): Promise<Result<EmailResult>> {
+    const driver = api.getMount(msg.stream)
+    const copies = expandPersonalizations(msg)
+    const concurrency = options.personalizations?.concurrency ?? 5
+    const results = await mapLimit(copies, concurrency, (copy) => api.send(copy, { signal }))
+    const batch = batchResult(driver.name, results)
+    const first = batch.sent[0]
+    const failure = batch.failed[0]
+    if (failure) {
+      return {
+        data: null,
+        error: fanOutFailure(driver.name, batch.sent.length, copies.length, failure.error, batch),
+      }
+    }
+    return { data: { ...first!.data, personalizations: batch }, error: null }
+  }
+
+  /** Instance middleware followed by the stream's own, stably sorted by
+   *  `order` so equal priorities keep registration order. */
+  function pipeline(stream?: string): Middleware[] {
+    const scoped = stream ? (mounts.get(stream)?.middleware ?? []) : []
+    return [...middleware, ...scoped]
+      .map((mw, index) => ({ mw, index }))
+      .sort((a, b) => (a.mw.order ?? 0) - (b.mw.order ?? 0) || a.index - b.index)
+      .map(({ mw }) => mw)
   }
 
   async function tryRecover(
+    stack: ReadonlyArray<Middleware>,
     msg: EmailMessage,
     ctx: SendContext,
     error: Parameters<Required<Middleware>["onError"]>[2],
   ) {
-    for (const mw of middleware) {
+    for (const mw of stack) {
       const recovered = await mw.onError?.(msg, ctx, error)
       if (recovered) return recovered
     }
@@ -242,23 +555,32 @@ export function createEmail(options: CreateEmailOptions): Email {
   return api
 }
 
-function fanOutPersonalizations(msg: EmailMessage, driver: EmailDriver): EmailMessage {
-  // Drivers with native personalization support get the array as-is.
-  if (driver.flags?.personalizations) return msg
-  if (!msg.personalizations?.length) return msg
-  // For drivers without native support, collapse into msg-level `to`
-  // so at least the first personalization reaches the provider. Users
-  // who need per-recipient personalization on a non-supporting driver
-  // should loop `email.send` themselves.
-  const first = msg.personalizations[0]!
-  const { personalizations: _omit, ...rest } = msg
-  return {
-    ...rest,
-    to: first.to,
-    cc: first.cc ?? rest.cc,
-    bcc: first.bcc ?? rest.bcc,
-    subject: first.subject ?? rest.subject,
+/** Once the send's signal has fired, report the abort rather than
+ *  whatever the driver made of its torn-down request. */
+function abortedOr(driver: string, error: unknown, signal: AbortSignal | undefined): EmailError {
+  const emailError = toEmailError(driver, error)
+  if (!signal?.aborted || emailError.code === "CANCELLED" || emailError.code === "TIMEOUT") {
+    return emailError
+  }
+  return abortError(driver, signal.reason)
+}
+
+/** Compose every `around` hook into an onion around `terminal` (the
+ *  driver's `send`, or the preview capture) — the first middleware in
+ *  the stack is the outermost layer. */
+function runAround(
+  stack: ReadonlyArray<Middleware>,
+  terminal: (msg: EmailMessage) => MaybePromise<Result<EmailResult>>,
+  msg: EmailMessage,
+  ctx: SendContext,
+): Promise<Result<EmailResult>> {
+  const layers = stack.filter((mw) => mw.around)
+  const dispatch = async (index: number, current: EmailMessage): Promise<Result<EmailResult>> => {
+    const layer = layers[index]
+    if (!layer) return terminal(current)
+    return layer.around!(current, ctx, (next = current) => dispatch(index + 1, next))
   }
+  return dispatch(0, msg)
 }
 
 function applyUnsubscribeHeaders(msg: EmailMessage): EmailMessage {
@@ -288,14 +610,9 @@ function hasHeader(headers: Record<string, string>, name: string): boolean {
   return false
 }
 
-function resolveIdempotency(
-  input: CreateEmailOptions["idempotency"],
-): { store: IdempotencyStore; ttlSeconds?: number } | null {
+function resolveIdempotency(input: CreateEmailOptions["idempotency"]) {
   if (!input) return null
-  if (input === true) return { store: memoryIdempotencyStore() }
-  return { store: input.store ?? memoryIdempotencyStore(), ttlSeconds: input.ttlSeconds }
-}
-
-function resultOrError<T>(r: Result<T>): Result<T> {
-  return r
+  if (input === true) return createIdempotencyGuard(memoryIdempotencyStore())
+  const { store = memoryIdempotencyStore(), ...guard } = input
+  return createIdempotencyGuard(store, guard)
 }
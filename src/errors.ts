@@ -25,13 +25,61 @@ export function createRequiredError(driver: string, name: string | readonly stri
   return createError(driver, "INVALID_OPTIONS", `Missing required option(s): ${names}`)
 }
 
+/** A fan-out (personalizations, a split `route` send, direct-to-MX
+ *  domains) that failed for some parts or all of them; `cause` says
+ *  which parts went out. With some delivered it is a non-retryable
+ *  `PROVIDER` error — a retry would repeat the delivered parts. With
+ *  none delivered it keeps the first failure's code, status and
+ *  `retryable`. */
+export function fanOutFailure(
+  driver: string,
+  delivered: number,
+  total: number,
+  first: EmailError,
+  cause: unknown,
+): EmailError {
+  const detail = first.message.replace(/^\[unemail\] \[[^\]]*\] /, "")
+  const summary = delivered ? "partially delivered" : "not delivered"
+  return createError(
+    driver,
+    delivered ? "PROVIDER" : first.code,
+    `${summary} (${delivered} of ${total}); first failure: ${first.code} ${detail}`,
+    { status: first.status, retryable: delivered ? false : first.retryable, cause },
+  )
+}
+
 /** Normalize any thrown value into a typed `EmailError`. Preserves an
  *  existing `EmailError` unchanged so retry/status info survives. */
 export function toEmailError(driver: string, error: unknown): EmailError {
   if (error instanceof EmailError) return error
+  if (isAbortReason(error)) return abortError(driver, error)
   if (error instanceof Error)
     return createError(driver, "PROVIDER", error.message, { cause: error })
   return createError(driver, "PROVIDER", String(error), { cause: error })
 }
 
+/** Surface an aborted send. `reason` is the signal's `reason` (or what
+ *  `fetch` rejected with): `AbortSignal.timeout()` deadlines — including
+ *  `send(msg, { timeoutMs })` — map to a retryable `TIMEOUT`, anything
+ *  else to `CANCELLED`. */
+export function abortError(driver: string, reason: unknown): EmailError {
+  if (reason instanceof EmailError) return reason
+  const timedOut = (reason as { name?: unknown } | null)?.name === "TimeoutError"
+  const message =
+    reason == null
+      ? "aborted"
+      : typeof (reason as { message?: unknown }).message === "string"
+        ? (reason as { message: string }).message
+        : String(reason)
+  return createError(driver, timedOut ? "TIMEOUT" : "CANCELLED", message, {
+    retryable: timedOut,
+    cause: reason,
+  })
+}
+
+function isAbortReason(error: unknown): boolean {
+  const name = (error as { name?: unknown } | null)?.name
+  return typeof error === "object" && (name === "AbortError" || name === "TimeoutError")
+}
+
 export { EmailError }
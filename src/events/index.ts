@@ -116,6 +116,7 @@ export function eventsMiddleware(bus: EventBus): Middleware {
   return {
     name: "events",
     beforeSend(msg, ctx) {
+      if (ctx.preview) return
       bus.emit({
         type: "send.queued",
         provider: ctx.driver,
@@ -8,11 +8,23 @@
  *
  * @module
  */
-export { createEmail, type CreateEmailOptions, type Email } from "./email.ts"
+export {
+  createEmail,
+  type CreateEmailOptions,
+  type Email,
+  type MountOptions,
+  type PreviewOptions,
+  type SendOptions,
+} from "./email.ts"
 export { defineDriver } from "./_define.ts"
-export { memoryIdempotencyStore } from "./_idempotency.ts"
+export {
+  type IdempotencyGuardOptions,
+  memoryIdempotencyStore,
+  unstorageIdempotencyStore,
+  type UnstorageIdempotencyOptions,
+} from "./_idempotency.ts"
 export { formatAddress, isValidEmail, normalizeAddresses, parseAddress } from "./_normalize.ts"
-export { createError, createRequiredError, EmailError, toEmailError } from "./errors.ts"
+export { abortError, createError, createRequiredError, EmailError, toEmailError } from "./errors.ts"
 export {
   type CircuitBreakerOptions,
   type CircuitState,
@@ -39,20 +51,30 @@ export {
 } from "./render/index.ts"
 export type {
   Attachment,
+  BatchResult,
+  CapabilityIssue,
   DriverFactory,
   DriverFlags,
+  DriverLimits,
   EmailAddress,
   EmailAddressInput,
   EmailDriver,
   EmailErrorCode,
+  EmailInput,
   EmailMessage,
+  EmailPreview,
   EmailResult,
   EmailTag,
+  IdempotencyLease,
   IdempotencyStore,
   MaybePromise,
+  MessageDefaults,
   Middleware,
+  MimePart,
+  RecipientOutcome,
   Result,
   SendContext,
+  SendNext,
 } from "./types.ts"
 
 /** Library version string — bumped automatically on release. */
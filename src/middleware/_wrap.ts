@@ -0,0 +1,18 @@
+import type { EmailDriver, Middleware } from "../types.ts"
+
+type Around = NonNullable<Middleware["around"]>
+
+/** Adapt an `around` hook into a driver wrapper, so the driver form
+ *  (`withRetry(driver)`) and the middleware form (`email.use(withRetry())`)
+ *  share a single implementation. */
+export function wrapDriver(driver: EmailDriver, around: Around): EmailDriver {
+  return {
+    ...driver,
+    send: (msg, ctx) => around(msg, ctx, async (next = msg) => driver.send(next, ctx)),
+  }
+}
+
+/** Tell the two call shapes apart — drivers always carry `send`. */
+export function isDriver(value: unknown): value is EmailDriver {
+  return Boolean(value) && typeof (value as EmailDriver).send === "function"
+}
@@ -1,5 +1,6 @@
-import type { EmailDriver } from "../types.ts"
+import type { EmailDriver, Middleware } from "../types.ts"
 import { createError } from "../errors.ts"
+import { isDriver, wrapDriver } from "./_wrap.ts"
 
 /** Circuit-breaker states:
  *   - `closed` — requests pass through
@@ -20,11 +21,22 @@ export interface CircuitBreakerOptions {
 
 /** Wrap a driver in a circuit breaker. Prevents cascading failures when a
  *  provider is down by short-circuiting after `threshold` consecutive
- *  errors. */
+ *  errors. Called with options only, returns the same breaker as
+ *  middleware. */
 export function withCircuitBreaker(
   driver: EmailDriver,
-  options: CircuitBreakerOptions = {},
-): EmailDriver {
+  options?: CircuitBreakerOptions,
+): EmailDriver
+export function withCircuitBreaker(options?: CircuitBreakerOptions): Middleware
+export function withCircuitBreaker(
+  driverOrOptions?: EmailDriver | CircuitBreakerOptions,
+  maybeOptions?: CircuitBreakerOptions,
+): EmailDriver | Middleware {
+  if (isDriver(driverOrOptions)) return wrapDriver(driverOrOptions, breakerAround(maybeOptions))
+  return { name: "circuit-breaker", around: breakerAround(driverOrOptions) }
+}
+
+function breakerAround(options: CircuitBreakerOptions = {}): NonNullable<Middleware["around"]> {
   const threshold = options.threshold ?? 5
   const cooldownMs = options.cooldownMs ?? 30_000
   const now = options.now ?? Date.now
@@ -39,33 +51,31 @@ export function withCircuitBreaker(
     options.onStateChange?.(next)
   }
 
-  return {
-    ...driver,
-    async send(msg, ctx) {
-      if (state === "open") {
-        if (now() - openedAt >= cooldownMs) transition("half-open")
-        else {
-          return {
-            data: null,
-            error: createError(driver.name, "CANCELLED", "circuit breaker open", {
-              retryable: false,
-            }),
-          }
+  return async (msg, ctx, next) => {
+    if (ctx.preview) return next(msg)
+    if (state === "open") {
+      if (now() - openedAt >= cooldownMs) transition("half-open")
+      else {
+        return {
+          data: null,
+          error: createError(ctx.driver, "CANCELLED", "circuit breaker open", {
+            retryable: false,
+          }),
         }
       }
+    }
 
-      const result = await driver.send(msg, ctx)
-      if (result.error) {
-        failures++
-        if (state === "half-open" || failures >= threshold) {
-          openedAt = now()
-          transition("open")
-        }
-      } else {
-        failures = 0
-        transition("closed")
+    const result = await next(msg)
+    if (result.error) {
+      failures++
+      if (state === "half-open" || failures >= threshold) {
+        openedAt = now()
+        transition("open")
       }
-      return result
-    },
+    } else {
+      failures = 0
+      transition("closed")
+    }
+    return result
   }
 }
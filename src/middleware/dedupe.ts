@@ -1,6 +1,13 @@
-import type { EmailDriver, EmailMessage, EmailResult, IdempotencyStore } from "../types.ts"
-import { memoryIdempotencyStore } from "../_idempotency.ts"
+import type {
+  EmailDriver,
+  EmailMessage,
+  EmailResult,
+  IdempotencyStore,
+  Middleware,
+} from "../types.ts"
+import { createIdempotencyGuard, memoryIdempotencyStore } from "../_idempotency.ts"
 import { normalizeAddresses } from "../_normalize.ts"
+import { isDriver, wrapDriver } from "./_wrap.ts"
 
 /** Strategy for computing the dedupe key.
  *  - `"idempotencyKey"` — use `msg.idempotencyKey` only.
@@ -15,26 +22,41 @@ export interface DedupeOptions {
   ttlSeconds?: number
   /** Custom key resolver. Overrides `strategy`. */
   keyFn?: (msg: EmailMessage) => string | null
+  /** How long the first sender of a key owns it while concurrent
+   *  duplicates wait. Default: 60. */
+  leaseSeconds?: number
+  /** How long a duplicate waits on a send in flight elsewhere before
+   *  giving up with a retryable `TIMEOUT`. Default: the lease length. */
+  waitMs?: number
 }
 
-/** Wrap a driver so repeated sends within `ttlSeconds` return the
- *  cached success instead of hitting the provider again. */
-export function withDedupe(driver: EmailDriver, options: DedupeOptions = {}): EmailDriver {
+/** Make repeated sends within `ttlSeconds` return the cached success
+ *  instead of hitting the provider again — as a driver wrapper, or as
+ *  middleware when called with options only. */
+export function withDedupe(driver: EmailDriver, options?: DedupeOptions): EmailDriver
+export function withDedupe(options?: DedupeOptions): Middleware
+export function withDedupe(
+  driverOrOptions?: EmailDriver | DedupeOptions,
+  maybeOptions?: DedupeOptions,
+): EmailDriver | Middleware {
+  if (isDriver(driverOrOptions)) return wrapDriver(driverOrOptions, dedupeAround(maybeOptions))
+  return { name: "dedupe", around: dedupeAround(driverOrOptions) }
+}
+
+function dedupeAround(options: DedupeOptions = {}): NonNullable<Middleware["around"]> {
   const store = options.store ?? memoryIdempotencyStore()
   const strategy = options.strategy ?? "idempotencyKey"
   const ttl = options.ttlSeconds ?? 300
   const keyFn = options.keyFn ?? defaultKeyFn(strategy)
-  return {
-    ...driver,
-    async send(msg, ctx) {
-      const key = keyFn(msg)
-      if (!key) return driver.send(msg, ctx)
-      const cached = await store.get(key)
-      if (cached) return { data: cached, error: null }
-      const result = await driver.send(msg, ctx)
-      if (result.data) await store.set(key, result.data, ttl)
-      return result
-    },
+  const guard = createIdempotencyGuard(store, {
+    ttlSeconds: ttl,
+    leaseSeconds: options.leaseSeconds,
+    waitMs: options.waitMs,
+  })
+  return async (msg, ctx, next) => {
+    const key = keyFn(msg)
+    if (!key || ctx.preview) return next(msg)
+    return guard(key, ctx.driver, () => next(msg), ctx.signal)
   }
 }
 
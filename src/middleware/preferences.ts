@@ -1,7 +1,8 @@
-import type { EmailDriver, EmailMessage } from "../types.ts"
+import type { EmailDriver, EmailMessage, Middleware } from "../types.ts"
 import type { PreferenceStore } from "../preferences/index.ts"
 import { createError } from "../errors.ts"
 import { normalizeAddresses } from "../_normalize.ts"
+import { isDriver, wrapDriver } from "./_wrap.ts"
 
 export interface PreferencesMiddlewareOptions {
   store: PreferenceStore
@@ -15,43 +16,54 @@ export interface PreferencesMiddlewareOptions {
 }
 
 /** Check the preference store before `driver.send`. Recipients who
- *  opted out of the resolved category are removed. */
+ *  opted out of the resolved category are removed. Pass a driver to wrap
+ *  it, or options only to get middleware for `email.use()` / `mount()`. */
 export function withPreferences(
   driver: EmailDriver,
   options: PreferencesMiddlewareOptions,
-): EmailDriver {
+): EmailDriver
+export function withPreferences(options: PreferencesMiddlewareOptions): Middleware
+export function withPreferences(
+  driverOrOptions: EmailDriver | PreferencesMiddlewareOptions,
+  maybeOptions?: PreferencesMiddlewareOptions,
+): EmailDriver | Middleware {
+  if (isDriver(driverOrOptions))
+    return wrapDriver(driverOrOptions, preferencesAround(maybeOptions!))
+  return { name: "preferences", around: preferencesAround(driverOrOptions) }
+}
+
+function preferencesAround(
+  options: PreferencesMiddlewareOptions,
+): NonNullable<Middleware["around"]> {
   const resolveCategory = options.categoryFor ?? defaultCategoryFor
-  return {
-    ...driver,
-    async send(msg, ctx) {
-      const category = resolveCategory(msg)
-      if (!category) return driver.send(msg, ctx)
-      const recipients = [
-        ...normalizeAddresses(msg.to),
-        ...normalizeAddresses(msg.cc),
-        ...normalizeAddresses(msg.bcc),
-      ]
-      const allowed = new Set<string>()
-      const blocked: string[] = []
-      for (const r of recipients) {
-        const ok = await options.store.allows(r.email, category)
-        if (ok) allowed.add(r.email.toLowerCase())
-        else blocked.push(r.email)
-      }
-      if (blocked.length === 0) return driver.send(msg, ctx)
-      if (options.strict || allowed.size === 0) {
-        return {
-          data: null,
-          error: createError(
-            driver.name,
-            "PROVIDER",
-            `opted out of category "${category}": ${blocked.join(", ")}`,
-            { retryable: false },
-          ),
-        }
+  return async (msg, ctx, next) => {
+    const category = resolveCategory(msg)
+    if (!category) return next(msg)
+    const recipients = [
+      ...normalizeAddresses(msg.to),
+      ...normalizeAddresses(msg.cc),
+      ...normalizeAddresses(msg.bcc),
+    ]
+    const allowed = new Set<string>()
+    const blocked: string[] = []
+    for (const r of recipients) {
+      const ok = await options.store.allows(r.email, category)
+      if (ok) allowed.add(r.email.toLowerCase())
+      else blocked.push(r.email)
+    }
+    if (blocked.length === 0) return next(msg)
+    if (options.strict || allowed.size === 0) {
+      return {
+        data: null,
+        error: createError(
+          ctx.driver,
+          "PROVIDER",
+          `opted out of category "${category}": ${blocked.join(", ")}`,
+          { retryable: false },
+        ),
       }
-      return driver.send(keep(msg, allowed), ctx)
-    },
+    }
+    return next(keep(msg, allowed))
   }
 }
 
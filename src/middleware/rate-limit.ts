@@ -1,5 +1,6 @@
-import type { EmailDriver } from "../types.ts"
+import type { EmailDriver, Middleware } from "../types.ts"
 import { createError } from "../errors.ts"
+import { isDriver, wrapDriver } from "./_wrap.ts"
 
 /** Sliding-window rate limiter — queues calls until they fit in the
  *  per-second budget. Intentionally simple: single-process only, no
@@ -31,8 +32,20 @@ export const rateLimitPresets = {
   brevo: (): RateLimitOptions => ({ perSecond: 5, respectRetryAfter: true }),
 }
 
-/** Wrap a driver so `send()` respects a rate limit. */
-export function withRateLimit(driver: EmailDriver, options: RateLimitOptions): EmailDriver {
+/** Make `send()` respect a rate limit — as a driver wrapper, or as
+ *  middleware when called with options only (one budget per call, so a
+ *  stream-scoped limiter only counts that stream's sends). */
+export function withRateLimit(driver: EmailDriver, options: RateLimitOptions): EmailDriver
+export function withRateLimit(options: RateLimitOptions): Middleware
+export function withRateLimit(
+  driverOrOptions: EmailDriver | RateLimitOptions,
+  maybeOptions?: RateLimitOptions,
+): EmailDriver | Middleware {
+  if (isDriver(driverOrOptions)) return wrapDriver(driverOrOptions, rateLimitAround(maybeOptions!))
+  return { name: "rate-limit", around: rateLimitAround(driverOrOptions) }
+}
+
+function rateLimitAround(options: RateLimitOptions): NonNullable<Middleware["around"]> {
   const perSecond = options.perSecond ?? 10
   const windowMs = options.windowMs ?? 1000
   const maxQueue = options.maxQueue ?? 1000
@@ -44,45 +57,43 @@ export function withRateLimit(driver: EmailDriver, options: RateLimitOptions): E
   let queued = 0
   let blockedUntil = 0
 
-  return {
-    ...driver,
-    async send(msg, ctx) {
-      if (queued >= maxQueue) {
-        return {
-          data: null,
-          error: createError(driver.name, "RATE_LIMIT", "rate-limit queue full", {
-            status: 429,
-            retryable: true,
-          }),
-        }
+  return async (msg, ctx, next) => {
+    if (ctx.preview) return next(msg)
+    if (queued >= maxQueue) {
+      return {
+        data: null,
+        error: createError(ctx.driver, "RATE_LIMIT", "rate-limit queue full", {
+          status: 429,
+          retryable: true,
+        }),
       }
-      queued++
-      try {
-        while (true) {
-          const ts = now()
-          if (ts < blockedUntil) {
-            await sleep(blockedUntil - ts)
-            continue
-          }
-          const cutoff = ts - windowMs
-          while (timestamps.length && timestamps[0]! <= cutoff) timestamps.shift()
-          if (timestamps.length < perSecond) {
-            timestamps.push(ts)
-            break
-          }
-          const wait = timestamps[0]! + windowMs - ts
-          await sleep(Math.max(wait, 1))
+    }
+    queued++
+    try {
+      while (true) {
+        const ts = now()
+        if (ts < blockedUntil) {
+          await sleep(blockedUntil - ts)
+          continue
         }
-        const result = await driver.send(msg, ctx)
-        if (respectRetryAfter && result.error?.status === 429) {
-          const after = extractRetryAfter(result.error.cause)
-          if (after != null) blockedUntil = now() + after * 1000
+        const cutoff = ts - windowMs
+        while (timestamps.length && timestamps[0]! <= cutoff) timestamps.shift()
+        if (timestamps.length < perSecond) {
+          timestamps.push(ts)
+          break
         }
-        return result
-      } finally {
-        queued--
+        const wait = timestamps[0]! + windowMs - ts
+        await sleep(Math.max(wait, 1))
+      }
+      const result = await next(msg)
+      if (respectRetryAfter && result.error?.status === 429) {
+        const after = extractRetryAfter(result.error.cause)
+        if (after != null) blockedUntil = now() + after * 1000
       }
-    },
+      return result
+    } finally {
+      queued--
+    }
   }
 }
 
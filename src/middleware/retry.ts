@@ -1,5 +1,6 @@
-import type { EmailDriver, EmailResult, Result } from "../types.ts"
-import { toEmailError } from "../errors.ts"
+import type { EmailDriver, EmailResult, Middleware, Result } from "../types.ts"
+import { abortError, toEmailError } from "../errors.ts"
+import { isDriver, wrapDriver } from "./_wrap.ts"
 
 /** Backoff strategies.
  *  - `exponential` — `initialDelay * 2^attempt` (default).
@@ -39,14 +40,26 @@ export interface RetryOptions {
   random?: () => number
 }
 
-/** Wrap a driver so every send is retried on transient failures. Returns a
- *  regular `EmailDriver` — compose it with `fallback`, `roundRobin`, etc.
+/** Retry every send on transient failures. Pass a driver to get a
+ *  wrapped `EmailDriver` (compose it with `fallback`, `roundRobin`, etc.),
+ *  or options only to get middleware for `email.use()` / `mount()`:
  *
  *  ```ts
  *  const driver = withRetry(resend({ apiKey }), { retries: 3 })
+ *  email.mount("broadcast", ses(), { middleware: [withRetry({ retries: 5 })] })
  *  ```
  */
-export function withRetry(driver: EmailDriver, options: RetryOptions = {}): EmailDriver {
+export function withRetry(driver: EmailDriver, options?: RetryOptions): EmailDriver
+export function withRetry(options?: RetryOptions): Middleware
+export function withRetry(
+  driverOrOptions?: EmailDriver | RetryOptions,
+  maybeOptions?: RetryOptions,
+): EmailDriver | Middleware {
+  if (isDriver(driverOrOptions)) return wrapDriver(driverOrOptions, retryAround(maybeOptions))
+  return { name: "retry", around: retryAround(driverOrOptions) }
+}
+
+function retryAround(options: RetryOptions = {}): NonNullable<Middleware["around"]> {
   const retries = options.retries ?? 3
   const initialDelay = options.initialDelay ?? 250
   const maxDelay = options.maxDelay ?? 10_000
@@ -57,48 +70,46 @@ export function withRetry(driver: EmailDriver, options: RetryOptions = {}): Emai
   const random = options.random ?? Math.random
   const deadLetter = options.deadLetter
 
-  return {
-    ...driver,
-    name: driver.name,
-    async send(msg, ctx) {
-      let lastError: NonNullable<Result<EmailResult>["error"]> | null = null
-      let lastDelay = initialDelay
-      for (let attempt = 0; attempt <= retries; attempt++) {
-        ctx.attempt = attempt + 1
-        if (ctx.signal?.aborted) {
-          return {
-            data: null,
-            error: toEmailError(driver.name, ctx.signal.reason ?? new Error("aborted")),
-          }
-        }
-        let result: Result<EmailResult>
-        try {
-          result = await driver.send(msg, ctx)
-        } catch (thrown) {
-          result = { data: null, error: toEmailError(driver.name, thrown) }
-        }
-        if (result.data) return result
-        lastError = result.error
-        if (attempt === retries || !shouldRetry(result.error, attempt + 1)) {
-          return deadLetter ? routeToDeadLetter(deadLetter, msg, ctx, result.error) : result
-        }
-        const delay = computeDelay({
-          attempt,
-          initialDelay,
-          maxDelay,
-          backoff,
-          respectRetryAfter,
-          error: result.error,
-          random,
-          previousDelay: lastDelay,
-        })
-        lastDelay = delay
+  return async (msg, ctx, next) => {
+    let lastError: NonNullable<Result<EmailResult>["error"]> | null = null
+    let lastDelay = initialDelay
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      ctx.attempt = attempt + 1
+      if (ctx.signal?.aborted) {
+        return { data: null, error: abortError(ctx.driver, ctx.signal.reason) }
+      }
+      let result: Result<EmailResult>
+      try {
+        result = await next(msg)
+      } catch (thrown) {
+        result = { data: null, error: toEmailError(ctx.driver, thrown) }
+      }
+      if (result.data) return result
+      lastError = result.error
+      if (attempt === retries || !shouldRetry(result.error, attempt + 1)) {
+        return deadLetter ? routeToDeadLetter(deadLetter, msg, ctx, result.error) : result
+      }
+      const delay = computeDelay({
+        attempt,
+        initialDelay,
+        maxDelay,
+        backoff,
+        respectRetryAfter,
+        error: result.error,
+        random,
+        previousDelay: lastDelay,
+      })
+      lastDelay = delay
+      try {
         await sleep(delay, ctx.signal)
+      } catch (thrown) {
+        // Aborted mid-backoff — report the abort, not the last failure.
+        return { data: null, error: abortError(ctx.driver, ctx.signal?.reason ?? thrown) }
       }
-      return deadLetter && lastError
-        ? routeToDeadLetter(deadLetter, msg, ctx, lastError)
-        : { data: null, error: lastError! }
-    },
+    }
+    return deadLetter && lastError
+      ? routeToDeadLetter(deadLetter, msg, ctx, lastError)
+      : { data: null, error: lastError! }
   }
 }
 
@@ -1,7 +1,15 @@
-import type { EmailDriver, EmailMessage } from "../types.ts"
+import type {
+  EmailDriver,
+  EmailMessage,
+  EmailResult,
+  Middleware,
+  RecipientOutcome,
+  Result,
+} from "../types.ts"
 import type { SuppressionStore } from "../suppression/index.ts"
 import { createError } from "../errors.ts"
 import { normalizeAddresses } from "../_normalize.ts"
+import { isDriver, wrapDriver } from "./_wrap.ts"
 
 /** Behavior when a recipient is suppressed.
  *  - `"error"` — return an `EmailError` with code `PROVIDER` and
@@ -15,47 +23,77 @@ export interface SuppressionOptions {
   policy?: SuppressionPolicy
   /** Hook fired for each suppressed recipient. */
   onBlocked?: (recipient: string, reason: string) => void
+  /** Add recipients the server hard-rejected — `RecipientOutcome`s on
+   *  `provider.rejected` or the error `cause` (SMTP) with a 5.1.x
+   *  addressing status — to `store`. Default: `false`. */
+  recordRejects?: boolean
 }
 
-/** Wrap a driver so `send()` checks the suppression store before the
- *  request leaves the process. */
-export function withSuppression(driver: EmailDriver, options: SuppressionOptions): EmailDriver {
+/** Check the suppression store before the request leaves the process —
+ *  as a driver wrapper, or as middleware when called with options only
+ *  (e.g. mounted on the broadcast stream alone). */
+export function withSuppression(driver: EmailDriver, options: SuppressionOptions): EmailDriver
+export function withSuppression(options: SuppressionOptions): Middleware
+export function withSuppression(
+  driverOrOptions: EmailDriver | SuppressionOptions,
+  maybeOptions?: SuppressionOptions,
+): EmailDriver | Middleware {
+  if (isDriver(driverOrOptions))
+    return wrapDriver(driverOrOptions, suppressionAround(maybeOptions!))
+  return { name: "suppression", around: suppressionAround(driverOrOptions) }
+}
+
+function suppressionAround(options: SuppressionOptions): NonNullable<Middleware["around"]> {
   const policy = options.policy ?? "error"
-  return {
-    ...driver,
-    async send(msg, ctx) {
-      const all = [
-        ...normalizeAddresses(msg.to),
-        ...normalizeAddresses(msg.cc),
-        ...normalizeAddresses(msg.bcc),
-      ]
-      const blocked: Array<{ recipient: string; reason: string }> = []
-      const allowed = new Set<string>()
-      for (const addr of all) {
-        const rec = await options.store.has(addr.email)
-        if (rec) {
-          blocked.push({ recipient: addr.email, reason: String(rec.reason) })
-          options.onBlocked?.(addr.email, String(rec.reason))
-        } else {
-          allowed.add(addr.email.toLowerCase())
-        }
+  const check = checkSuppressed(options, policy)
+  if (!options.recordRejects) return check
+  return async (msg, ctx, next) => {
+    const result = await check(msg, ctx, next)
+    if (!ctx.preview) {
+      for (const outcome of rejectedRecipients(result)) {
+        if (isHardReject(outcome)) await options.store.add(outcome.email, "invalid", ctx.driver)
+      }
+    }
+    return result
+  }
+}
+
+function checkSuppressed(
+  options: SuppressionOptions,
+  policy: SuppressionPolicy,
+): NonNullable<Middleware["around"]> {
+  return async (msg, ctx, next) => {
+    const all = [
+      ...normalizeAddresses(msg.to),
+      ...normalizeAddresses(msg.cc),
+      ...normalizeAddresses(msg.bcc),
+    ]
+    const blocked: Array<{ recipient: string; reason: string }> = []
+    const allowed = new Set<string>()
+    for (const addr of all) {
+      const rec = await options.store.has(addr.email)
+      if (rec) {
+        blocked.push({ recipient: addr.email, reason: String(rec.reason) })
+        options.onBlocked?.(addr.email, String(rec.reason))
+      } else {
+        allowed.add(addr.email.toLowerCase())
       }
-      if (blocked.length === 0) return driver.send(msg, ctx)
+    }
+    if (blocked.length === 0) return next(msg)
 
-      if (policy === "error" || allowed.size === 0) {
-        return {
-          data: null,
-          error: createError(
-            driver.name,
-            "PROVIDER",
-            `recipient suppressed: ${blocked.map((b) => b.recipient).join(", ")}`,
-            { retryable: false },
-          ),
-        }
+    if (policy === "error" || allowed.size === 0) {
+      return {
+        data: null,
+        error: createError(
+          ctx.driver,
+          "PROVIDER",
+          `recipient suppressed: ${blocked.map((b) => b.recipient).join(", ")}`,
+          { retryable: false },
+        ),
       }
+    }
 
-      return driver.send(filterRecipients(msg, allowed), ctx)
-    },
+    return next(filterRecipients(msg, allowed))
   }
 }
 
@@ -67,3 +105,16 @@ function filterRecipients(msg: EmailMessage, allowed: Set<string>): EmailMessage
   }
   return { ...msg, to: keep(msg.to) ?? msg.to, cc: keep(msg.cc), bcc: keep(msg.bcc) }
 }
+
+function rejectedRecipients(result: Result<EmailResult>): ReadonlyArray<RecipientOutcome> {
+  const source = result.data ? result.data.provider : result.error.cause
+  const rejected = (source as { rejected?: unknown } | undefined)?.rejected
+  return Array.isArray(rejected) ? (rejected as RecipientOutcome[]) : []
+}
+
+/** Permanent addressing failures only (RFC 3463 5.1.x — no such user,
+ *  bad domain). A bare 550 is as often a spam or policy block as a
+ *  missing mailbox, so without an enhanced status nothing is recorded. */
+function isHardReject(outcome: RecipientOutcome): boolean {
+  return Boolean(outcome.status?.startsWith("5.1."))
+}
@@ -52,6 +52,7 @@ export function withTelemetry(options: TelemetryOptions = {}): Middleware {
   return {
     name: "telemetry",
     async beforeSend(msg, ctx) {
+      if (ctx.preview) return
       const attrs: Record<string, unknown> = {
         "email.driver": ctx.driver,
         "email.attempt": ctx.attempt,
@@ -1,10 +1,13 @@
 /**
- * MTA-STS (RFC 8461) + TLS-RPT (RFC 8460) helpers. Two parts:
+ * MTA-STS (RFC 8461) + TLS-RPT (RFC 8460) helpers. Three parts:
  *
  *  - `generateMtaStsPolicy(...)` produces the text file you serve at
  *    `https://mta-sts.<domain>/.well-known/mta-sts.txt`.
  *  - `parseTlsRpt(json)` normalizes TLS-RPT JSON reports into a typed
  *    record.
+ *  - `createOutboundTlsPolicy(...)` enforces recipients' MTA-STS (and
+ *    DANE) policies when the SMTP driver delivers direct to MX, and
+ *    reports failures as TLS-RPT records.
  *
  * DNS side (the TXT records at `_mta-sts.<domain>` and `_smtp._tls.<domain>`)
  * stays your responsibility — it's one line per domain.
@@ -12,6 +15,26 @@
  * @module
  */
 
+export {
+  createOutboundTlsPolicy,
+  matchMx,
+  matchTlsa,
+  nodeTlsPolicyResolver,
+  parseMtaStsPolicy,
+  summarizeTlsFailures,
+} from "./outbound.ts"
+export type {
+  MtaStsPolicy,
+  MxTlsPlan,
+  OutboundTlsPolicy,
+  OutboundTlsPolicyOptions,
+  TlsaRecord,
+  TlsPolicyResolver,
+  TlsRptFailure,
+  TlsRptResultType,
+  TlsSession,
+} from "./outbound.ts"
+
 export interface MtaStsPolicyOptions {
   mode: "enforce" | "testing" | "none"
   /** Authorized MX patterns. */
@@ -41,7 +64,12 @@ export interface TlsRptPolicy {
   policyDomain?: string
   totalSuccessful?: number
   totalFailure?: number
-  failureDetails?: ReadonlyArray<{ resultType?: string; sendingMtaIp?: string; count?: number }>
+  failureDetails?: ReadonlyArray<{
+    resultType?: string
+    sendingMtaIp?: string
+    receivingMxHostname?: string
+    count?: number
+  }>
 }
 
 /** Parse a TLS-RPT JSON report. Accepts a string or already-parsed
@@ -63,6 +91,7 @@ export function parseTlsRpt(input: string | Record<string, unknown>): TlsRptRepo
           (d) => ({
             resultType: d["result-type"] as string | undefined,
             sendingMtaIp: d["sending-mta-ip"] as string | undefined,
+            receivingMxHostname: d["receiving-mx-hostname"] as string | undefined,
             count: d["failed-session-count"] as number | undefined,
           }),
         ),
@@ -0,0 +1,351 @@
+import type { MtaStsPolicyOptions, TlsRptPolicy } from "./index.ts"
+
+/** RFC 8460 §4.3 result types. */
+export type TlsRptResultType =
+  | "starttls-not-supported"
+  | "certificate-host-mismatch"
+  | "certificate-expired"
+  | "certificate-not-trusted"
+  | "validation-failure"
+  | "tlsa-invalid"
+  | "dnssec-invalid"
+  | "dane-required"
+  | "sts-policy-fetch-error"
+  | "sts-policy-invalid"
+  | "sts-webpki-invalid"
+
+/** One failed (or refused) session, ready to be counted into a report. */
+export interface TlsRptFailure {
+  policyType: NonNullable<TlsRptPolicy["policyType"]>
+  policyDomain: string
+  resultType: TlsRptResultType
+  receivingMxHostname?: string
+  failureReason?: string
+  at: Date
+}
+
+/** A published policy, tagged with the `id=` of the TXT record that
+ *  announced it. */
+export interface MtaStsPolicy extends MtaStsPolicyOptions {
+  id: string
+}
+
+/** One TLSA answer, shaped like `node:dns` `resolveTlsa()` results. */
+export interface TlsaRecord {
+  certUsage: number
+  selector: number
+  match: number
+  data: ArrayBuffer | Uint8Array
+}
+
+/** DNS lookups behind the policy. Matches `node:dns/promises`; lookup
+ *  failures should reject with the resolver's `code` on the error.
+ *  `resolveTlsa` is only used with `dane`, and must return
+ *  DNSSEC-validated answers only — point it at a validating resolver. */
+export interface TlsPolicyResolver {
+  resolveTxt: (name: string) => Promise<string[][]>
+  resolveTlsa?: (name: string) => Promise<TlsaRecord[]>
+}
+
+/** What the sending side saw of a negotiated TLS session. */
+export interface TlsSession {
+  /** Whether the chain verified against the WebPKI for the MX name. */
+  authorized: boolean
+  /** Node/OpenSSL code when it didn't (`CERT_HAS_EXPIRED`, …). */
+  authorizationError?: string
+  /** DER certificates as presented, leaf first. */
+  chain: ReadonlyArray<Uint8Array>
+}
+
+/** How to treat one MX host of a recipient domain. */
+export interface MxTlsPlan {
+  host: string
+  policyType: NonNullable<TlsRptPolicy["policyType"]>
+  policyDomain: string
+  /** Failures block delivery (`enforce` mode, or DANE). Otherwise they
+   *  are only reported. */
+  enforce: boolean
+  /** Set when the host must not be used at all. */
+  refused?: TlsRptResultType
+  /** Judge a session with this host: the failure, or `null` if it
+   *  satisfies the policy. */
+  check: (session: TlsSession) => Promise<TlsRptResultType | null>
+  /** Hand a failure with this host to `onFailure`. */
+  report: (resultType: TlsRptResultType, reason?: string) => void
+}
+
+export interface OutboundTlsPolicy {
+  /** Plans for `hosts` (the domain's exchangers, in MX order). */
+  plan: (domain: string, hosts: ReadonlyArray<string>) => Promise<MxTlsPlan[]>
+}
+
+export interface OutboundTlsPolicyOptions {
+  /** Fetches `https://mta-sts.<domain>/.well-known/mta-sts.txt`.
+   *  Default: global `fetch`. */
+  fetch?: typeof fetch
+  /** Default: `node:dns`. */
+  resolver?: TlsPolicyResolver
+  /** Honour MTA-STS policies. Default: true. */
+  mtaSts?: boolean
+  /** Authenticate exchangers that publish DANE-EE TLSA records.
+   *  Default: false. */
+  dane?: boolean
+  /** Policy fetch timeout. Default: 10000. */
+  timeoutMs?: number
+  /** Receives every failure, e.g. to feed `summarizeTlsFailures`. */
+  onFailure?: (failure: TlsRptFailure) => void
+}
+
+/** Parse an RFC 8461 policy body; `null` when it isn't a valid one. */
+export function parseMtaStsPolicy(body: string): MtaStsPolicyOptions | null {
+  const fields = new Map<string, string[]>()
+  for (const line of body.split(/\r?\n/)) {
+    const colon = line.indexOf(":")
+    if (colon < 0) continue
+    const key = line.slice(0, colon).trim()
+    fields.set(key, [...(fields.get(key) ?? []), line.slice(colon + 1).trim()])
+  }
+  const mode = fields.get("mode")?.[0]
+  const maxAge = fields.get("max_age")?.[0] ?? ""
+  const mx = fields.get("mx") ?? []
+  if (fields.get("version")?.[0] !== "STSv1") return null
+  if (mode !== "enforce" && mode !== "testing" && mode !== "none") return null
+  if (!/^\d{1,10}$/.test(maxAge)) return null
+  if (mode !== "none" && mx.length === 0) return null
+  // RFC 8461 §3.2 caps max_age at 31557600 (a year).
+  return { mode, mx, maxAgeSeconds: Math.min(Number(maxAge), 31_557_600) }
+}
+
+/** Whether `host` matches a policy `mx` pattern. A leading `*.` stands
+ *  for exactly one label. */
+export function matchMx(host: string, pattern: string): boolean {
+  const name = host.toLowerCase().replace(/\.$/, "")
+  const want = pattern.toLowerCase().replace(/\.$/, "")
+  if (!want.startsWith("*.")) return name === want
+  const dot = name.indexOf(".")
+  return dot > 0 && name.slice(dot + 1) === want.slice(2)
+}
+
+/** Whether the presented chain matches a usable TLSA record. Only
+ *  DANE-EE (usage 3) is usable: RFC 7672 rules out the PKIX usages for
+ *  SMTP, and DANE-TA would need its own chain validation. */
+export async function matchTlsa(
+  records: ReadonlyArray<TlsaRecord>,
+  chain: ReadonlyArray<Uint8Array>,
+): Promise<boolean> {
+  const leaf = chain[0]
+  if (!leaf) return false
+  for (const record of records.filter(isUsableTlsa)) {
+    const selected = record.selector === 1 ? await spki(leaf) : leaf
+    const association =
+      record.match === 0
+        ? selected
+        : new Uint8Array(
+            await crypto.subtle.digest(
+              record.match === 1 ? "SHA-256" : "SHA-512",
+              selected as Uint8Array<ArrayBuffer>,
+            ),
+          )
+    if (sameBytes(association, new Uint8Array(record.data))) return true
+  }
+  return false
+}
+
+/** Fold failures into TLS-RPT policy entries, one per policy type and
+ *  domain, counting each result type per receiving MX. */
+export function summarizeTlsFailures(failures: ReadonlyArray<TlsRptFailure>): TlsRptPolicy[] {
+  const policies = new Map<string, { policy: TlsRptPolicy; details: Map<string, number> }>()
+  for (const failure of failures) {
+    const key = `${failure.policyType} ${failure.policyDomain}`
+    const entry = policies.get(key) ?? {
+      policy: { policyType: failure.policyType, policyDomain: failure.policyDomain },
+      details: new Map(),
+    }
+    const detail = `${failure.resultType} ${failure.receivingMxHostname ?? ""}`
+    entry.details.set(detail, (entry.details.get(detail) ?? 0) + 1)
+    policies.set(key, entry)
+  }
+  return Array.from(policies.values(), ({ policy, details }) => ({
+    ...policy,
+    totalFailure: [...details.values()].reduce((sum, count) => sum + count, 0),
+    failureDetails: Array.from(details, ([detail, count]) => {
+      const [resultType, host] = detail.split(" ")
+      return { resultType, ...(host ? { receivingMxHostname: host } : {}), count }
+    }),
+  }))
+}
+
+/** Sending-side transport security for the SMTP driver's `directMx`
+ *  mode: which exchangers a recipient domain allows and what their TLS
+ *  must look like, from MTA-STS (RFC 8461) and optionally DANE
+ *  (RFC 7672). Failures go to `onFailure` in TLS-RPT (RFC 8460) terms.
+ *
+ *  MTA-STS policies are cached per domain for their `max_age`; a changed
+ *  TXT `id=` is only noticed once the cached copy expires. Without a
+ *  usable policy, hosts get `no-policy-found` plans (opportunistic TLS).
+ *  DANE, when on, takes precedence over MTA-STS for hosts with usable
+ *  TLSA records. */
+export function createOutboundTlsPolicy(options: OutboundTlsPolicyOptions = {}): OutboundTlsPolicy {
+  const resolver = options.resolver ?? nodeTlsPolicyResolver()
+  const timeoutMs = options.timeoutMs ?? 10_000
+  const cache = new Map<string, { policy: MtaStsPolicy; expiresAt: number }>()
+
+  const report = (failure: Omit<TlsRptFailure, "at">) =>
+    options.onFailure?.({ ...failure, at: new Date() })
+
+  async function stsPolicy(domain: string): Promise<MtaStsPolicy | null> {
+    const cached = cache.get(domain)
+    if (cached && cached.expiresAt > Date.now()) return cached.policy
+    cache.delete(domain)
+
+    let id: string | null
+    try {
+      id = stsRecordId(await resolver.resolveTxt(`_mta-sts.${domain}`))
+    } catch {
+      // NXDOMAIN, no TXT, or a failed lookup: treated alike as no policy.
+      return null
+    }
+    if (!id) return null
+
+    const failed = (resultType: TlsRptResultType, failureReason: string) => {
+      report({ policyType: "sts", policyDomain: domain, resultType, failureReason })
+      return null
+    }
+    let body: string
+    try {
+      const res = await (options.fetch ?? fetch)(
+        `https://mta-sts.${domain}/.well-known/mta-sts.txt`,
+        { redirect: "error", signal: AbortSignal.timeout(timeoutMs) },
+      )
+      if (res.status !== 200) return failed("sts-policy-fetch-error", `HTTP ${res.status}`)
+      if (!/^text\/plain\b/i.test(res.headers.get("content-type") ?? ""))
+        return failed("sts-policy-invalid", "policy is not text/plain")
+      body = await res.text()
+    } catch (error) {
+      return failed(
+        "sts-policy-fetch-error",
+        error instanceof Error ? error.message : String(error),
+      )
+    }
+    const parsed = parseMtaStsPolicy(body)
+    if (!parsed) return failed("sts-policy-invalid", "malformed policy")
+    const policy = { ...parsed, id }
+    cache.set(domain, { policy, expiresAt: Date.now() + parsed.maxAgeSeconds * 1000 })
+    return policy
+  }
+
+  /** Usable TLSA records for `host`, `[]` without any, or `null` when the
+   *  lookup failed and DANE status is unknown. */
+  async function tlsaRecords(host: string): Promise<TlsaRecord[] | null> {
+    if (!resolver.resolveTlsa) return []
+    try {
+      return (await resolver.resolveTlsa(`_25._tcp.${host}`)).filter(isUsableTlsa)
+    } catch (error) {
+      const code = (error as { code?: unknown }).code
+      return code === "ENODATA" || code === "ENOTFOUND" ? [] : null
+    }
+  }
+
+  return {
+    async plan(domain, hosts) {
+      const sts = options.mtaSts === false ? null : await stsPolicy(domain)
+      return Promise.all(
+        hosts.map(async (host): Promise<MxTlsPlan> => {
+          const base = (policyType: MxTlsPlan["policyType"]) => ({
+            host,
+            policyType,
+            policyDomain: domain,
+            report: (resultType: TlsRptResultType, failureReason?: string) =>
+              report({
+                policyType,
+                policyDomain: domain,
+                resultType,
+                receivingMxHostname: host,
+                ...(failureReason ? { failureReason } : {}),
+              }),
+          })
+
+          const tlsa = options.dane ? await tlsaRecords(host) : []
+          if (tlsa === null) {
+            const plan = { ...base("tlsa"), enforce: true, check: async () => null }
+            plan.report("dnssec-invalid", "TLSA lookup failed")
+            return { ...plan, refused: "dnssec-invalid" }
+          }
+          if (tlsa.length > 0) {
+            return {
+              ...base("tlsa"),
+              enforce: true,
+              check: async (session) =>
+                (await matchTlsa(tlsa, session.chain)) ? null : "validation-failure",
+            }
+          }
+
+          if (!sts || sts.mode === "none") {
+            return { ...base("no-policy-found"), enforce: false, check: async () => null }
+          }
+          const plan: MxTlsPlan = {
+            ...base("sts"),
+            enforce: sts.mode === "enforce",
+            check: async (session) =>
+              session.authorized ? null : certificateResult(session.authorizationError),
+          }
+          if (!sts.mx.some((pattern) => matchMx(host, pattern))) {
+            plan.report("validation-failure", `${host} is not listed in the MTA-STS policy`)
+            if (plan.enforce) return { ...plan, refused: "validation-failure" }
+          }
+          return plan
+        }),
+      )
+    },
+  }
+}
+
+/** Default resolver — `node:dns`, loaded on first use. TLSA lookups
+ *  need a Node with `resolveTlsa` and a DNSSEC-validating system
+ *  resolver. */
+export function nodeTlsPolicyResolver(): TlsPolicyResolver {
+  return {
+    async resolveTxt(name) {
+      const dns = await import("node:dns/promises")
+      return dns.resolveTxt(name)
+    },
+    async resolveTlsa(name) {
+      const dns = (await import("node:dns/promises")) as {
+        resolveTlsa?: (name: string) => Promise<TlsaRecord[]>
+      }
+      if (!dns.resolveTlsa) throw new Error("node:dns has no resolveTlsa")
+      return dns.resolveTlsa(name)
+    },
+  }
+}
+
+/** `id=` of the single `v=STSv1` TXT record, or `null` without exactly one. */
+function stsRecordId(records: string[][]): string | null {
+  const sts = records.map((chunks) => chunks.join("")).filter((txt) => /^v=STSv1\s*;/.test(txt))
+  if (sts.length !== 1) return null
+  return /(?:^|;)\s*id=([A-Za-z0-9]{1,32})\s*(?:;|$)/.exec(sts[0]!)?.[1] ?? null
+}
+
+function isUsableTlsa(record: TlsaRecord): boolean {
+  return (
+    record.certUsage === 3 &&
+    (record.selector === 0 || record.selector === 1) &&
+    record.match >= 0 &&
+    record.match <= 2
+  )
+}
+
+function certificateResult(code: string | undefined): TlsRptResultType {
+  if (code === "ERR_TLS_CERT_ALTNAME_INVALID") return "certificate-host-mismatch"
+  if (code === "CERT_HAS_EXPIRED" || code === "CERT_NOT_YET_VALID") return "certificate-expired"
+  return "certificate-not-trusted"
+}
+
+async function spki(der: Uint8Array): Promise<Uint8Array> {
+  const { X509Certificate } = await import("node:crypto")
+  return new Uint8Array(new X509Certificate(der).publicKey.export({ type: "spki", format: "der" }))
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
@@ -0,0 +1,47 @@
+export interface ArfField {
+  name: string
+  value: string
+}
+
+/** Body of the first part whose Content-Type is `contentType`. */
+export function extractPart(raw: string, contentType: string): string {
+  const re = new RegExp(
+    `content-type:\\s*${contentType}[^]*?\\r?\\n\\r?\\n([\\s\\S]*?)(?=\\r?\\n--|$)`,
+    "i",
+  )
+  const m = re.exec(raw)
+  return m ? m[1]!.trim() : ""
+}
+
+/** `Name: value` lines in order, folded continuations joined and
+ *  repeats kept. Stops at the first blank line. */
+export function parseFields(block: string): ArfField[] {
+  const out: ArfField[] = []
+  for (const line of block.split(/\r?\n/)) {
+    if (!line.trim()) break
+    const last = out[out.length - 1]
+    if (/^[ \t]/.test(line)) {
+      if (last) last.value = `${last.value} ${line.trim()}`
+      continue
+    }
+    const m = /^([\w-]+):\s*(.*)$/.exec(line)
+    if (m) out.push({ name: m[1]!, value: m[2]!.trim() })
+  }
+  return out
+}
+
+/** Fields keyed by lowercased name; the last of a repeated field wins. */
+export function fieldRecord(fields: ReadonlyArray<ArfField>): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (const field of fields) out[field.name.toLowerCase()] = field.value
+  return out
+}
+
+/** Header fields of the reported message: a `text/rfc822-headers`
+ *  (RFC 6522) or older `message/rfc822-headers` part, or the head of a
+ *  `message/rfc822` part. */
+export function extractOriginalHeaders(raw: string): ArfField[] {
+  return parseFields(
+    extractPart(raw, "(?:text|message)/rfc822-headers") || extractPart(raw, "message/rfc822"),
+  )
+}
@@ -5,6 +5,8 @@
  * @module
  */
 
+import { extractOriginalHeaders, extractPart, fieldRecord, parseFields } from "./_arf.ts"
+
 export interface ArfReport {
   feedbackType?: string
   userAgent?: string
@@ -23,8 +25,8 @@ export interface ArfReport {
  *  part and the embedded original headers. */
 export function parseArf(raw: string): ArfReport {
   const report = extractPart(raw, "message/feedback-report")
-  const fields = parseKv(report)
-  const headers = extractOriginalHeaders(raw)
+  const fields = fieldRecord(parseFields(report))
+  const headers = fieldRecord(extractOriginalHeaders(raw))
   return {
     feedbackType: fields["feedback-type"],
     userAgent: fields["user-agent"],
@@ -38,31 +40,3 @@ export function parseArf(raw: string): ArfReport {
     reportedHeaders: headers,
   }
 }
-
-function extractPart(raw: string, contentType: string): string {
-  const re = new RegExp(
-    `content-type:\\s*${contentType}[^]*?\\r?\\n\\r?\\n([\\s\\S]*?)(?=\\r?\\n--|$)`,
-    "i",
-  )
-  const m = re.exec(raw)
-  return m ? m[1]!.trim() : ""
-}
-
-function parseKv(block: string): Record<string, string> {
-  const out: Record<string, string> = {}
-  for (const line of block.split(/\r?\n/)) {
-    const m = /^([\w-]+):\s*(.*)$/.exec(line)
-    if (m) out[m[1]!.toLowerCase()] = m[2]!.trim()
-  }
-  return out
-}
-
-function extractOriginalHeaders(raw: string): Record<string, string> {
-  const part = extractPart(raw, "message/rfc822-headers") || extractPart(raw, "message/rfc822")
-  const out: Record<string, string> = {}
-  for (const line of part.split(/\r?\n/)) {
-    const m = /^([\w-]+):\s*(.*)$/.exec(line)
-    if (m) out[m[1]!.toLowerCase()] = m[2]!.trim()
-  }
-  return out
-}
@@ -0,0 +1,123 @@
+/**
+ * OpenPGP/MIME (RFC 3156) for drivers that accept raw MIME, plus Web
+ * Key Directory lookups for recipient keys.
+ *
+ * ```ts
+ * import { buildPgp, wkdLookup } from "unemail/pgp"
+ *
+ * const raw = await buildPgp(msg, {
+ *   backend, // your OpenPGP implementation, see `PgpBackend`
+ *   sign: true,
+ *   encrypt: { keys: (address) => wkdLookup(address) },
+ * })
+ * await email.send({ ...msg, raw })
+ * ```
+ *
+ * The SMTP driver does the same per send with its `pgp` option.
+ * `createPgpTestBackend` in `unemail/test` stands in for a real
+ * backend in tests.
+ *
+ * @module
+ */
+
+import type { EmailMessage } from "../types.ts"
+import { createError } from "../errors.ts"
+import {
+  buildMime,
+  headerMessageId,
+  messageIdFor,
+  normalizeMimeInput,
+} from "../driver/_smtp/mime.ts"
+import { applyPgp } from "../driver/_smtp/pgp.ts"
+import type { PgpOptions } from "../driver/_smtp/pgp.ts"
+
+export type { PgpBackend, PgpEncryptOptions, PgpKey, PgpOptions } from "../driver/_smtp/pgp.ts"
+
+/** `msg` serialized and wrapped: `multipart/signed`, then (with
+ *  `encrypt`) `multipart/encrypted` for every To/Cc recipient. Encrypting
+ *  a message with Bcc recipients throws `INVALID_OPTIONS`. */
+export async function buildPgp(msg: EmailMessage, options: PgpOptions): Promise<string> {
+  const messageId = headerMessageId(msg) ?? messageIdFor(msg)
+  const input = normalizeMimeInput(msg, messageId)
+  const mime = buildMime(input, { signing: Boolean(options.sign) })
+  return applyPgp(
+    mime.body,
+    mime.envelope.rcpt,
+    input.bcc.map((address) => address.email),
+    options,
+  )
+}
+
+export interface WkdOptions {
+  /** Default: global `fetch`. */
+  fetch?: typeof fetch
+  /** Per-request timeout. Default: 10000. */
+  timeoutMs?: number
+}
+
+/** Key URLs for `address`, advanced method first
+ *  (draft-koch-openpgp-webkey-service §3.1). */
+export async function wkdUrls(address: string): Promise<[advanced: string, direct: string]> {
+  const at = address.lastIndexOf("@")
+  const local = address.slice(0, at)
+  const domain = address.slice(at + 1).toLowerCase()
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(local.toLowerCase()) as BufferSource,
+  )
+  const hash = zBase32(new Uint8Array(digest))
+  const query = `?l=${encodeURIComponent(local)}`
+  return [
+    `https://openpgpkey.${domain}/.well-known/openpgpkey/${domain}/hu/${hash}${query}`,
+    `https://${domain}/.well-known/openpgpkey/hu/${hash}${query}`,
+  ]
+}
+
+/** Fetch the binary public key `address` publishes through WKD, or
+ *  `null` when it publishes none. The advanced method's host often
+ *  doesn't exist, so its failures fall through to the direct method;
+ *  a direct method that can't be reached throws a retryable `NETWORK`
+ *  error. */
+export async function wkdLookup(
+  address: string,
+  options: WkdOptions = {},
+): Promise<Uint8Array | null> {
+  const doFetch = options.fetch ?? fetch
+  const timeoutMs = options.timeoutMs ?? 10_000
+  const [advanced, direct] = await wkdUrls(address)
+  for (const url of [advanced, direct]) {
+    let res: Response
+    try {
+      res = await doFetch(url, { signal: AbortSignal.timeout(timeoutMs) })
+    } catch (error) {
+      if (url === advanced) continue
+      throw createError("pgp", "NETWORK", `WKD lookup for ${address} failed`, {
+        retryable: true,
+        cause: error,
+      })
+    }
+    if (res.status === 200) {
+      const key = new Uint8Array(await res.arrayBuffer())
+      if (key.length) return key
+    }
+  }
+  return null
+}
+
+const Z_BASE_32 = "ybndrfg8ejkmcpqxot1uwisza345h769"
+
+function zBase32(bytes: Uint8Array): string {
+  let out = ""
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += Z_BASE_32[(buffer >> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) out += Z_BASE_32[(buffer << (5 - bits)) & 31]
+  return out
+}
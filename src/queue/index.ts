@@ -35,6 +35,13 @@ export interface EmailQueue {
   fail: (id: string, error: Error, nextAttemptAt: number) => MaybePromise<void>
   /** Current queue size — useful in tests and metrics. */
   size: () => MaybePromise<number>
+  /** Look up a still-queued item. Optional — lets `email.retrieve()`
+   *  report emulated scheduled sends from any process. */
+  get?: (id: string) => MaybePromise<QueueItem | null>
+  /** Drop a still-queued item; `false` when it is no longer queued.
+   *  Optional — required for `email.cancel()` on emulated scheduled
+   *  sends. */
+  remove?: (id: string) => MaybePromise<boolean>
 }
 
 /** Options for the built-in worker loop. */
@@ -57,6 +57,15 @@ export function memoryQueue(options: MemoryQueueOptions = {}): EmailQueue {
     size() {
       return items.length
     },
+    get(id: string) {
+      return items.find((i) => i.id === id) ?? null
+    },
+    remove(id: string) {
+      const idx = items.findIndex((i) => i.id === id)
+      if (idx < 0) return false
+      items.splice(idx, 1)
+      return true
+    },
   }
 }
 
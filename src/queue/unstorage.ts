@@ -67,6 +67,14 @@ export function unstorageQueue(options: UnstorageQueueOptions): EmailQueue {
       const keys = await options.storage.getKeys(prefix)
       return keys.length
     },
+    async get(id: string) {
+      return ((await options.storage.getItem(key(id))) as QueueItem | null) ?? null
+    },
+    async remove(id: string) {
+      if (!(await options.storage.getItem(key(id)))) return false
+      await options.storage.removeItem(key(id))
+      return true
+    },
   }
 }
 
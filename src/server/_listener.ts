@@ -0,0 +1,423 @@
+import type { Server, Socket } from "node:net"
+import type { SecureContextOptions, TLSSocket } from "node:tls"
+import type { MaybePromise } from "../types.ts"
+
+/** One client connection. */
+export interface SmtpSession {
+  id: string
+  remoteAddress: string
+  /** Name the client gave in EHLO/HELO. */
+  clientName?: string
+  /** Username accepted by `authenticate`. */
+  user?: string
+  /** Whether STARTTLS has been negotiated. */
+  secure: boolean
+}
+
+export interface SmtpCredentials {
+  method: "PLAIN" | "LOGIN"
+  username: string
+  password: string
+}
+
+/** Envelope of one received message. */
+export interface RelayEnvelope {
+  from: string
+  to: string[]
+}
+
+export interface SmtpServer {
+  /** Start accepting connections. Port `0` picks a free one. */
+  listen: (port?: number, host?: string) => Promise<{ host: string; port: number }>
+  /** Stop accepting and drop open connections. */
+  close: () => Promise<void>
+}
+
+/** Points in a session where `intercept` is consulted: on connect (in
+ *  place of the greeting), for each command, and once the message body
+ *  is in (`"message"`). */
+export type SmtpStage =
+  | "connect"
+  | "EHLO"
+  | "STARTTLS"
+  | "AUTH"
+  | "MAIL"
+  | "RCPT"
+  | "DATA"
+  | "message"
+
+/** Protocol engine shared by the relay and the test server. Policy
+ *  lives with the callers: `checkSender` vets MAIL FROM, `deliver`
+ *  takes each message and answers with the final reply. */
+export interface ListenerOptions {
+  hostname?: string
+  tls?: SecureContextOptions
+  authenticate?: (credentials: SmtpCredentials, session: SmtpSession) => MaybePromise<boolean>
+  requireAuth?: boolean
+  allowInsecureAuth?: boolean
+  maxMessageBytes?: number
+  maxRecipients?: number
+  idleTimeoutMs?: number
+  /** A rejection reply for MAIL FROM, or nothing to accept it. */
+  checkSender?: (from: string, session: SmtpSession) => MaybePromise<string | void>
+  deliver: (raw: Uint8Array, envelope: RelayEnvelope, session: SmtpSession) => Promise<string>
+  /** Answer a stage with this reply instead (`"disconnect"` drops the
+   *  connection). A `421` reply closes it after sending. */
+  intercept?: (
+    stage: SmtpStage,
+    argument: string,
+    session: SmtpSession,
+  ) => MaybePromise<string | "disconnect" | void>
+}
+
+/** Longest command line accepted outside DATA (RFC 5321 allows 512
+ *  octets; extensions push it a little past that). */
+const MAX_LINE = 4096
+
+const STAGES: Record<string, SmtpStage> = {
+  EHLO: "EHLO",
+  HELO: "EHLO",
+  STARTTLS: "STARTTLS",
+  AUTH: "AUTH",
+  MAIL: "MAIL",
+  RCPT: "RCPT",
+  DATA: "DATA",
+}
+
+export function createListener(options: ListenerOptions): SmtpServer {
+  const hostname = options.hostname ?? "localhost"
+  const maxMessageBytes = options.maxMessageBytes ?? 25 * 1024 * 1024
+  const maxRecipients = options.maxRecipients ?? 100
+  const idleTimeoutMs = options.idleTimeoutMs ?? 300_000
+  const requireAuth = options.requireAuth ?? Boolean(options.authenticate)
+  const CRLF = Buffer.from("\r\n")
+  const sockets = new Set<Socket>()
+  let server: Server | null = null
+  let sessions = 0
+
+  function handle(plain: Socket, tls: typeof import("node:tls")): void {
+    let socket: Socket | TLSSocket = plain
+    const session: SmtpSession = {
+      id: `${Date.now().toString(36)}.${++sessions}`,
+      remoteAddress: plain.remoteAddress ?? "",
+      secure: false,
+    }
+    let buffer: Buffer = Buffer.alloc(0)
+    // Chunks since the last LF, joined into `buffer` once a line ends.
+    let partial: Buffer[] = []
+    let partialBytes = 0
+    let busy = false
+    let envelope: RelayEnvelope | null = null
+    // Set while DATA is being received.
+    let data: { chunks: Buffer[]; size: number } | null = null
+    // Set while AUTH waits for the client's next line.
+    let continuation: ((line: string) => Promise<void>) | null = null
+
+    const reply = (...lines: string[]) => {
+      if (!socket.destroyed) socket.write(lines.map((line) => `${line}\r\n`).join(""))
+    }
+
+    const attach = (target: Socket | TLSSocket) => {
+      target.on("data", (chunk: Buffer) => {
+        if (target.writableEnded) return
+        if (chunk.includes(10)) {
+          buffer = Buffer.concat([buffer, ...partial, chunk])
+          partial = []
+          partialBytes = 0
+          // Lines pile up while `drain` awaits a callback; a client may
+          // pipeline about one message ahead of the replies, no more.
+          if (buffer.length > maxMessageBytes + MAX_LINE) return flooded()
+        } else {
+          partial.push(chunk)
+          partialBytes += chunk.length
+          if (partialBytes > lineLimit()) return overflow()
+        }
+        void drain()
+      })
+      target.on("error", () => target.destroy())
+      target.setTimeout(idleTimeoutMs, () => {
+        reply("421 4.4.2 Idle timeout, closing connection")
+        target.end()
+      })
+    }
+
+    /** Longest unterminated line to hold on to: a command line, or in
+     *  DATA whatever is left of the size limit. */
+    const lineLimit = () => (data ? Math.max(MAX_LINE, maxMessageBytes - data.size) : MAX_LINE)
+
+    /** Refuse an overlong line and hang up — the rest of it could be
+     *  arbitrarily long, so there's no waiting for its end. */
+    const overflow = () => {
+      partial = []
+      reply(data ? "552 5.3.4 Message exceeds the size limit" : "500 5.5.2 Line too long")
+      socket.end()
+    }
+
+    /** Hang up on a client that kept sending without reading replies. */
+    const flooded = () => {
+      buffer = Buffer.alloc(0)
+      reply("421 4.7.0 Too much pipelined input, closing connection")
+      socket.end()
+    }
+
+    /** Work through buffered lines one at a time, so pipelined commands
+     *  are answered in order. */
+    async function drain(): Promise<void> {
+      if (busy) return
+      busy = true
+      try {
+        while (!socket.destroyed) {
+          const end = buffer.indexOf(10)
+          if (end < 0) return
+          const line = buffer.subarray(0, end > 0 && buffer[end - 1] === 13 ? end - 1 : end)
+          buffer = buffer.subarray(end + 1)
+          if (data) await receive(line)
+          else if (continuation) {
+            const next = continuation
+            continuation = null
+            await next(line.toString("utf8"))
+          } else await command(line.toString("utf8"))
+        }
+      } finally {
+        busy = false
+      }
+    }
+
+    /** One DATA line; the lone `.` ends the message. */
+    async function receive(line: Buffer): Promise<void> {
+      if (line.length === 1 && line[0] === 46) {
+        const message = data!
+        data = null
+        return finish(message)
+      }
+      // Undo dot-stuffing (RFC 5321 §4.5.2).
+      const content = line[0] === 46 ? line.subarray(1) : line
+      data!.size += content.length + 2
+      if (data!.size <= maxMessageBytes) data!.chunks.push(content, CRLF)
+    }
+
+    async function finish(message: { chunks: Buffer[]; size: number }): Promise<void> {
+      const current = envelope!
+      envelope = null
+      if (message.size > maxMessageBytes) {
+        reply("552 5.3.4 Message exceeds the size limit")
+        return
+      }
+      try {
+        if (await scripted("message", "")) return
+        reply(
+          await options.deliver(new Uint8Array(Buffer.concat(message.chunks)), current, session),
+        )
+      } catch (error) {
+        reply(`451 4.3.0 ${describe(error)}`)
+      }
+    }
+
+    /** Let `intercept` answer `stage`; true when it did. */
+    async function scripted(stage: SmtpStage, argument: string): Promise<boolean> {
+      const answer = await options.intercept?.(stage, argument, session)
+      if (!answer) return false
+      if (answer === "disconnect") socket.destroy()
+      else {
+        reply(answer)
+        if (answer.startsWith("421")) socket.end()
+      }
+      return true
+    }
+
+    async function command(line: string): Promise<void> {
+      const verb = (/^\S+/.exec(line)?.[0] ?? "").toUpperCase()
+      const arg = line.slice(verb.length).trim()
+      const stage = STAGES[verb]
+      if (stage && (await scripted(stage, arg))) return
+      switch (verb) {
+        case "EHLO": {
+          session.clientName = arg
+          envelope = null
+          const extensions = [
+            "PIPELINING",
+            `SIZE ${maxMessageBytes}`,
+            "8BITMIME",
+            "ENHANCEDSTATUSCODES",
+          ]
+          if (options.tls && !session.secure) extensions.push("STARTTLS")
+          if (authOffered()) extensions.push("AUTH PLAIN LOGIN")
+          const lines = [hostname, ...extensions]
+          reply(...lines.map((text, i) => `250${i === lines.length - 1 ? " " : "-"}${text}`))
+          return
+        }
+        case "HELO":
+          session.clientName = arg
+          envelope = null
+          reply(`250 ${hostname}`)
+          return
+        case "STARTTLS":
+          if (!options.tls || session.secure) return reply("502 5.5.1 STARTTLS not available")
+          reply("220 2.0.0 Ready to start TLS")
+          return startTls()
+        case "AUTH":
+          return auth(arg)
+        case "MAIL":
+          return mail(arg)
+        case "RCPT":
+          return rcpt(arg)
+        case "DATA":
+          if (!envelope?.to.length) return reply("503 5.5.1 Need RCPT first")
+          data = { chunks: [], size: 0 }
+          reply("354 End data with <CR><LF>.<CR><LF>")
+          return
+        case "RSET":
+          envelope = null
+          reply("250 2.0.0 Ok")
+          return
+        case "NOOP":
+          reply("250 2.0.0 Ok")
+          return
+        case "VRFY":
+          reply("252 2.5.0 Cannot verify, but will accept the message")
+          return
+        case "QUIT":
+          reply("221 2.0.0 Bye")
+          socket.end()
+          return
+        default:
+          reply("500 5.5.2 Command not recognized")
+      }
+    }
+
+    function authOffered(): boolean {
+      return Boolean(options.authenticate) && (session.secure || Boolean(options.allowInsecureAuth))
+    }
+
+    function startTls(): void {
+      // Anything pipelined after STARTTLS was sent in the clear — drop it
+      // (RFC 3207 §4.2).
+      buffer = Buffer.alloc(0)
+      partial = []
+      partialBytes = 0
+      plain.removeAllListeners("data")
+      plain.setTimeout(0)
+      const secure = new tls.TLSSocket(plain, {
+        isServer: true,
+        secureContext: tls.createSecureContext(options.tls),
+      })
+      secure.once("secure", () => {
+        session.secure = true
+        session.clientName = undefined
+        envelope = null
+      })
+      socket = secure
+      attach(secure)
+    }
+
+    async function auth(arg: string): Promise<void> {
+      if (!authOffered()) return reply("503 5.5.1 AUTH not available")
+      if (session.user) return reply("503 5.5.1 Already authenticated")
+      const [mechanism = "", initial] = arg.split(/\s+/)
+      const verify = async (
+        method: SmtpCredentials["method"],
+        username: string,
+        password: string,
+      ) => {
+        const ok = await options.authenticate!({ method, username, password }, session)
+        if (!ok) return reply("535 5.7.8 Authentication credentials invalid")
+        session.user = username
+        reply("235 2.7.0 Authentication successful")
+      }
+      /** Read the client's answer to a 334 challenge. */
+      const ask = (challenge: string, next: (answer: string) => Promise<void>) => {
+        reply(`334 ${challenge}`)
+        continuation = async (line) => {
+          if (line === "*") return reply("501 5.7.0 Authentication cancelled")
+          return next(fromBase64(line))
+        }
+      }
+      switch (mechanism.toUpperCase()) {
+        case "PLAIN": {
+          const plainAuth = async (answer: string) => {
+            const [, username = "", password = ""] = answer.split("\0")
+            return verify("PLAIN", username, password)
+          }
+          if (initial && initial !== "=") return plainAuth(fromBase64(initial))
+          return ask("", plainAuth)
+        }
+        case "LOGIN": {
+          const password = (username: string) =>
+            ask(toBase64("Password:"), (answer) => verify("LOGIN", username, answer))
+          if (initial) return password(fromBase64(initial))
+          return ask(toBase64("Username:"), async (username) => password(username))
+        }
+        default:
+          reply("504 5.5.4 Unrecognized authentication type")
+      }
+    }
+
+    async function mail(arg: string): Promise<void> {
+      if (!session.clientName) return reply("503 5.5.1 Send EHLO first")
+      if (requireAuth && !session.user) return reply("530 5.7.0 Authentication required")
+      if (envelope) return reply("503 5.5.1 Nested MAIL command")
+      const match = /^FROM:\s*<([^>]*)>(.*)$/i.exec(arg)
+      if (!match) return reply("501 5.5.4 Syntax: MAIL FROM:<address>")
+      const from = match[1]!
+      const size = /\bSIZE=(\d+)/i.exec(match[2]!)?.[1]
+      if (size && Number(size) > maxMessageBytes)
+        return reply("552 5.3.4 Message exceeds the size limit")
+      const refusal = await options.checkSender?.(from, session)
+      if (refusal) return reply(refusal)
+      envelope = { from, to: [] }
+      reply("250 2.1.0 Ok")
+    }
+
+    function rcpt(arg: string): void {
+      if (!envelope) return reply("503 5.5.1 Need MAIL first")
+      const match = /^TO:\s*<([^>]+)>/i.exec(arg)
+      if (!match) return reply("501 5.5.4 Syntax: RCPT TO:<address>")
+      if (envelope.to.length >= maxRecipients) return reply("452 4.5.3 Too many recipients")
+      envelope.to.push(match[1]!)
+      reply("250 2.1.5 Ok")
+    }
+
+    attach(plain)
+    void scripted("connect", "").then((handled) => {
+      if (!handled) reply(`220 ${hostname} ESMTP`)
+    })
+  }
+
+  return {
+    async listen(port = 0, host = "127.0.0.1") {
+      const { default: net } = await import("node:net")
+      const tls = await import("node:tls")
+      server = net.createServer((socket) => {
+        sockets.add(socket)
+        socket.once("close", () => sockets.delete(socket))
+        handle(socket, tls)
+      })
+      const listening = server
+      await new Promise<void>((resolve, reject) => {
+        listening.once("error", reject)
+        listening.listen(port, host, () => resolve())
+      })
+      const address = listening.address() as { address: string; port: number }
+      return { host: address.address, port: address.port }
+    },
+    async close() {
+      const closing = server
+      server = null
+      for (const socket of sockets) socket.destroy()
+      sockets.clear()
+      if (closing) await new Promise<void>((resolve) => closing.close(() => resolve()))
+    },
+  }
+}
+
+function fromBase64(value: string): string {
+  return Buffer.from(value, "base64").toString("utf8")
+}
+
+function toBase64(value: string): string {
+  return Buffer.from(value, "utf8").toString("base64")
+}
+
+function describe(error: unknown): string {
+  return (error instanceof Error ? error.message : String(error)).replace(/[\r\n]+/g, " ")
+}
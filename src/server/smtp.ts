@@ -0,0 +1,198 @@
+import type { SecureContextOptions } from "node:tls"
+import type { Email } from "../email.ts"
+import type { EmailAddress, EmailInput, EmailResult, MaybePromise, Result } from "../types.ts"
+import type { ParsedEmail, ParseEmailOptions } from "../parse/index.ts"
+import type { RelayEnvelope, SmtpCredentials, SmtpServer, SmtpSession } from "./_listener.ts"
+import { parseEmail } from "../parse/index.ts"
+import { createListener } from "./_listener.ts"
+
+/**
+ * SMTP relay: accepts mail from clients that only speak SMTP and hands
+ * each message to an `Email` instance, so it goes out through the same
+ * driver and middleware as everything else.
+ *
+ * ```ts
+ * import { createSmtpServer } from "unemail/server/smtp"
+ *
+ * const server = createSmtpServer({
+ *   email,
+ *   tls: { key, cert },
+ *   authenticate: ({ username, password }) => checkPassword(username, password),
+ *   allowedSenders: ["@example.com"],
+ *   rateLimit: { messages: 100, windowMs: 60_000 },
+ * })
+ * await server.listen(587)
+ * ```
+ *
+ * Speaks EHLO/HELO, STARTTLS, AUTH PLAIN/LOGIN, SIZE, PIPELINING and
+ * 8BITMIME. Node only.
+ *
+ * @module
+ */
+
+export type { RelayEnvelope, SmtpCredentials, SmtpServer, SmtpSession }
+
+export interface SmtpRateLimit {
+  /** Messages allowed per client within `windowMs`. */
+  messages: number
+  /** Default: 60000. */
+  windowMs?: number
+  /** What counts as one client. Default: the authenticated user, else
+   *  the remote address. */
+  key?: (session: SmtpSession) => string
+}
+
+export interface SmtpServerOptions {
+  /** Where accepted messages go. */
+  email: Email
+  /** `"parse"` runs each message through `parseEmail` and sends the
+   *  structured fields, so any driver can deliver it. `"raw"` passes the
+   *  bytes on `msg.raw` untouched — the driver must accept raw messages
+   *  (SMTP). Default: `"parse"`. */
+  mode?: "parse" | "raw"
+  /** Parser override for `"parse"` mode. Default: the `postal-mime` peer. */
+  parse?: ParseEmailOptions["parse"]
+  /** Name in the greeting and EHLO reply. Default: `"localhost"`. */
+  hostname?: string
+  /** Key and certificate; enables STARTTLS. */
+  tls?: SecureContextOptions
+  /** Check AUTH credentials. Without it AUTH isn't offered. */
+  authenticate?: (credentials: SmtpCredentials, session: SmtpSession) => MaybePromise<boolean>
+  /** Refuse MAIL FROM until the client authenticated. Default: true when
+   *  `authenticate` is set. */
+  requireAuth?: boolean
+  /** Offer AUTH before STARTTLS (or without `tls` at all). Default: false. */
+  allowInsecureAuth?: boolean
+  /** Sender addresses a client may use, checked against MAIL FROM and,
+   *  in `"parse"` mode, the From header. Entries are addresses or
+   *  `@domain`; a function decides per session. Default: anyone. */
+  allowedSenders?:
+    | ReadonlyArray<string>
+    | ((from: string, session: SmtpSession) => MaybePromise<boolean>)
+  /** Per-client message budget, enforced at MAIL FROM. */
+  rateLimit?: SmtpRateLimit
+  /** Advertised `SIZE`. Default: 26214400 (25 MiB). */
+  maxMessageBytes?: number
+  /** Default: 100. */
+  maxRecipients?: number
+  /** Drop clients idle for this long. Default: 300000. */
+  idleTimeoutMs?: number
+  /** Called after each message was handed to `email`. */
+  onMessage?: (
+    result: Result<EmailResult>,
+    envelope: RelayEnvelope,
+    session: SmtpSession,
+  ) => MaybePromise<void>
+}
+
+export function createSmtpServer(options: SmtpServerOptions): SmtpServer {
+  const sent = new Map<string, number[]>()
+
+  /** Whether `session` still has budget; records the message if so. */
+  function takeBudget(session: SmtpSession): boolean {
+    const limit = options.rateLimit
+    if (!limit) return true
+    const key = limit.key?.(session) ?? session.user ?? session.remoteAddress
+    const since = Date.now() - (limit.windowMs ?? 60_000)
+    // Forget clients whose window has emptied, so the map stays bounded.
+    for (const [client, times] of sent) if (!times.some((at) => at > since)) sent.delete(client)
+    const recent = (sent.get(key) ?? []).filter((at) => at > since)
+    if (recent.length >= limit.messages) {
+      if (recent.length) sent.set(key, recent)
+      return false
+    }
+    sent.set(key, [...recent, Date.now()])
+    return true
+  }
+
+  async function senderAllowed(from: string, session: SmtpSession): Promise<boolean> {
+    const rule = options.allowedSenders
+    if (!rule) return true
+    if (typeof rule === "function") return rule(from, session)
+    const address = from.toLowerCase()
+    const domain = address.slice(address.lastIndexOf("@") + 1)
+    return rule.some((entry) => {
+      const allowed = entry.toLowerCase()
+      if (allowed.startsWith("@")) return allowed.slice(1) === domain
+      return allowed.includes("@") ? allowed === address : allowed === domain
+    })
+  }
+
+  /** Hand one message to `email`; returns the SMTP reply. */
+  async function relay(raw: Uint8Array, envelope: RelayEnvelope, session: SmtpSession) {
+    let input: EmailInput
+    if (options.mode === "raw") {
+      input = {
+        from: envelope.from,
+        to: envelope.to,
+        subject: headerValue(raw, "subject") ?? "",
+        raw,
+      }
+    } else {
+      let parsed: ParsedEmail
+      try {
+        parsed = await parseEmail(raw, { parse: options.parse })
+      } catch (error) {
+        return `554 5.6.0 Message could not be parsed: ${describe(error)}`
+      }
+      if (parsed.from && !(await senderAllowed(parsed.from.email, session)))
+        return `550 5.7.1 Sender ${parsed.from.email} not allowed`
+      input = toEmailInput(parsed, envelope)
+    }
+    const result = await options.email.send(input)
+    await options.onMessage?.(result, envelope, session)
+    if (result.data) return `250 2.0.0 Ok: queued as ${result.data.id}`
+    const message = result.error.message.replace(/[\r\n]+/g, " ")
+    return result.error.retryable ? `451 4.3.0 ${message}` : `554 5.0.0 ${message}`
+  }
+
+  return createListener({
+    ...options,
+    async checkSender(from, session) {
+      if (!(await senderAllowed(from, session))) return `550 5.7.1 Sender ${from} not allowed`
+      if (!takeBudget(session)) return "450 4.7.1 Rate limit exceeded, try again later"
+    },
+    deliver: relay,
+  })
+}
+
+/** Map a parsed message back onto the fields `send` takes. Only
+ *  envelope recipients receive it: header recipients missing from
+ *  RCPT TO are dropped, and envelope-only ones become Bcc. */
+function toEmailInput(parsed: ParsedEmail, envelope: RelayEnvelope): EmailInput {
+  const rcpt = new Set(envelope.to.map((address) => address.toLowerCase()))
+  const delivered = (address: EmailAddress) => rcpt.has(address.email.toLowerCase())
+  const to = parsed.to.filter(delivered)
+  const cc = parsed.cc.filter(delivered)
+  const listed = new Set([...to, ...cc].map((address) => address.email.toLowerCase()))
+  const bcc = envelope.to.filter((address) => !listed.has(address.toLowerCase()))
+  const headers: Record<string, string> = {}
+  if (parsed.messageId) headers["Message-ID"] = parsed.messageId
+  if (parsed.inReplyTo) headers["In-Reply-To"] = parsed.inReplyTo
+  if (parsed.references.length) headers.References = parsed.references.join(" ")
+  return {
+    from: parsed.from ?? envelope.from,
+    to,
+    ...(cc.length ? { cc } : {}),
+    ...(bcc.length ? { bcc } : {}),
+    ...(parsed.replyTo ? { replyTo: parsed.replyTo } : {}),
+    subject: parsed.subject ?? "",
+    ...(parsed.text !== undefined ? { text: parsed.text } : {}),
+    ...(parsed.html !== undefined ? { html: parsed.html } : {}),
+    ...(Object.keys(headers).length ? { headers } : {}),
+    ...(parsed.attachments.length ? { attachments: parsed.attachments } : {}),
+  }
+}
+
+/** Unfolded value of the first `name` header, without parsing the rest. */
+function headerValue(raw: Uint8Array, name: string): string | undefined {
+  const text = Buffer.from(raw).toString("utf8")
+  const end = text.search(/\r?\n\r?\n/)
+  const head = (end < 0 ? text : text.slice(0, end)).replace(/\r?\n[ \t]+/g, " ")
+  const match = new RegExp(`^${name}:[ \\t]*(.*)$`, "im").exec(head)
+  return match?.[1]?.trim()
+}
+
+function describe(error: unknown): string {
+  return (error instanceof Error ? error.message : String(error)).replace(/[\r\n]+/g, " ")
+}
@@ -0,0 +1,47 @@
+/**
+ * S/MIME (RFC 8551) for drivers that accept raw MIME. Builds the
+ * message exactly like the SMTP driver, then signs and/or encrypts it;
+ * pass the result as `msg.raw`.
+ *
+ * ```ts
+ * import { buildSmime } from "unemail/smime"
+ *
+ * const raw = await buildSmime(msg, {
+ *   sign: { certificate, privateKey },
+ *   encrypt: { certificates: (address) => directory.lookup(address) },
+ * })
+ * await email.send({ ...msg, raw })
+ * ```
+ *
+ * A driver's DKIM signing runs on the wrapped message, as it must. The
+ * SMTP driver can do the same per send with its `smime` option.
+ *
+ * @module
+ */
+
+import type { EmailMessage } from "../types.ts"
+import {
+  buildMime,
+  headerMessageId,
+  messageIdFor,
+  normalizeMimeInput,
+} from "../driver/_smtp/mime.ts"
+import { applySmime } from "../driver/_smtp/smime.ts"
+import type { SmimeOptions } from "../driver/_smtp/smime.ts"
+
+export type { SmimeEncryptOptions, SmimeOptions, SmimeSignOptions } from "../driver/_smtp/smime.ts"
+
+/** `msg` serialized and wrapped: `multipart/signed`, then (with
+ *  `encrypt`) `application/pkcs7-mime` for every To/Cc recipient. Encrypting
+ *  a message with Bcc recipients throws `INVALID_OPTIONS`. */
+export async function buildSmime(msg: EmailMessage, options: SmimeOptions): Promise<string> {
+  const messageId = headerMessageId(msg) ?? messageIdFor(msg)
+  const input = normalizeMimeInput(msg, messageId)
+  const mime = buildMime(input, { signing: Boolean(options.sign) })
+  return applySmime(
+    mime.body,
+    mime.envelope.rcpt,
+    input.bcc.map((address) => address.email),
+    options,
+  )
+}
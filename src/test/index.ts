@@ -1,2 +1,3 @@
 export { createTestEmail, type CreateTestEmailOptions, type TestEmail } from "./inbox.ts"
 export { emailMatchers, matchesEmail, toEmailSnapshot, type EmailMatch } from "./matchers.ts"
+export { createPgpTestBackend, type PgpTestBackend, type PgpTestEnvelope } from "./pgp.ts"
@@ -0,0 +1,71 @@
+import type { PgpBackend, PgpKey } from "../driver/_smtp/pgp.ts"
+
+/** What `createPgpTestBackend().decrypt` recovers. */
+export interface PgpTestEnvelope {
+  /** The protected MIME entity. */
+  data: string
+  /** Keys it was "encrypted" to, as given (binary keys base64-encoded). */
+  keys: string[]
+}
+
+export interface PgpTestBackend extends PgpBackend {
+  /** Whether `signature` is this backend's signature over `data`. */
+  verify: (data: string | Uint8Array, signature: string) => Promise<boolean>
+  /** Open a message `encrypt` produced. */
+  decrypt: (armored: string) => PgpTestEnvelope
+}
+
+/** Stand-in OpenPGP backend for tests of the `pgp` option: output is
+ *  armored like the real thing, but signatures are plain SHA-256 digests
+ *  and "encryption" is base64 — NOT cryptography. Use `verify` and
+ *  `decrypt` to assert on what was sent. */
+export function createPgpTestBackend(): PgpTestBackend {
+  const digest = async (data: string | Uint8Array) => {
+    const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data
+    const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes as BufferSource))
+    return `unemail-test-signature:${[...hash].map((b) => b.toString(16).padStart(2, "0")).join("")}`
+  }
+
+  return {
+    hash: "sha256",
+    async sign(data) {
+      return armor("PGP SIGNATURE", await digest(data))
+    },
+    async encrypt(data, keys) {
+      const envelope: PgpTestEnvelope = {
+        data: new TextDecoder().decode(data),
+        keys: keys.map(keyString),
+      }
+      return armor("PGP MESSAGE", JSON.stringify(envelope))
+    },
+    async verify(data, signature) {
+      return dearmor("PGP SIGNATURE", signature) === (await digest(data))
+    },
+    decrypt(armored) {
+      return JSON.parse(dearmor("PGP MESSAGE", armored)) as PgpTestEnvelope
+    },
+  }
+}
+
+function keyString(key: PgpKey): string {
+  if (typeof key === "string") return key
+  let binary = ""
+  for (const byte of key) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function armor(label: string, text: string): string {
+  let binary = ""
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte)
+  const lines = btoa(binary).match(/.{1,64}/g) ?? []
+  return [`-----BEGIN ${label}-----`, "", ...lines, `-----END ${label}-----`, ""].join("\n")
+}
+
+function dearmor(label: string, armored: string): string {
+  const match = new RegExp(
+    `-----BEGIN ${label}-----\\r?\\n\\r?\\n([\\s\\S]*?)-----END ${label}-----`,
+  ).exec(armored)
+  if (!match) throw new Error(`[unemail/test] not an armored ${label}`)
+  const binary = atob(match[1]!.replace(/\s+/g, ""))
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)))
+}
@@ -0,0 +1,129 @@
+import type { ParsedEmail, ParseEmailOptions } from "../parse/index.ts"
+import type { RelayEnvelope, SmtpStage } from "../server/_listener.ts"
+import { parseEmail } from "../parse/index.ts"
+import { createListener } from "../server/_listener.ts"
+
+export type { RelayEnvelope, SmtpStage }
+
+/** One message the test server accepted. */
+export interface CapturedMessage {
+  envelope: RelayEnvelope
+  raw: string
+  /** `undefined` when the message couldn't be parsed — e.g. the
+   *  `postal-mime` peer isn't installed. */
+  parsed?: ParsedEmail
+  /** Username the client authenticated as. */
+  user?: string
+}
+
+/** A scripted reply in place of the normal one. */
+export interface SmtpFailure {
+  /** `"connect"` replaces the greeting; `"message"` answers the end of
+   *  DATA, after the body was received. */
+  stage: SmtpStage
+  /** e.g. `"451 4.3.0 Try again later"`, or `"disconnect"` to drop the
+   *  connection. A `421` reply closes it after sending. */
+  reply: string
+  /** Only fire when the command's argument matches — e.g. `/bad@/` on
+   *  `"RCPT"` rejects one recipient. */
+  match?: RegExp
+  /** How many times it fires. Default: 1. */
+  times?: number
+}
+
+export interface SmtpTestServerOptions {
+  /** Accept (and require) these credentials over AUTH PLAIN/LOGIN. */
+  auth?: { user: string; password: string }
+  /** Failures scripted from the start; add more with `fail()`. */
+  failures?: ReadonlyArray<SmtpFailure>
+  /** Parser override. Default: the `postal-mime` peer. */
+  parse?: ParseEmailOptions["parse"]
+  /** Advertised `SIZE`. Default: 26214400 (25 MiB). */
+  maxMessageBytes?: number
+}
+
+export interface SmtpTestServer {
+  host: string
+  port: number
+  /** Accepted messages, oldest first. */
+  readonly messages: readonly CapturedMessage[]
+  /** The most recent message, or `undefined` if none arrived yet. */
+  readonly last: CapturedMessage | undefined
+  /** Script another failure. */
+  fail: (failure: SmtpFailure) => void
+  /** Forget captured messages and unspent failures. */
+  reset: () => void
+  close: () => Promise<void>
+}
+
+/** In-process SMTP server for hermetic tests of the `smtp` driver:
+ *  listens on a random local port, records every accepted message and
+ *  replays scripted failures. Exposed under `unemail/test/smtp`.
+ *
+ *  ```ts
+ *  const server = await createSmtpTestServer()
+ *  const email = createEmail({ driver: smtp({ host: server.host, port: server.port }) })
+ *  await email.send(msg)
+ *  expect(server.last?.envelope.to).toEqual(["to@example.com"])
+ *  ```
+ */
+export async function createSmtpTestServer(
+  options: SmtpTestServerOptions = {},
+): Promise<SmtpTestServer> {
+  const messages: CapturedMessage[] = []
+  let failures = (options.failures ?? []).map((failure) => ({ ...failure }))
+  const { auth } = options
+
+  const listener = createListener({
+    hostname: "unemail.test",
+    maxMessageBytes: options.maxMessageBytes,
+    allowInsecureAuth: true,
+    authenticate: auth
+      ? ({ username, password }) => username === auth.user && password === auth.password
+      : undefined,
+    intercept(stage, argument) {
+      const failure = failures.find(
+        (candidate) => candidate.stage === stage && (candidate.match?.test(argument) ?? true),
+      )
+      if (!failure) return
+      failure.times = (failure.times ?? 1) - 1
+      if (failure.times <= 0) failures = failures.filter((candidate) => candidate !== failure)
+      return failure.reply
+    },
+    async deliver(raw, envelope, session) {
+      let parsed: ParsedEmail | undefined
+      try {
+        parsed = await parseEmail(raw, { parse: options.parse })
+      } catch {
+        parsed = undefined
+      }
+      messages.push({
+        envelope,
+        raw: new TextDecoder().decode(raw),
+        ...(parsed ? { parsed } : {}),
+        ...(session.user ? { user: session.user } : {}),
+      })
+      return `250 2.0.0 Ok: queued as test-${messages.length}`
+    },
+  })
+  const { host, port } = await listener.listen(0, "127.0.0.1")
+
+  return {
+    host,
+    port,
+    get messages() {
+      return messages
+    },
+    get last() {
+      return messages[messages.length - 1]
+    },
+    fail(failure) {
+      failures.push({ ...failure })
+    },
+    reset() {
+      messages.length = 0
+      failures = []
+    },
+    close: listener.close,
+  }
+}
@@ -99,8 +99,9 @@ export interface EmailMessage {
   metadata?: Record<string, string>
 
   /** SendGrid-style per-recipient personalizations. When set, drivers
-   *  that support it (SendGrid, Mailgun recipient-variables) dispatch
-   *  a single batched request; others loop. */
+   *  that support it (`flags.personalizations`) dispatch a single
+   *  batched request; for every other driver the core expands the
+   *  message into one send per entry. */
   personalizations?: ReadonlyArray<Personalization>
 
   /** AMP4Email alternative part. Providers without AMP support ignore. */
@@ -137,8 +138,9 @@ export interface EmailMessage {
   locale?: string
 }
 
-/** Per-recipient personalization (SendGrid-native). Loops fall back
- *  to copies of the message for providers without native support. */
+/** Per-recipient personalization (SendGrid-native). For providers
+ *  without native support the core sends one copy of the message per
+ *  entry, substituting `variables` into `{{placeholders}}`. */
 export interface Personalization {
   to: EmailAddressInput
   cc?: EmailAddressInput
@@ -154,7 +156,10 @@ export interface DsnOptions {
   notify?: ReadonlyArray<"SUCCESS" | "FAILURE" | "DELAY" | "NEVER">
   ret?: "FULL" | "HDRS"
   envid?: string
-  orcpt?: string
+  /** Original recipient address (RFC 3461 §4.2), per envelope
+   *  recipient. A plain string is only sent when the message has
+   *  exactly one recipient. */
+  orcpt?: string | Readonly<Record<string, string>>
 }
 
 /** Provider-side template settings. `id` is required when the provider
@@ -193,6 +198,87 @@ export interface EmailResult {
   stream?: string
   at: Date
   provider?: Record<string, unknown>
+  /** Per-entry outcomes when the core expanded `msg.personalizations`
+   *  into one send each — index-aligned with the personalizations. The
+   *  top-level fields mirror the first send. If any copy failed the
+   *  send fails instead, with this `BatchResult` as the error `cause`. */
+  personalizations?: BatchResult
+}
+
+/** A server's verdict on one recipient, for drivers that see it per
+ *  address (SMTP `RCPT TO`). Reported on `EmailResult.provider.accepted`
+ *  / `.rejected`, and on the error `cause` when the send failed. */
+export interface RecipientOutcome {
+  email: string
+  /** Basic reply code — `250`, `550`, … */
+  code: number
+  /** RFC 3463 enhanced status code when the server sent one — `"5.1.1"`. */
+  status?: string
+  message: string
+}
+
+/** Outcome of a batch send — one `Result` per input message, so a single
+ *  bad address never hides what happened to the rest. `results[i]`
+ *  always belongs to `msgs[i]`; `sent` and `failed` are the same entries
+ *  partitioned with their input index, ready for a targeted retry:
+ *
+ *  ```ts
+ *  const { failed } = await email.sendBatch(msgs)
+ *  await email.sendBatch(failed.filter((f) => f.error.retryable).map((f) => msgs[f.index]!))
+ *  ```
+ */
+export interface BatchResult {
+  results: ReadonlyArray<Result<EmailResult>>
+  sent: ReadonlyArray<{ index: number; data: EmailResult }>
+  failed: ReadonlyArray<{ index: number; error: EmailError }>
+}
+
+/** Message accepted by `email.send()` and friends. `from` may be left
+ *  out when `createEmail({ defaults })` or the stream's `mount()`
+ *  defaults provide one. */
+export type EmailInput = Omit<EmailMessage, "from"> & { from?: EmailAddressInput }
+
+/** Fields applied to every message before middleware runs — set on
+ *  `createEmail({ defaults })` and per stream on `mount(…, { defaults })`.
+ *  Stream defaults layer over instance defaults, and the message over
+ *  both: `headers`, `tags`, `metadata` and `tracking` merge (same header
+ *  name, case-insensitively, or same tag name → the later layer wins);
+ *  `from`, `replyTo` and `unsubscribe` are replaced whole. */
+export interface MessageDefaults {
+  from?: EmailAddressInput
+  replyTo?: EmailAddressInput
+  headers?: Record<string, string>
+  tags?: ReadonlyArray<EmailTag>
+  metadata?: Record<string, string>
+  tracking?: TrackingOptions
+  unsubscribe?: UnsubscribeOptions
+}
+
+/** One node of a MIME parts tree. Multipart nodes carry `parts`; leaf
+ *  nodes carry their still-encoded `body`. */
+export interface MimePart {
+  /** Header names as written in the message, unfolded. */
+  headers: Record<string, string>
+  /** Media type without parameters, lower-cased (`multipart/mixed`). */
+  contentType: string
+  parts?: MimePart[]
+  body?: string
+}
+
+/** Output of `email.preview()` — the exact RFC 5322 message the
+ *  pipeline would hand to the transport, without sending it. */
+export interface EmailPreview {
+  /** The message after middleware (rendering, unsubscribe headers, …). */
+  message: EmailMessage
+  envelope: { from: string; rcpt: string[] }
+  /** Top-level headers of `eml`, including `DKIM-Signature` when signed. */
+  headers: Record<string, string>
+  parts: MimePart
+  /** The serialized message — save as `.eml` or diff in review. */
+  eml: string
+  /** One preview per expanded personalization; the top-level fields
+   *  mirror the first. */
+  personalizations?: EmailPreview[]
 }
 
 /** Machine-readable error taxonomy. Stable across drivers. */
@@ -205,6 +291,7 @@ export type EmailErrorCode =
   | "PROVIDER"
   | "UNSUPPORTED"
   | "CANCELLED"
+  | "NOT_FOUND"
 
 /** Resend-style discriminated union — one of `data` or `error` is always
  *  non-null. Narrowing on `error` gives you typed success data. */
@@ -229,6 +316,37 @@ export interface DriverFlags {
   cancelable?: boolean
   retrievable?: boolean
   personalizations?: boolean
+  /** Sends the `msg.amp` AMP4Email alternative part. */
+  amp?: boolean
+  /** Honors `msg.sandbox` / provider test mode. */
+  sandbox?: boolean
+  /** Accepts a pre-built `msg.raw` RFC 5322 message. */
+  raw?: boolean
+  /** Requests RFC 3461 delivery status notifications from `msg.dsn`. */
+  dsn?: boolean
+}
+
+/** Hard provider limits checked by the capability preflight
+ *  (`email.validate()`, `createEmail({ strict })`). Unset = unlimited
+ *  or unknown. */
+export interface DriverLimits {
+  /** Maximum `to` + `cc` + `bcc` addresses in a single message. */
+  maxRecipients?: number
+  /** Maximum encoded message size, attachments included, in bytes. */
+  maxMessageBytes?: number
+  /** Maximum messages per `sendBatch` request. */
+  maxBatchSize?: number
+}
+
+/** One finding from the capability preflight.
+ *  - `unsupported` — the driver rejects the feature or cannot deliver
+ *    the message as written.
+ *  - `degraded` — the message goes out, but the feature is dropped or
+ *    emulated (e.g. tags ignored, personalizations fanned out). */
+export interface CapabilityIssue {
+  feature: keyof DriverFlags | keyof DriverLimits
+  severity: "unsupported" | "degraded"
+  message: string
 }
 
 /** Status returned by `driver.retrieve(id)`. Mirrors the provider state
@@ -261,16 +379,17 @@ export interface SendStatus {
 export interface EmailDriver<TOpts = unknown, TInstance = unknown> {
   readonly name: string
   readonly flags?: DriverFlags
+  readonly limits?: DriverLimits
   readonly options?: TOpts
   getInstance?: () => TInstance
   initialize?: () => MaybePromise<void>
   dispose?: () => MaybePromise<void>
   isAvailable?: () => MaybePromise<boolean>
   send: (msg: EmailMessage, ctx: SendContext) => MaybePromise<Result<EmailResult>>
-  sendBatch?: (
-    msgs: ReadonlyArray<EmailMessage>,
-    ctx: SendContext,
-  ) => MaybePromise<Result<ReadonlyArray<EmailResult>>>
+  /** Send many messages in as few provider calls as possible. Must
+   *  return one entry per input message — map provider-side partial
+   *  failures to their index rather than failing the whole batch. */
+  sendBatch?: (msgs: ReadonlyArray<EmailMessage>, ctx: SendContext) => MaybePromise<BatchResult>
   /** Cancel a scheduled send. Optional — drivers without support are
    *  gated by `flags.cancelable`. */
   cancel?: (id: string) => MaybePromise<Result<void>>
@@ -293,13 +412,32 @@ export interface SendContext {
   attempt: number
   signal?: AbortSignal
   meta: Record<string, unknown>
+  /** Set when the pipeline runs for `email.preview()` — nothing will be
+   *  sent, so middleware with side effects (stores, counters, spans)
+   *  should pass straight through. */
+  preview?: boolean
 }
 
-/** Hook-based middleware. `onError` may recover and return a `Result`; the
- *  rest are observational. */
+/** Continue the send pipeline from inside `Middleware.around`. Pass a
+ *  replacement message to hand a modified copy downstream; omit it to
+ *  forward the current one. */
+export type SendNext = (msg?: EmailMessage) => Promise<Result<EmailResult>>
+
+/** Hook-based middleware. `around` wraps the driver call and may
+ *  short-circuit, retry, or rewrite the message; `onError` may recover
+ *  and return a `Result`; the rest are observational. */
 export interface Middleware {
   name?: string
+  /** Position in the pipeline — lower runs first (and outermost for
+   *  `around`). Ties keep registration order, instance-level middleware
+   *  ahead of stream-level. Default: 0. */
+  order?: number
   beforeSend?: (msg: EmailMessage, ctx: SendContext) => MaybePromise<void>
+  around?: (
+    msg: EmailMessage,
+    ctx: SendContext,
+    next: SendNext,
+  ) => MaybePromise<Result<EmailResult>>
   afterSend?: (
     msg: EmailMessage,
     ctx: SendContext,
@@ -313,12 +451,36 @@ export interface Middleware {
 }
 
 /** Key-value store used for the idempotency cache. Intentionally minimal so
- *  an `unstorage` adapter or a custom KV implementation can plug in. */
+ *  an `unstorage` adapter or a custom KV implementation can plug in.
+ *
+ *  `get` / `set` alone only dedupe sends that start after an earlier one
+ *  succeeded. Stores that also implement `acquire` / `release` guard the
+ *  in-flight window: the first caller takes a lease, concurrent callers
+ *  see it `pending` and wait for its result. */
 export interface IdempotencyStore {
   get: (key: string) => MaybePromise<EmailResult | null>
+  /** Record a successful send. Also ends any lease held on `key`. */
   set: (key: string, value: EmailResult, ttlSeconds?: number) => MaybePromise<void>
+  /** Claim `key` for `leaseSeconds`. Must be atomic across every process
+   *  sharing the store for the guarantee to hold. */
+  acquire?: (key: string, leaseSeconds: number) => MaybePromise<IdempotencyLease>
+  /** Drop the lease `token` holds without recording a result — the send
+   *  failed, so the next caller may try. No-op once `token` no longer
+   *  owns `key`. */
+  release?: (key: string, token: string) => MaybePromise<void>
 }
 
+/** Outcome of `IdempotencyStore.acquire()`.
+ *  - `acquired` — the caller owns `key` until `expiresAt` (epoch ms) and
+ *    must `set` or `release` it. `expired` marks a takeover of a lease
+ *    whose holder never finished.
+ *  - `pending` — another caller holds a live lease.
+ *  - `completed` — an earlier send succeeded with `result`. */
+export type IdempotencyLease =
+  | { status: "acquired"; token: string; expiresAt: number; expired?: boolean }
+  | { status: "pending"; expiresAt: number }
+  | { status: "completed"; result: EmailResult }
+
 /** Error raised by any part of the pipeline. Stable shape — drivers wrap
  *  unknown errors via `toEmailError()` in `./errors.ts`. */
 export class EmailError extends Error {
@@ -0,0 +1,316 @@
+import type { AuthResult } from "./index.ts"
+import type { DnsResolver } from "./_dns.ts"
+import type { ParsedHeader } from "../driver/_smtp/dkim.ts"
+import {
+  canonicalizeBodyRelaxed,
+  canonicalizeBodySimple,
+  canonicalizeHeaderRelaxed,
+  canonicalizeHeaderSimple,
+  parseHeaders,
+} from "../driver/_smtp/dkim.ts"
+import { isNoRecords, nodeDnsResolver } from "./_dns.ts"
+
+export interface DkimVerifyOptions {
+  /** Where `<selector>._domainkey.<domain>` TXT records come from.
+   *  Default: `node:dns`; use `dohResolver()` on Workers. */
+  resolver?: DnsResolver
+}
+
+/** Outcome of one `DKIM-Signature` header (RFC 8601 result values). */
+export interface DkimSignatureResult {
+  result: Extract<AuthResult, "pass" | "fail" | "temperror" | "permerror">
+  /** Why it didn't pass. */
+  reason?: string
+  /** Signing domain (`d=`). */
+  domain?: string
+  selector?: string
+  algorithm?: string
+  /** Agent or user identifier (`i=`). */
+  identity?: string
+  /** `l=`: only this many octets of the body are signed. */
+  bodyLength?: number
+  /** Signed header fields (`h=`). */
+  signedHeaders?: string[]
+}
+
+const REQUIRED_TAGS = {
+  dkim: ["v", "a", "b", "bh", "d", "h", "s"],
+  arc: ["i", "a", "b", "bh", "d", "h", "s"],
+}
+
+/** RFC 6376 verification of every `DKIM-Signature` on a raw message,
+ *  top to bottom. Signatures using `rsa-sha1` are refused (RFC 8301).
+ *  An empty array means the message isn't signed. */
+export async function verifyDkimSignatures(
+  raw: string | Uint8Array,
+  options: DkimVerifyOptions = {},
+): Promise<DkimSignatureResult[]> {
+  const { headers, body } = splitMessage(raw)
+  const lookup = keyLookup(options.resolver ?? nodeDnsResolver())
+  return Promise.all(
+    headers
+      .filter((header) => header.name.toLowerCase() === "dkim-signature")
+      .map((signature) => verifySignature(signature, headers, body, lookup)),
+  )
+}
+
+/** A message as one char per octet with CRLF line ends, split into
+ *  header fields and body. */
+export function splitMessage(raw: string | Uint8Array): {
+  headers: ParsedHeader[]
+  body: string
+} {
+  const message = binaryString(raw).replace(/\r?\n/g, "\r\n")
+  const sep = message.indexOf("\r\n\r\n")
+  return {
+    headers: parseHeaders(sep < 0 ? message : message.slice(0, sep)),
+    body: sep < 0 ? "" : message.slice(sep + 4),
+  }
+}
+
+export type KeyLookup = (name: string) => Promise<string[][]>
+
+/** TXT lookups through `resolver`, each name asked once. */
+export function keyLookup(resolver: DnsResolver): KeyLookup {
+  const keys = new Map<string, Promise<string[][]>>()
+  return (name) => {
+    if (!keys.has(name)) keys.set(name, resolver.resolveTxt(name))
+    return keys.get(name)!
+  }
+}
+
+/** Verify one `DKIM-Signature`, or with `profile` `arc` an
+ *  `ARC-Message-Signature` (RFC 8617 §4.1.2): no `v=`, `i=` is the
+ *  instance, and From needn't be signed. */
+export async function verifySignature(
+  signature: ParsedHeader,
+  headers: ReadonlyArray<ParsedHeader>,
+  body: string,
+  lookup: KeyLookup,
+  profile: "dkim" | "arc" = "dkim",
+): Promise<DkimSignatureResult> {
+  const tags = parseTags(signature.value)
+  if (!tags) return { result: "permerror", reason: "malformed signature" }
+  const signedHeaders = (tags.get("h") ?? "")
+    .split(":")
+    .map((name) => name.trim())
+    .filter(Boolean)
+  const info: Omit<DkimSignatureResult, "result"> = {
+    domain: tags.get("d")?.toLowerCase(),
+    selector: tags.get("s"),
+    algorithm: tags.get("a"),
+    ...(profile === "dkim" ? { identity: tags.get("i") } : {}),
+    signedHeaders,
+  }
+  const outcome = (result: DkimSignatureResult["result"], reason?: string) => ({
+    result,
+    ...(reason ? { reason } : {}),
+    ...info,
+  })
+
+  const missing = REQUIRED_TAGS[profile].filter((tag) => !tags.has(tag))
+  if (missing.length) return outcome("permerror", `missing ${missing.join(", ")}`)
+  if (profile === "dkim" && tags.get("v") !== "1")
+    return outcome("permerror", "unsupported version")
+  const algorithm = tags.get("a")!
+  if (algorithm !== "rsa-sha256" && algorithm !== "ed25519-sha256")
+    return outcome("permerror", `unsupported algorithm ${algorithm}`)
+  const [headerCanon = "simple", bodyCanon = "simple"] = (tags.get("c") ?? "simple").split("/")
+  if (![headerCanon, bodyCanon].every((c) => c === "simple" || c === "relaxed"))
+    return outcome("permerror", `unsupported canonicalization ${tags.get("c")}`)
+  if (profile === "dkim" && !signedHeaders.some((name) => name.toLowerCase() === "from"))
+    return outcome("permerror", "From is not signed")
+  const domain = info.domain!
+  const auid = info.identity?.slice(info.identity.lastIndexOf("@") + 1).toLowerCase()
+  if (auid !== undefined && auid !== domain && !auid.endsWith(`.${domain}`))
+    return outcome("permerror", "i= is outside d=")
+  let bodyLength: number | undefined
+  if (tags.has("l")) {
+    if (!/^\d+$/.test(tags.get("l")!)) return outcome("permerror", "malformed l=")
+    bodyLength = info.bodyLength = Number(tags.get("l"))
+  }
+  const expires = tags.get("x")
+  if (expires && Number(expires) * 1000 < Date.now()) return outcome("fail", "signature expired")
+
+  const key = await fetchKey(lookup, info.selector!, domain, algorithm)
+  if ("result" in key) return outcome(key.result, key.reason)
+  if (key.strict && auid !== undefined && auid !== domain)
+    return outcome("permerror", "key requires i= to equal d=")
+
+  let canonBody =
+    bodyCanon === "relaxed" ? canonicalizeBodyRelaxed(body) : canonicalizeBodySimple(body)
+  if (bodyLength !== undefined) {
+    if (bodyLength > canonBody.length) return outcome("fail", "l= exceeds body length")
+    canonBody = canonBody.slice(0, bodyLength)
+  }
+  if ((await sha256Base64(canonBody)) !== (tags.get("bh") ?? "").replace(/\s+/g, ""))
+    return outcome("fail", "body hash mismatch")
+
+  const canonHeader =
+    headerCanon === "relaxed" ? canonicalizeHeaderRelaxed : canonicalizeHeaderSimple
+  const signedData =
+    selectHeaders(headers, signedHeaders)
+      .map((header) => canonHeader(header.name, header.value))
+      .join("") + canonHeader(signature.name, stripSignature(signature.value)).replace(/\r\n$/, "")
+
+  let verified: boolean
+  try {
+    verified = await verifyBytes(
+      algorithm,
+      key.publicKey,
+      base64Bytes((tags.get("b") ?? "").replace(/\s+/g, "")),
+      bytes(signedData),
+    )
+  } catch {
+    return outcome("permerror", "unusable key or signature")
+  }
+  return verified ? outcome("pass") : outcome("fail", "signature did not verify")
+}
+
+/** The public key at `<selector>._domainkey.<domain>` (RFC 6376
+ *  §3.6.1), checked against the signature's algorithm. `strict` is the
+ *  `t=s` flag. */
+export async function fetchKey(
+  lookup: KeyLookup,
+  selector: string,
+  domain: string,
+  algorithm: "rsa-sha256" | "ed25519-sha256",
+): Promise<
+  { publicKey: Uint8Array; strict: boolean } | { result: "temperror" | "permerror"; reason: string }
+> {
+  let records: string[][]
+  try {
+    records = await lookup(`${selector}._domainkey.${domain}`)
+  } catch (error) {
+    return isNoRecords(error)
+      ? { result: "permerror", reason: "no key record" }
+      : { result: "temperror", reason: "key lookup failed" }
+  }
+  const key = records.map((strings) => parseTags(strings.join(""))).find(Boolean)
+  if (!key) return { result: "permerror", reason: "malformed key record" }
+  const keyType = key.get("k") ?? "rsa"
+  if (`${keyType}-sha256` !== algorithm) return { result: "permerror", reason: "key type mismatch" }
+  const publicKey = (key.get("p") ?? "").replace(/\s+/g, "")
+  if (!publicKey) return { result: "permerror", reason: "key revoked" }
+  const list = (tag: string) =>
+    key
+      .get(tag)
+      ?.split(":")
+      .map((item) => item.trim())
+  if (list("h") && !list("h")!.includes("sha256"))
+    return { result: "permerror", reason: "key forbids sha256" }
+  const services = list("s")
+  if (services && !services.includes("*") && !services.includes("email"))
+    return { result: "permerror", reason: "key is not for email" }
+  try {
+    return { publicKey: base64Bytes(publicKey), strict: list("t")?.includes("s") ?? false }
+  } catch {
+    return { result: "permerror", reason: "malformed key record" }
+  }
+}
+
+/** `tag=value` list (RFC 6376 §3.2); `null` when malformed or a tag
+ *  repeats. */
+export function parseTags(value: string): Map<string, string> | null {
+  const tags = new Map<string, string>()
+  for (const part of value.split(";")) {
+    const trimmed = part.trim()
+    if (!trimmed) continue
+    const eq = trimmed.indexOf("=")
+    if (eq < 0) return null
+    const name = trimmed.slice(0, eq).trim()
+    if (tags.has(name)) return null
+    tags.set(name, trimmed.slice(eq + 1).trim())
+  }
+  return tags
+}
+
+/** Header instances named by `h=`, each repeated name taking the next
+ *  instance up from the bottom (RFC 6376 §5.4.2). Names without an
+ *  instance left sign nothing. */
+export function selectHeaders(
+  headers: ReadonlyArray<ParsedHeader>,
+  names: ReadonlyArray<string>,
+): ParsedHeader[] {
+  const used = new Map<string, number>()
+  const out: ParsedHeader[] = []
+  for (const name of names) {
+    const lower = name.toLowerCase()
+    const instances = headers.filter((header) => header.name.toLowerCase() === lower)
+    const taken = used.get(lower) ?? 0
+    used.set(lower, taken + 1)
+    const header = instances[instances.length - 1 - taken]
+    if (header) out.push(header)
+  }
+  return out
+}
+
+/** The signature's own value with `b=` emptied, as it was signed. */
+export function stripSignature(value: string): string {
+  return value.replace(/(^|;)([ \t\r\n]*b[ \t\r\n]*=)[^;]*/, "$1$2")
+}
+
+export async function verifyBytes(
+  algorithm: "rsa-sha256" | "ed25519-sha256",
+  publicKey: Uint8Array,
+  signature: Uint8Array,
+  data: Uint8Array,
+): Promise<boolean> {
+  if (algorithm === "ed25519-sha256") {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      publicKey as BufferSource,
+      { name: "Ed25519" } as unknown as AlgorithmIdentifier,
+      false,
+      ["verify"],
+    )
+    // RFC 8463 §3: the signature covers the SHA-256 hash.
+    const hash = await crypto.subtle.digest("SHA-256", data as BufferSource)
+    return crypto.subtle.verify(
+      { name: "Ed25519" } as unknown as AlgorithmIdentifier,
+      key,
+      signature as BufferSource,
+      hash,
+    )
+  }
+  const key = await crypto.subtle.importKey(
+    "spki",
+    publicKey as BufferSource,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["verify"],
+  )
+  return crypto.subtle.verify(
+    { name: "RSASSA-PKCS1-v1_5" },
+    key,
+    signature as BufferSource,
+    data as BufferSource,
+  )
+}
+
+async function sha256Base64(value: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes(value) as BufferSource))
+  let s = ""
+  for (const b of digest) s += String.fromCharCode(b)
+  return btoa(s)
+}
+
+/** One char per octet, so canonicalization and `l=` work on the bytes
+ *  as sent whatever their charset. */
+function binaryString(raw: string | Uint8Array): string {
+  const octets = typeof raw === "string" ? new TextEncoder().encode(raw) : raw
+  let out = ""
+  for (let i = 0; i < octets.length; i += 0x8000)
+    out += String.fromCharCode(...octets.subarray(i, i + 0x8000))
+  return out
+}
+
+export function bytes(binary: string): Uint8Array {
+  const out = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i)
+  return out
+}
+
+function base64Bytes(value: string): Uint8Array {
+  return bytes(atob(value))
+}
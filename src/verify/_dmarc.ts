@@ -0,0 +1,171 @@
+import type { AuthResult } from "./index.ts"
+import type { DmarcRecord, DmarcReport } from "../dmarc/index.ts"
+import type { ParsedEmail } from "../parse/index.ts"
+import type { DkimSignatureResult } from "./_dkim.ts"
+import type { DnsResolver } from "./_dns.ts"
+import type { SpfResult } from "./_spf.ts"
+import { isNoRecords, nodeDnsResolver } from "./_dns.ts"
+import { organizationalDomain } from "./_psl.ts"
+
+type Disposition = NonNullable<DmarcRecord["disposition"]>
+type DmarcPolicy = NonNullable<DmarcReport["policy"]>
+
+export interface DmarcEvaluateOptions {
+  /** `verifyDkimSignatures` results for the message. */
+  dkim: ReadonlyArray<DkimSignatureResult>
+  /** `checkSpf` result for the SMTP session. */
+  spf: SpfResult
+  /** Default: `node:dns`; use `dohResolver()` on Workers. */
+  resolver?: DnsResolver
+  /** Registrable domain of a name. Default: the bundled Public Suffix
+   *  List snapshot; plug in a full PSL library for exotic suffixes. */
+  organizationalDomain?: (domain: string) => string
+  /** Source of the `pct=` sampling draw, in `[0, 1)`. Default:
+   *  `Math.random`; fix it for repeatable evaluations. */
+  random?: () => number
+}
+
+/** `evaluateDmarc`'s verdict. `disposition`, `dkim`, `spf` and
+ *  `headerFrom` mean what they do in an aggregate report's
+ *  `DmarcRecord`, so a row of your own is
+ *  `{ ...evaluation, sourceIp, count: 1 }`. */
+export interface DmarcEvaluation {
+  result: Extract<AuthResult, "pass" | "fail" | "none" | "temperror" | "permerror">
+  /** What the domain asks receivers to do with this message; `none`
+   *  unless it failed (or when `pct` sampled it out). */
+  disposition: Disposition
+  /** Whether a passing DKIM signature is aligned with `headerFrom`. */
+  dkim: NonNullable<DmarcRecord["dkim"]>
+  /** Whether a passing SPF check is aligned with `headerFrom`. */
+  spf: NonNullable<DmarcRecord["spf"]>
+  headerFrom?: string
+  /** Where the record was found: `headerFrom`, or its organizational
+   *  domain. */
+  policyDomain?: string
+  /** The published policy, as `policy_published` in reports. */
+  policy?: DmarcPolicy
+  /** `d=` of the aligned DKIM signature. */
+  dkimDomain?: string
+  /** SPF-authenticated domain, when aligned. */
+  spfDomain?: string
+  /** Why it didn't pass, or why the disposition was relaxed. */
+  reason?: string
+}
+
+/** RFC 7489 policy evaluation for an inbound message from its DKIM and
+ *  SPF results. */
+export async function evaluateDmarc(
+  mail: ParsedEmail,
+  options: DmarcEvaluateOptions,
+): Promise<DmarcEvaluation> {
+  const orgDomain = options.organizationalDomain ?? organizationalDomain
+  const headerFrom = mail.from?.email.slice(mail.from.email.lastIndexOf("@") + 1).toLowerCase()
+  const unaligned = { disposition: "none", dkim: "fail", spf: "fail" } as const
+  if (!headerFrom) return { result: "permerror", ...unaligned, reason: "no From domain" }
+
+  let found: { domain: string; tags: Map<string, string> } | null
+  try {
+    found = await discoverRecord(options.resolver ?? nodeDnsResolver(), headerFrom, orgDomain)
+  } catch {
+    return { result: "temperror", ...unaligned, headerFrom, reason: "DMARC lookup failed" }
+  }
+  if (!found) return { result: "none", ...unaligned, headerFrom }
+
+  const { domain: policyDomain, tags } = found
+  const policy: DmarcPolicy = {
+    p: disposition(tags.get("p")) ?? "none",
+    sp: disposition(tags.get("sp")),
+    adkim: tags.get("adkim") === "s" ? "s" : "r",
+    aspf: tags.get("aspf") === "s" ? "s" : "r",
+    pct: percent(tags.get("pct")),
+  }
+  const aligned = (domain: string, mode: "r" | "s" | undefined) =>
+    mode === "s"
+      ? domain.toLowerCase() === headerFrom
+      : orgDomain(domain.toLowerCase()) === orgDomain(headerFrom)
+
+  const dkimDomain = options.dkim.find(
+    (signature) =>
+      signature.result === "pass" && signature.domain && aligned(signature.domain, policy.adkim),
+  )?.domain
+  const spfDomain =
+    options.spf.result === "pass" && aligned(options.spf.domain, policy.aspf)
+      ? options.spf.domain
+      : undefined
+  const evaluation = {
+    headerFrom,
+    policyDomain,
+    policy,
+    dkim: dkimDomain ? "pass" : "fail",
+    spf: spfDomain ? "pass" : "fail",
+    ...(dkimDomain ? { dkimDomain } : {}),
+    ...(spfDomain ? { spfDomain } : {}),
+  } as const
+  if (dkimDomain || spfDomain) return { result: "pass", disposition: "none", ...evaluation }
+
+  // sp= covers subdomains whose policy came from the organizational domain.
+  const requested = policyDomain !== headerFrom ? (policy.sp ?? policy.p!) : policy.p!
+  const random = options.random ?? Math.random
+  if (requested !== "none" && random() * 100 >= policy.pct!) {
+    // §6.6.4: messages sampled out get the next less strict treatment.
+    return {
+      result: "fail",
+      disposition: requested === "reject" ? "quarantine" : "none",
+      ...evaluation,
+      reason: `sampled out by pct=${policy.pct}`,
+    }
+  }
+  return { result: "fail", disposition: requested, ...evaluation, reason: "no aligned pass" }
+}
+
+/** `_dmarc.<from>`, falling back to `_dmarc.<organizational domain>`
+ *  only when the former has no DMARC record (RFC 7489 §6.6.3): several
+ *  records, or one without a usable policy, end discovery. Throws when
+ *  DNS can't be asked. */
+async function discoverRecord(
+  resolver: DnsResolver,
+  headerFrom: string,
+  orgDomain: (domain: string) => string,
+): Promise<{ domain: string; tags: Map<string, string> } | null> {
+  const candidates = [headerFrom, orgDomain(headerFrom)]
+  for (const domain of new Set(candidates)) {
+    let records: string[][]
+    try {
+      records = await resolver.resolveTxt(`_dmarc.${domain}`)
+    } catch (error) {
+      if (isNoRecords(error)) continue
+      throw error
+    }
+    const dmarc = records
+      .map((strings) => strings.join(""))
+      .filter((text) => /^v\s*=\s*DMARC1\s*(;|$)/.test(text))
+    if (dmarc.length === 0) continue
+    if (dmarc.length > 1) return null
+    const tags = parseTags(dmarc[0]!)
+    // A record without a valid p= only counts when it asks for reports.
+    if (!disposition(tags.get("p")) && !tags.has("rua")) return null
+    return { domain, tags }
+  }
+  return null
+}
+
+function parseTags(record: string): Map<string, string> {
+  const tags = new Map<string, string>()
+  for (const part of record.split(";")) {
+    const eq = part.indexOf("=")
+    if (eq < 0) continue
+    const name = part.slice(0, eq).trim().toLowerCase()
+    if (!tags.has(name)) tags.set(name, part.slice(eq + 1).trim())
+  }
+  return tags
+}
+
+function disposition(value: string | undefined): Disposition | undefined {
+  const lower = value?.toLowerCase()
+  return lower === "none" || lower === "quarantine" || lower === "reject" ? lower : undefined
+}
+
+function percent(value: string | undefined): number {
+  const pct = value && /^\d+$/.test(value) ? Number(value) : 100
+  return Math.min(pct, 100)
+}
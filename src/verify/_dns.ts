@@ -0,0 +1,118 @@
+import { parseIp, reverseName } from "./_ip.ts"
+
+/** DNS lookups the verifiers need. Shaped like `node:dns/promises`, so
+ *  that module works as is; a lookup that finds no records rejects with
+ *  `code` `ENOTFOUND` (no such name) or `ENODATA` (no records of that
+ *  type), and anything else counts as a temporary failure. */
+export interface DnsResolver {
+  resolveTxt: (name: string) => Promise<string[][]>
+  /** The lookups below are only needed by `checkSpf`. */
+  resolve4?: (name: string) => Promise<string[]>
+  resolve6?: (name: string) => Promise<string[]>
+  resolveMx?: (name: string) => Promise<Array<{ exchange: string; priority: number }>>
+  /** PTR names for an IP address. */
+  reverse?: (ip: string) => Promise<string[]>
+}
+
+/** `node:dns`, loaded on first use so the module stays importable on
+ *  Workers. */
+export function nodeDnsResolver(): DnsResolver {
+  return {
+    async resolveTxt(name) {
+      const dns = await import("node:dns/promises")
+      return dns.resolveTxt(name)
+    },
+    async resolve4(name) {
+      const dns = await import("node:dns/promises")
+      return dns.resolve4(name)
+    },
+    async resolve6(name) {
+      const dns = await import("node:dns/promises")
+      return dns.resolve6(name)
+    },
+    async resolveMx(name) {
+      const dns = await import("node:dns/promises")
+      return dns.resolveMx(name)
+    },
+    async reverse(ip) {
+      const dns = await import("node:dns/promises")
+      return dns.reverse(ip)
+    },
+  }
+}
+
+export interface DohResolverOptions {
+  /** JSON DNS-over-HTTPS endpoint. Default: Cloudflare's
+   *  `https://cloudflare-dns.com/dns-query`. */
+  endpoint?: string
+  /** Default: global `fetch`. */
+  fetch?: typeof fetch
+  /** Default: 5000. */
+  timeoutMs?: number
+}
+
+/** DNS over HTTPS (the `application/dns-json` API Cloudflare and Google
+ *  serve), for runtimes without `node:dns`. */
+export function dohResolver(options: DohResolverOptions = {}): DnsResolver {
+  const endpoint = options.endpoint ?? "https://cloudflare-dns.com/dns-query"
+  const timeoutMs = options.timeoutMs ?? 5000
+
+  async function query(name: string, type: number): Promise<string[]> {
+    const url = `${endpoint}?name=${encodeURIComponent(name)}&type=${type}`
+    const res = await (options.fetch ?? fetch)(url, {
+      headers: { accept: "application/dns-json" },
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+    if (!res.ok) throw dnsError("ESERVFAIL", name, `HTTP ${res.status}`)
+    const body = (await res.json()) as {
+      Status: number
+      Answer?: Array<{ type: number; data: string }>
+    }
+    if (body.Status === 3) throw dnsError("ENOTFOUND", name)
+    if (body.Status !== 0) throw dnsError("ESERVFAIL", name, `rcode ${body.Status}`)
+    const answers = (body.Answer ?? []).filter((answer) => answer.type === type)
+    if (answers.length === 0) throw dnsError("ENODATA", name)
+    return answers.map((answer) => answer.data)
+  }
+
+  return {
+    async resolveTxt(name) {
+      return (await query(name, 16)).map(txtStrings)
+    },
+    resolve4: (name) => query(name, 1),
+    resolve6: (name) => query(name, 28),
+    async resolveMx(name) {
+      return (await query(name, 15)).map((data) => {
+        const [priority, exchange = ""] = data.split(/\s+/)
+        return { priority: Number(priority), exchange: exchange.replace(/\.$/, "") }
+      })
+    },
+    async reverse(ip) {
+      const address = parseIp(ip)
+      if (!address) throw dnsError("EINVAL", ip)
+      return (await query(reverseName(address), 12)).map((name) => name.replace(/\.$/, ""))
+    },
+  }
+}
+
+/** The character-strings of a TXT answer in presentation format
+ *  (`"v=DKIM1; k=rsa; " "p=MIIB…"`). */
+function txtStrings(data: string): string[] {
+  const strings = [...data.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((match) =>
+    match[1]!.replace(/\\(\d{3}|.)/g, (_, escaped: string) =>
+      escaped.length === 3 ? String.fromCharCode(Number(escaped)) : escaped,
+    ),
+  )
+  return strings.length ? strings : [data]
+}
+
+function dnsError(code: string, name: string, detail?: string): Error {
+  return Object.assign(new Error(`${code} ${name}${detail ? ` (${detail})` : ""}`), { code })
+}
+
+/** Whether a lookup error means "no such record" rather than "couldn't
+ *  ask". */
+export function isNoRecords(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code
+  return code === "ENOTFOUND" || code === "ENODATA"
+}
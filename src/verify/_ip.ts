@@ -0,0 +1,65 @@
+/** An address as network-order octets: 4 for IPv4, 16 for IPv6. An
+ *  IPv4-mapped IPv6 address (`::ffff:192.0.2.1`) comes back as IPv4. */
+export function parseIp(ip: string): Uint8Array | null {
+  const v4 = parseIpv4(ip)
+  if (v4) return v4
+  const v6 = parseIpv6(ip)
+  if (!v6) return null
+  const mapped = v6.subarray(0, 10).every((b) => b === 0) && v6[10] === 0xff && v6[11] === 0xff
+  return mapped ? v6.slice(12) : v6
+}
+
+function parseIpv4(ip: string): Uint8Array | null {
+  const parts = ip.split(".")
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p) && Number(p) <= 255))
+    return null
+  return Uint8Array.from(parts, Number)
+}
+
+function parseIpv6(ip: string): Uint8Array | null {
+  let text = ip.replace(/^\[|\]$/g, "")
+  const out = new Uint8Array(16)
+  // Trailing dotted quad (`::ffff:192.0.2.1`) becomes two groups.
+  const quad = /(?:^|:)(\d+\.\d+\.\d+\.\d+)$/.exec(text)
+  if (quad) {
+    const v4 = parseIpv4(quad[1]!)
+    if (!v4) return null
+    text = `${text.slice(0, text.length - quad[1]!.length)}${((v4[0]! << 8) | v4[1]!).toString(16)}:${((v4[2]! << 8) | v4[3]!).toString(16)}`
+  }
+  const halves = text.split("::")
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(":") : []
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : []
+  const groups = halves.length === 2 ? 8 - head.length - tail.length : 0
+  if (halves.length === 1 ? head.length !== 8 : groups < 1) return null
+  const all = [...head, ...Array<string>(groups).fill("0"), ...tail]
+  for (const [i, group] of all.entries()) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null
+    const value = Number.parseInt(group, 16)
+    out[i * 2] = value >> 8
+    out[i * 2 + 1] = value & 0xff
+  }
+  return out
+}
+
+/** Whether the first `prefix` bits of two same-family addresses match. */
+export function inNetwork(address: Uint8Array, network: Uint8Array, prefix: number): boolean {
+  if (address.length !== network.length) return false
+  for (let bit = 0; bit < prefix; bit += 8) {
+    const mask = prefix - bit >= 8 ? 0xff : (0xff << (8 - (prefix - bit))) & 0xff
+    if ((address[bit / 8]! & mask) !== (network[bit / 8]! & mask)) return false
+  }
+  return true
+}
+
+/** IPv4 dotted, IPv6 as 32 dot-separated nibbles (RFC 7208 `%{i}`). */
+export function dottedIp(address: Uint8Array): string {
+  if (address.length === 4) return address.join(".")
+  return [...address].flatMap((b) => [(b >> 4).toString(16), (b & 15).toString(16)]).join(".")
+}
+
+/** The `in-addr.arpa` / `ip6.arpa` name PTR records live under. */
+export function reverseName(address: Uint8Array): string {
+  const labels = dottedIp(address).split(".").reverse().join(".")
+  return `${labels}.${address.length === 4 ? "in-addr" : "ip6"}.arpa`
+}
@@ -0,0 +1,103 @@
+/** Snapshot of the Public Suffix List (https://publicsuffix.org) —
+ *  multi-label rules only, grouped by TLD; a domain no rule covers falls
+ *  back to the list's implicit `*` rule (its TLD is the suffix). Enough
+ *  for DMARC's organizational domain on common registries; pass your own
+ *  `organizationalDomain` to `evaluateDmarc` for the full list. */
+const SNAPSHOT = `
+ar com edu gob gov int mil net org tur
+at ac co gv or
+au asn com edu gov id net org
+bd *
+br adv agr am arq art blog com coop eco edu eng esp etc far fm gov ind inf jor jus leg mat med mil mus net nom not ntr odo org pro psc psi rec srv tmp tur tv vet wiki
+ck * !www
+cl co gob gov mil
+cn ac com edu gov mil net org
+co com edu gov mil net nom org
+cy ac biz com ekloges gov ltd mil net org press pro tm
+ec com edu fin gob gov info k12 med mil net org pro
+eg com edu eun gov mil name net org sci
+er *
+es com edu gob nom org
+fk *
+fr asso com gouv nom prd tm
+gh com edu gov mil org
+hk com edu gov idv net org
+id ac biz co desa go mil my net or sch web
+il ac co gov idf k12 muni net org
+in ac co edu firm gen gov ind mil net nic org res
+jm *
+jp ac ad co ed go gr lg ne or
+ke ac co go info me mobi ne or sc
+kh *
+kr ac co es go hs kg mil ne or pe re sc
+mm *
+mx com edu gob net org
+my biz com edu gov mil name net org
+ng com edu gov i mil mobi name net org sch
+np *
+nz ac co geek gen govt health iwi kiwi maori mil net org parliament school
+pe com edu gob mil net nom org
+pg *
+ph com edu gov i mil net ngo org
+pk biz com edu fam gob gok gon gop gos gov info net org web
+pl biz com edu gov info net org waw
+sg com edu gov net org per
+th ac co go in mi net or
+tr av bbs bel biz com dr edu gen gov info k12 kep mil name net org pol tel tv web
+tw club com ebiz edu game gov idv mil net org
+ua com edu gov in net org
+uk ac co gov ltd me net nhs org plc police sch
+uy com edu gub mil net org
+ve co com edu gob info mil net org web
+vn ac biz com edu gov health info int name net org pro
+za ac co edu gov law mil net nom org school web
+app netlify vercel web
+com appspot blogspot herokuapp
+dev pages workers
+io github gitlab
+net azurewebsites cloudfront
+`
+
+interface Rules {
+  exact: Set<string>
+  wildcard: Set<string>
+  exception: Set<string>
+}
+
+let rules: Rules | undefined
+
+function loadRules(): Rules {
+  const exact = new Set<string>()
+  const wildcard = new Set<string>()
+  const exception = new Set<string>()
+  for (const line of SNAPSHOT.trim().split("\n")) {
+    const [tld, ...labels] = line.split(" ")
+    for (const label of labels) {
+      if (label === "*") wildcard.add(tld!)
+      else if (label.startsWith("!")) exception.add(`${label.slice(1)}.${tld}`)
+      else exact.add(`${label}.${tld}`)
+    }
+  }
+  return { exact, wildcard, exception }
+}
+
+/** The registrable part of `domain`: its public suffix plus one label
+ *  (RFC 7489 §3.2). A public suffix itself is returned as is. */
+export function organizationalDomain(domain: string): string {
+  rules ??= loadRules()
+  const labels = domain.toLowerCase().replace(/\.$/, "").split(".")
+  let suffix = 1
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join(".")
+    const parent = labels.slice(i + 1).join(".")
+    if (rules.exception.has(candidate)) {
+      suffix = labels.length - i - 1
+      break
+    }
+    if (rules.exact.has(candidate) || rules.wildcard.has(parent)) {
+      suffix = labels.length - i
+      break
+    }
+  }
+  return labels.slice(Math.max(0, labels.length - suffix - 1)).join(".")
+}
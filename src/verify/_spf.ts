@@ -0,0 +1,402 @@
+import type { AuthResult } from "./index.ts"
+import type { DnsResolver } from "./_dns.ts"
+import { isNoRecords, nodeDnsResolver } from "./_dns.ts"
+import { dottedIp, inNetwork, parseIp } from "./_ip.ts"
+
+export interface SpfInput {
+  /** Connecting client's IP address. */
+  ip: string
+  /** `MAIL FROM` address. Empty for bounces, which are checked as
+   *  `postmaster@<helo>`. */
+  mailFrom?: string
+  /** `HELO`/`EHLO` name. */
+  helo: string
+}
+
+export interface SpfOptions {
+  /** Needs `resolveTxt`, `resolve4`, `resolve6` and `resolveMx`, plus
+   *  `reverse` for `ptr`. Default: `node:dns`; use `dohResolver()` on
+   *  Workers. */
+  resolver?: DnsResolver
+  /** This host's name, for `%{r}` in explanations. Default: `unknown`. */
+  receiver?: string
+}
+
+export interface SpfResult {
+  result: AuthResult
+  /** Domain checked: the `MAIL FROM` domain, or the HELO name for
+   *  bounces. This is the identifier DMARC aligns. */
+  domain: string
+  /** The directive that matched, e.g. `-all` or `include:_spf.example.net`. */
+  mechanism?: string
+  /** The domain's `exp=` text, on `fail`. */
+  explanation?: string
+  /** How the result was reached, one step per line. */
+  trace: string[]
+}
+
+/** RFC 7208 §4.6.4: at most 10 DNS-querying terms, and 2 of them coming
+ *  back empty, per check. */
+const MAX_LOOKUPS = 10
+const MAX_VOID_LOOKUPS = 2
+const MAX_MX = 10
+const MAX_PTR = 10
+
+const QUALIFIERS: Record<string, AuthResult> = {
+  "+": "pass",
+  "-": "fail",
+  "~": "softfail",
+  "?": "neutral",
+}
+
+/** Ends the check with `result` (RFC 7208 §2.6). */
+class SpfAbort extends Error {
+  readonly result: "temperror" | "permerror"
+
+  constructor(result: "temperror" | "permerror", message: string) {
+    super(message)
+    this.result = result
+  }
+}
+
+interface Check {
+  address: Uint8Array
+  sender: string
+  helo: string
+  receiver: string
+  resolver: DnsResolver
+  lookups: number
+  voids: number
+  trace: string[]
+}
+
+/** Evaluate the SPF policy of the `MAIL FROM` domain (RFC 7208
+ *  `check_host()`) for a client IP. */
+export async function checkSpf(input: SpfInput, options: SpfOptions = {}): Promise<SpfResult> {
+  const sender = input.mailFrom?.includes("@")
+    ? input.mailFrom
+    : `postmaster@${input.mailFrom || input.helo}`
+  const domain = sender.slice(sender.lastIndexOf("@") + 1).toLowerCase()
+  const address = parseIp(input.ip)
+  if (!address) return { result: "permerror", domain, trace: [`${input.ip} is not an IP address`] }
+  const check: Check = {
+    address,
+    sender,
+    helo: input.helo,
+    receiver: options.receiver ?? "unknown",
+    resolver: options.resolver ?? nodeDnsResolver(),
+    lookups: 0,
+    voids: 0,
+    trace: [],
+  }
+  try {
+    return { ...(await checkHost(check, domain)), domain, trace: check.trace }
+  } catch (error) {
+    if (!(error instanceof SpfAbort)) throw error
+    check.trace.push(error.message)
+    return { result: error.result, domain, trace: check.trace }
+  }
+}
+
+async function checkHost(check: Check, domain: string): Promise<Omit<SpfResult, "trace">> {
+  if (!isDomain(domain)) {
+    check.trace.push(`${domain}: not a valid domain`)
+    return { result: "none", domain }
+  }
+  const record = await fetchRecord(check, domain)
+  if (!record) {
+    check.trace.push(`${domain}: no SPF record`)
+    return { result: "none", domain }
+  }
+  check.trace.push(`${domain}: ${record}`)
+  const { directives, redirect, exp } = parseRecord(domain, record)
+
+  for (const directive of directives) {
+    if (!(await matches(check, domain, directive))) continue
+    const result = QUALIFIERS[directive.qualifier]!
+    check.trace.push(`${domain}: ${directive.term} matched, ${result}`)
+    const explanation = result === "fail" && exp ? await explain(check, domain, exp) : undefined
+    return { result, domain, mechanism: directive.term, ...(explanation ? { explanation } : {}) }
+  }
+
+  if (redirect !== undefined) {
+    countLookup(check, domain)
+    const target = expand(check, domain, redirect)
+    check.trace.push(`${domain}: redirect=${target}`)
+    const redirected = await checkHost(check, target)
+    if (redirected.result === "none")
+      throw new SpfAbort("permerror", `${target}: redirect target has no SPF record`)
+    return redirected
+  }
+  check.trace.push(`${domain}: nothing matched, neutral`)
+  return { result: "neutral", domain }
+}
+
+/** The one `v=spf1` TXT record at `domain`, or `null`. */
+async function fetchRecord(check: Check, domain: string): Promise<string | null> {
+  let records: string[][]
+  try {
+    records = await check.resolver.resolveTxt(domain)
+  } catch (error) {
+    if (isNoRecords(error)) return null
+    throw new SpfAbort("temperror", `${domain}: TXT lookup failed`)
+  }
+  const spf = records
+    .map((strings) => strings.join(""))
+    .filter((text) => /^v=spf1(?: |$)/i.test(text))
+  if (spf.length > 1) throw new SpfAbort("permerror", `${domain}: multiple SPF records`)
+  return spf[0] ?? null
+}
+
+interface Directive {
+  term: string
+  qualifier: string
+  mechanism: string
+  /** Domain-spec after `:`, unexpanded. */
+  target?: string
+  /** `/n` (the prefix of `ip4`/`ip6`, or the IPv4 prefix of `a`/`mx`). */
+  cidr?: number
+  /** `//n`: the IPv6 prefix of `a`/`mx`. */
+  cidr6?: number
+}
+
+function parseRecord(
+  domain: string,
+  record: string,
+): { directives: Directive[]; redirect?: string; exp?: string } {
+  const directives: Directive[] = []
+  const modifiers = new Map<string, string>()
+  for (const term of record.split(/ +/).slice(1)) {
+    if (!term) continue
+    const modifier = /^([a-z][a-z0-9_.-]*)=(.*)$/i.exec(term)
+    if (modifier) {
+      const name = modifier[1]!.toLowerCase()
+      if ((name === "redirect" || name === "exp") && modifiers.has(name))
+        throw new SpfAbort("permerror", `${domain}: more than one ${name}=`)
+      modifiers.set(name, modifier[2]!)
+      continue
+    }
+    const match = /^([+\-~?]?)([a-z0-9]+)(?::([^/]+))?(?:\/(\d+))?(?:\/\/(\d+))?$/i.exec(term)
+    const mechanism = match?.[2]!.toLowerCase()
+    if (!match || !mechanism || !isValidDirective(mechanism, match))
+      throw new SpfAbort("permerror", `${domain}: invalid term ${term}`)
+    directives.push({
+      term,
+      qualifier: match[1] || "+",
+      mechanism,
+      target: match[3],
+      ...(match[4] !== undefined ? { cidr: Number(match[4]) } : {}),
+      ...(match[5] !== undefined ? { cidr6: Number(match[5]) } : {}),
+    })
+  }
+  return { directives, redirect: modifiers.get("redirect"), exp: modifiers.get("exp") }
+}
+
+function isValidDirective(mechanism: string, match: RegExpExecArray): boolean {
+  const [, , , target, cidr, cidr6] = match
+  const hasCidr = cidr !== undefined || cidr6 !== undefined
+  if (Number(cidr ?? 0) > (mechanism === "ip6" ? 128 : 32) || Number(cidr6 ?? 0) > 128) return false
+  switch (mechanism) {
+    case "all":
+      return !target && !hasCidr
+    case "include":
+    case "exists":
+      return !!target && !hasCidr
+    case "ptr":
+      return !hasCidr
+    case "a":
+    case "mx":
+      return true
+    case "ip4":
+    case "ip6":
+      return !!target && cidr6 === undefined
+    default:
+      return false
+  }
+}
+
+async function matches(check: Check, domain: string, directive: Directive): Promise<boolean> {
+  const target = directive.target ? expand(check, domain, directive.target) : domain
+  switch (directive.mechanism) {
+    case "all":
+      return true
+    case "ip4":
+    case "ip6": {
+      const network = parseIp(directive.target!)
+      const family = directive.mechanism === "ip4" ? 4 : 16
+      if (!network || network.length !== family)
+        throw new SpfAbort("permerror", `${domain}: invalid ${directive.term}`)
+      return inNetwork(check.address, network, directive.cidr ?? family * 8)
+    }
+    case "a":
+      countLookup(check, domain)
+      return matchesAddresses(check, await lookupAddresses(check, target), directive)
+    case "mx": {
+      countLookup(check, domain)
+      const exchanges = await lookup<{ exchange: string }>(check, target, "resolveMx")
+      if (exchanges.length > MAX_MX)
+        throw new SpfAbort("permerror", `${target}: more than ${MAX_MX} MX records`)
+      for (const { exchange } of exchanges) {
+        if (matchesAddresses(check, await lookupAddresses(check, exchange), directive)) return true
+      }
+      return false
+    }
+    case "ptr":
+      countLookup(check, domain)
+      return matchesPtr(check, target)
+    case "include": {
+      countLookup(check, domain)
+      check.trace.push(`${domain}: include:${target}`)
+      const included = await checkHost(check, target)
+      if (included.result === "temperror" || included.result === "permerror")
+        throw new SpfAbort(included.result, `${target}: include ended in ${included.result}`)
+      if (included.result === "none")
+        throw new SpfAbort("permerror", `${target}: included domain has no SPF record`)
+      return included.result === "pass"
+    }
+    case "exists":
+      countLookup(check, domain)
+      return (await lookup<string>(check, target, "resolve4")).length > 0
+    default:
+      return false
+  }
+}
+
+function matchesAddresses(check: Check, addresses: string[], directive: Directive): boolean {
+  const prefix = check.address.length === 4 ? (directive.cidr ?? 32) : (directive.cidr6 ?? 128)
+  return addresses.some((ip) => {
+    const network = parseIp(ip)
+    return !!network && inNetwork(check.address, network, prefix)
+  })
+}
+
+/** RFC 7208 §5.5: a PTR name counts when it resolves back to the client
+ *  IP and sits at or under `target`. */
+async function matchesPtr(check: Check, target: string): Promise<boolean> {
+  const names = (await lookup<string>(check, formatIp(check.address), "reverse")).slice(0, MAX_PTR)
+  const suffix = target.toLowerCase()
+  for (const name of names) {
+    const lower = name.toLowerCase().replace(/\.$/, "")
+    if (lower !== suffix && !lower.endsWith(`.${suffix}`)) continue
+    const forward = await lookupAddresses(check, lower, false)
+    if (forward.some((ip) => sameAddress(parseIp(ip), check.address))) return true
+  }
+  return false
+}
+
+function formatIp(address: Uint8Array): string {
+  if (address.length === 4) return address.join(".")
+  const groups: string[] = []
+  for (let i = 0; i < 16; i += 2) groups.push(((address[i]! << 8) | address[i + 1]!).toString(16))
+  return groups.join(":")
+}
+
+function sameAddress(a: Uint8Array | null, b: Uint8Array): boolean {
+  return !!a && a.length === b.length && a.every((byte, i) => byte === b[i])
+}
+
+/** A or AAAA records of `name`, matching the client's address family. */
+function lookupAddresses(check: Check, name: string, countVoid = true): Promise<string[]> {
+  return lookup<string>(
+    check,
+    name,
+    check.address.length === 4 ? "resolve4" : "resolve6",
+    countVoid,
+  )
+}
+
+async function lookup<T>(
+  check: Check,
+  name: string,
+  method: "resolve4" | "resolve6" | "resolveMx" | "reverse",
+  countVoid = true,
+): Promise<T[]> {
+  const resolve = check.resolver[method] as ((name: string) => Promise<T[]>) | undefined
+  if (!resolve) throw new SpfAbort("temperror", `resolver has no ${method}()`)
+  try {
+    return await resolve.call(check.resolver, name)
+  } catch (error) {
+    if (!isNoRecords(error)) throw new SpfAbort("temperror", `${name}: ${method} failed`)
+    if (countVoid && ++check.voids > MAX_VOID_LOOKUPS)
+      throw new SpfAbort("permerror", `more than ${MAX_VOID_LOOKUPS} void lookups`)
+    return []
+  }
+}
+
+function countLookup(check: Check, domain: string): void {
+  if (++check.lookups > MAX_LOOKUPS)
+    throw new SpfAbort("permerror", `${domain}: more than ${MAX_LOOKUPS} DNS lookups`)
+}
+
+/** `exp=` text for a `fail`; problems fetching it just mean no
+ *  explanation (RFC 7208 §6.2). */
+async function explain(check: Check, domain: string, exp: string): Promise<string | undefined> {
+  try {
+    const records = await check.resolver.resolveTxt(expand(check, domain, exp))
+    if (records.length !== 1) return undefined
+    return expand(check, domain, records[0]!.join(""), true)
+  } catch {
+    return undefined
+  }
+}
+
+const MACRO = /%(?:\{([a-z])(\d*)(r?)([.\-+,/_=]*)\}|([%_-]))|%/gi
+
+/** RFC 7208 §7 macro expansion. Domain-specs are shortened from the
+ *  left to 253 characters; `%{p}` is always `unknown`. */
+function expand(check: Check, domain: string, spec: string, explanation = false): string {
+  const at = check.sender.lastIndexOf("@")
+  const values: Record<string, string> = {
+    s: check.sender,
+    l: check.sender.slice(0, at) || "postmaster",
+    o: check.sender.slice(at + 1),
+    d: domain,
+    i: dottedIp(check.address),
+    p: "unknown",
+    v: check.address.length === 4 ? "in-addr" : "ip6",
+    h: check.helo,
+  }
+  if (explanation) {
+    values.c = formatIp(check.address)
+    values.r = check.receiver
+    values.t = Math.floor(Date.now() / 1000).toString()
+  }
+  const out = spec.replace(
+    MACRO,
+    (
+      whole,
+      letter?: string,
+      digits?: string,
+      reverse?: string,
+      delimiters?: string,
+      escape?: string,
+    ) => {
+      if (escape) return escape === "%" ? "%" : escape === "_" ? " " : "%20"
+      const value = letter ? values[letter.toLowerCase()] : undefined
+      if (value === undefined || digits === "0")
+        throw new SpfAbort("permerror", `${domain}: invalid macro ${whole}`)
+      let parts = value.split(new RegExp(`[${escapeClass(delimiters || ".")}]`))
+      if (reverse) parts.reverse()
+      if (digits) parts = parts.slice(-Number(digits))
+      const joined = parts.join(".")
+      return letter === letter!.toUpperCase() ? encodeURIComponent(joined) : joined
+    },
+  )
+  if (explanation) return out
+  let trimmed = out.replace(/\.$/, "")
+  while (trimmed.length > 253 && trimmed.includes("."))
+    trimmed = trimmed.slice(trimmed.indexOf(".") + 1)
+  return trimmed
+}
+
+function escapeClass(chars: string): string {
+  return chars.replace(/[\\\]\-^]/g, "\\$&")
+}
+
+function isDomain(domain: string): boolean {
+  return (
+    domain.length <= 253 &&
+    domain.includes(".") &&
+    domain.split(".").every((label) => label.length > 0 && label.length <= 63)
+  )
+}
@@ -1,16 +1,44 @@
 /**
- * Minimal ARC (RFC 8617) signer — ships just enough to produce a
- * valid ARC-Set (ARC-Authentication-Results, ARC-Message-Signature,
- * ARC-Seal) for an intermediary. Uses Web Crypto, no deps.
- *
- * Scope: sign-only. Verification happens at the final receiver; this
- * module helps the middle hop preserve auth-chain provenance.
+ * ARC (RFC 8617) for forwarders and receivers. `signArc` produces the
+ * ARC-Set (ARC-Authentication-Results, ARC-Message-Signature, ARC-Seal)
+ * an intermediary adds; `verifyArc` validates the chain a message
+ * arrives with, so a receiver can honour the authentication results a
+ * trusted forwarder saw before it changed the message. Uses Web Crypto,
+ * no deps.
  *
  * @module
  */
 
+import type { ParsedHeader } from "../driver/_smtp/dkim.ts"
+import type { AuthenticationResults } from "./index.ts"
+import type { DkimSignatureResult } from "./_dkim.ts"
+import type { DnsResolver } from "./_dns.ts"
+import {
+  canonicalizeBodyRelaxed,
+  canonicalizeHeaderRelaxed,
+  importKey,
+  parseHeaders,
+  signBytes,
+} from "../driver/_smtp/dkim.ts"
+import { parseAuthenticationResults } from "./index.ts"
+import {
+  bytes,
+  fetchKey,
+  keyLookup,
+  parseTags,
+  selectHeaders,
+  splitMessage,
+  stripSignature,
+  verifyBytes,
+  verifySignature,
+} from "./_dkim.ts"
+import { nodeDnsResolver } from "./_dns.ts"
+
 export type ArcAlgorithm = "rsa-sha256" | "ed25519-sha256"
 
+/** Chain validation status (RFC 8617 §4.4). */
+export type ArcChainStatus = "none" | "pass" | "fail"
+
 export interface ArcSignerOptions {
   selector: string
   domain: string
@@ -24,6 +52,9 @@ export interface ArcSignerOptions {
   authResults: string
   /** Headers to include in the ARC-Message-Signature body. */
   signedHeaders?: ReadonlyArray<string>
+  /** Status of the chain the message arrived with — `cv` from
+   *  `verifyArc`. Default: `none` at instance 1, `pass` after. */
+  cv?: ArcChainStatus
 }
 
 export interface ArcHeaders {
@@ -34,152 +65,251 @@ export interface ArcHeaders {
 
 /** Produce the three ARC headers for one hop. Caller prepends them to
  *  the outgoing message headers. Returns strings without trailing
- *  CRLF. */
+ *  CRLF. The seal covers the ARC sets already on `message`. */
 export async function signArc(message: string, options: ArcSignerOptions): Promise<ArcHeaders> {
   const alg = options.algorithm ?? "rsa-sha256"
   const { instance, selector, domain, authResults } = options
   const sep = message.indexOf("\r\n\r\n")
   if (sep < 0) throw new Error("[unemail/arc] message must contain CRLF CRLF separator")
-  const headersBlock = message.slice(0, sep)
+  const headers = parseHeaders(message.slice(0, sep))
   const body = message.slice(sep + 4)
+  const signedHeaders = options.signedHeaders ?? ["From", "To", "Subject", "Date"]
+  const key = await importKey(options.privateKey, alg)
+  const sign = async (data: string) =>
+    bytesToBase64(await signBytes(key, alg, new TextEncoder().encode(data)))
+  const t = Math.floor(Date.now() / 1000).toString()
 
-  const authLine = `ARC-Authentication-Results: i=${instance}; ${authResults}`
-  const bodyHash = await sha256Base64(canonBody(body))
-
-  const amsFields = {
+  const aar = `i=${instance}; ${authResults}`
+  const amsUnsigned = serializeFields({
     i: String(instance),
     a: alg,
     c: "relaxed/relaxed",
     d: domain,
     s: selector,
-    t: Math.floor(Date.now() / 1000).toString(),
-    bh: bodyHash,
-    h: (options.signedHeaders ?? ["From", "To", "Subject", "Date"]).join(":"),
+    t,
+    bh: await sha256Base64(canonicalizeBodyRelaxed(body)),
+    h: signedHeaders.join(":"),
     b: "",
-  }
-  const amsValue = serializeFields(amsFields)
-  const amsHeader = `ARC-Message-Signature: ${amsValue}`
-  const amsSig = await signHeader(
-    message,
-    amsHeader,
-    options.signedHeaders ?? ["From", "To", "Subject", "Date"],
-    options.privateKey,
-    alg,
-    headersBlock,
-  )
-  const amsFinal = `ARC-Message-Signature: ${amsValue.replace(/b=$/, `b=${amsSig}`)}`
+  })
+  const ams =
+    amsUnsigned +
+    (await sign(
+      selectHeaders(headers, signedHeaders)
+        .map((h) => canonicalizeHeaderRelaxed(h.name, h.value))
+        .join("") + unterminated("ARC-Message-Signature", amsUnsigned),
+    ))
 
-  const asFields = {
+  const sealUnsigned = serializeFields({
     i: String(instance),
     a: alg,
-    cv: instance === 1 ? "none" : "pass",
+    cv: options.cv ?? (instance === 1 ? "none" : "pass"),
     d: domain,
     s: selector,
-    t: Math.floor(Date.now() / 1000).toString(),
+    t,
     b: "",
-  }
-  const asValue = serializeFields(asFields)
-  const asBase = `${authLine}\r\n${amsFinal}\r\nARC-Seal: ${asValue}`
-  const asSig = await signString(asBase.replace(/b=$/, "b="), options.privateKey, alg)
-  const asFinal = `ARC-Seal: ${asValue.replace(/b=$/, `b=${asSig}`)}`
+  })
+  const prior = collectSets(headers)
+  const chain =
+    typeof prior === "string"
+      ? []
+      : [...prior.values()].filter((set) => set.instance < instance).map(setValues)
+  const seal = sealUnsigned + (await sign(sealInput([...chain, { aar, ams, seal: sealUnsigned }])))
 
   return {
-    "ARC-Authentication-Results": authLine.slice("ARC-Authentication-Results: ".length),
-    "ARC-Message-Signature": amsFinal.slice("ARC-Message-Signature: ".length),
-    "ARC-Seal": asFinal.slice("ARC-Seal: ".length),
+    "ARC-Authentication-Results": aar,
+    "ARC-Message-Signature": ams,
+    "ARC-Seal": seal,
   }
 }
 
-async function signHeader(
-  _message: string,
-  _amsHeader: string,
-  signed: ReadonlyArray<string>,
-  key: string | CryptoKey,
-  alg: ArcAlgorithm,
-  headersBlock: string,
-): Promise<string> {
-  const parsed = parseHeaders(headersBlock)
-  const canon = signed
-    .map((n) => parsed.find((h) => h.name.toLowerCase() === n.toLowerCase()))
-    .filter((h): h is { name: string; value: string } => Boolean(h))
-    .map(
-      (h) =>
-        `${h.name.toLowerCase()}:${h.value
-          .replace(/\r\n/g, "")
-          .replace(/[ \t]+/g, " ")
-          .trim()}\r\n`,
-    )
-    .join("")
-  return signString(canon, key, alg)
-}
-
-async function signString(
-  value: string,
-  key: string | CryptoKey,
-  alg: ArcAlgorithm,
-): Promise<string> {
-  const imported = await importKey(key, alg)
-  const algo: AlgorithmIdentifier =
-    alg === "ed25519-sha256"
-      ? ({ name: "Ed25519" } as unknown as AlgorithmIdentifier)
-      : { name: "RSASSA-PKCS1-v1_5" }
-  const sig = await crypto.subtle.sign(
-    algo,
-    imported,
-    new TextEncoder().encode(value) as BufferSource,
+export interface ArcVerifyOptions {
+  /** Where `_domainkey` keys come from. Default: `node:dns`; use
+   *  `dohResolver()` from `unemail/verify` on Workers. */
+  resolver?: DnsResolver
+}
+
+export interface ArcSetResult {
+  instance: number
+  /** Sealing domain (`d=` of the ARC-Seal). */
+  domain?: string
+  seal: DkimSignatureResult["result"]
+  messageSignature: DkimSignatureResult["result"]
+  /** This hop's ARC-Authentication-Results, as written. */
+  authResults: string
+}
+
+export interface ArcVerifyResult {
+  /** Chain status (RFC 8617 §5.2) — what to put in your own `cv=`. */
+  cv: ArcChainStatus
+  /** Why the chain failed. */
+  reason?: string
+  /** One per ARC set, oldest first. */
+  sets: ArcSetResult[]
+  /** Lowest instance whose ARC-Message-Signature, and every newer
+   *  one, still validates. */
+  oldestPass?: number
+  /** ARC-Authentication-Results of `oldestPass`: what the earliest
+   *  hop whose signature survived saw. Only set when `cv` is `pass`. */
+  authResults?: AuthenticationResults
+}
+
+/** Validate every ARC-Seal and ARC-Message-Signature on a raw message.
+ *  A DNS failure fails the chain too; `reason` tells it apart. */
+export async function verifyArc(
+  raw: string | Uint8Array,
+  options: ArcVerifyOptions = {},
+): Promise<ArcVerifyResult> {
+  const { headers, body } = splitMessage(raw)
+  const collected = collectSets(headers)
+  if (typeof collected === "string") return { cv: "fail", reason: collected, sets: [] }
+  if (collected.size === 0) return { cv: "none", sets: [] }
+  const newest = collected.size
+  const chain: CompleteSet[] = []
+  for (let i = 1; i <= newest; i++) {
+    const set = collected.get(i)
+    if (!set?.aar || !set.ams || !set.seal)
+      return { cv: "fail", reason: `incomplete ARC set i=${i}`, sets: [] }
+    chain.push(set as CompleteSet)
+  }
+
+  const lookup = keyLookup(options.resolver ?? nodeDnsResolver())
+  const signatures = await Promise.all(
+    chain.map((set) => verifySignature(set.ams, headers, body, lookup, "arc")),
   )
-  return bytesToBase64(new Uint8Array(sig))
-}
-
-async function importKey(key: string | CryptoKey, alg: ArcAlgorithm): Promise<CryptoKey> {
-  if (typeof key !== "string") return key
-  const b64 = key
-    .replace(/-----BEGIN [A-Z ]+-----/g, "")
-    .replace(/-----END [A-Z ]+-----/g, "")
-    .replace(/\s+/g, "")
-  const der = base64ToBytes(b64)
-  if (alg === "ed25519-sha256") {
-    return crypto.subtle.importKey(
-      "pkcs8",
-      der as BufferSource,
-      { name: "Ed25519" } as unknown as AlgorithmIdentifier,
-      false,
-      ["sign"],
+  const seals = await Promise.all(chain.map((_, i) => verifySeal(chain.slice(0, i + 1), lookup)))
+  const sets = chain.map((set, i) => ({
+    instance: set.instance,
+    ...(set.sealTags.get("d") ? { domain: set.sealTags.get("d")! } : {}),
+    seal: seals[i]!.result,
+    messageSignature: signatures[i]!.result,
+    authResults: aarPayload(set.aar.value),
+  }))
+  let oldestPass: number | undefined
+  for (let i = newest - 1; i >= 0 && signatures[i]!.result === "pass"; i--) oldestPass = i + 1
+  const result = { sets, ...(oldestPass ? { oldestPass } : {}) }
+
+  // §5.2 step 2: the newest seal already says the chain was broken.
+  if (chain[newest - 1]!.sealTags.get("cv") === "fail")
+    return { cv: "fail", reason: `ARC-Seal i=${newest} has cv=fail`, ...result }
+  for (const set of chain) {
+    const expected = set.instance === 1 ? "none" : "pass"
+    if (set.sealTags.get("cv") !== expected)
+      return {
+        cv: "fail",
+        reason: `ARC-Seal i=${set.instance} must have cv=${expected}`,
+        ...result,
+      }
+  }
+  if (signatures[newest - 1]!.result !== "pass") {
+    const reason = signatures[newest - 1]!.reason ?? "did not verify"
+    return { cv: "fail", reason: `ARC-Message-Signature i=${newest}: ${reason}`, ...result }
+  }
+  const broken = seals.findIndex((seal) => seal.result !== "pass")
+  if (broken >= 0)
+    return { cv: "fail", reason: `ARC-Seal i=${broken + 1}: ${seals[broken]!.reason}`, ...result }
+
+  const authResults = parseAuthenticationResults(sets[(oldestPass ?? newest) - 1]!.authResults)
+  return { cv: "pass", ...result, authResults }
+}
+
+interface ArcSet {
+  instance: number
+  aar?: ParsedHeader
+  ams?: ParsedHeader
+  seal?: ParsedHeader
+  sealTags: Map<string, string>
+}
+
+type CompleteSet = Required<ArcSet>
+
+const ARC_HEADERS: Record<string, "aar" | "ams" | "seal"> = {
+  "arc-authentication-results": "aar",
+  "arc-message-signature": "ams",
+  "arc-seal": "seal",
+}
+
+/** ARC headers grouped by `i=`, or why they can't be (RFC 8617 §4.2.1:
+ *  at most 50 sets, one header of each kind per instance). */
+function collectSets(headers: ReadonlyArray<ParsedHeader>): Map<number, ArcSet> | string {
+  const sets = new Map<number, ArcSet>()
+  for (const header of headers) {
+    const kind = ARC_HEADERS[header.name.toLowerCase()]
+    if (!kind) continue
+    const tags = kind === "aar" ? null : parseTags(header.value)
+    const instance = Number(
+      kind === "aar" ? /^\s*i\s*=\s*(\d+)\s*;/.exec(header.value)?.[1] : tags?.get("i"),
     )
+    if (!Number.isInteger(instance) || instance < 1 || instance > 50)
+      return `${header.name} has no valid i=`
+    const set: ArcSet = sets.get(instance) ?? { instance, sealTags: new Map() }
+    if (set[kind]) return `more than one ${header.name} with i=${instance}`
+    set[kind] = header
+    if (kind === "seal") set.sealTags = tags ?? new Map()
+    sets.set(instance, set)
   }
-  return crypto.subtle.importKey(
-    "pkcs8",
-    der as BufferSource,
-    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
-    false,
-    ["sign"],
-  )
+  if (sets.size && !sets.has(sets.size)) return "ARC instances are not contiguous"
+  return new Map([...sets].sort(([a], [b]) => a - b))
 }
 
-function canonBody(body: string): string {
-  const lines = body.split(/\r\n/)
-  while (lines.length && lines[lines.length - 1] === "") lines.pop()
-  if (!lines.length) return "\r\n"
-  return lines.map((l) => l.replace(/[ \t]+/g, " ").replace(/[ \t]+$/g, "")).join("\r\n") + "\r\n"
-}
-
-function parseHeaders(block: string): Array<{ name: string; value: string }> {
-  const out: Array<{ name: string; value: string }> = []
-  const lines = block.split(/\r\n/)
-  let current: { name: string; value: string } | null = null
-  for (const line of lines) {
-    if (!line) continue
-    if (/^[ \t]/.test(line)) {
-      if (current) current.value += "\r\n" + line
-      continue
-    }
-    if (current) out.push(current)
-    const colon = line.indexOf(":")
-    if (colon < 0) continue
-    current = { name: line.slice(0, colon), value: line.slice(colon + 1) }
+/** RFC 8617 §5.1.1: the seal at instance `n` signs sets 1..n. */
+async function verifySeal(
+  chain: ReadonlyArray<CompleteSet>,
+  lookup: ReturnType<typeof keyLookup>,
+): Promise<{ result: DkimSignatureResult["result"]; reason?: string }> {
+  const tags = chain[chain.length - 1]!.sealTags
+  const missing = ["i", "a", "b", "cv", "d", "s"].filter((tag) => !tags.has(tag))
+  if (missing.length) return { result: "permerror", reason: `missing ${missing.join(", ")}` }
+  const algorithm = tags.get("a")!
+  if (algorithm !== "rsa-sha256" && algorithm !== "ed25519-sha256")
+    return { result: "permerror", reason: `unsupported algorithm ${algorithm}` }
+  const key = await fetchKey(lookup, tags.get("s")!, tags.get("d")!.toLowerCase(), algorithm)
+  if ("result" in key) return key
+  const values = chain.map(setValues)
+  values[values.length - 1]!.seal = stripSignature(values[values.length - 1]!.seal)
+  try {
+    const verified = await verifyBytes(
+      algorithm,
+      key.publicKey,
+      bytes(atob(tags.get("b")!.replace(/\s+/g, ""))),
+      bytes(sealInput(values)),
+    )
+    return verified ? { result: "pass" } : { result: "fail", reason: "signature did not verify" }
+  } catch {
+    return { result: "permerror", reason: "unusable key or signature" }
   }
-  if (current) out.push(current)
-  return out
+}
+
+interface SetValues {
+  aar: string
+  ams: string
+  seal: string
+}
+
+function setValues(set: ArcSet): SetValues {
+  return { aar: set.aar?.value ?? "", ams: set.ams?.value ?? "", seal: set.seal?.value ?? "" }
+}
+
+/** Relaxed-canonicalized ARC sets in instance order, each as AAR, AMS,
+ *  AS; no CRLF after the last. */
+function sealInput(sets: ReadonlyArray<SetValues>): string {
+  return sets
+    .map(
+      (set) =>
+        canonicalizeHeaderRelaxed("ARC-Authentication-Results", set.aar) +
+        canonicalizeHeaderRelaxed("ARC-Message-Signature", set.ams) +
+        canonicalizeHeaderRelaxed("ARC-Seal", set.seal),
+    )
+    .join("")
+    .replace(/\r\n$/, "")
+}
+
+function unterminated(name: string, value: string): string {
+  return canonicalizeHeaderRelaxed(name, value).replace(/\r\n$/, "")
+}
+
+/** The results after `i=N;`. */
+function aarPayload(value: string): string {
+  return value.replace(/^\s*i\s*=\s*\d+\s*;\s*/, "").replace(/\r\n/g, "")
 }
 
 function serializeFields(fields: Record<string, string>): string {
@@ -202,11 +332,3 @@ function bytesToBase64(bytes: Uint8Array): string {
   for (const b of bytes) s += String.fromCharCode(b)
   return btoa(s)
 }
-
-function base64ToBytes(s: string): Uint8Array {
-  const bin = atob(s)
-  const buf = new ArrayBuffer(bin.length)
-  const out = new Uint8Array(buf)
-  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
-  return out
-}
@@ -1,5 +1,15 @@
 import type { ParsedEmail } from "../parse/index.ts"
 
+export { verifyDkimSignatures } from "./_dkim.ts"
+export type { DkimSignatureResult, DkimVerifyOptions } from "./_dkim.ts"
+export { evaluateDmarc } from "./_dmarc.ts"
+export type { DmarcEvaluateOptions, DmarcEvaluation } from "./_dmarc.ts"
+export { organizationalDomain } from "./_psl.ts"
+export { checkSpf } from "./_spf.ts"
+export type { SpfInput, SpfOptions, SpfResult } from "./_spf.ts"
+export { dohResolver, nodeDnsResolver } from "./_dns.ts"
+export type { DnsResolver, DohResolverOptions } from "./_dns.ts"
+
 /** DKIM / SPF / DMARC verification helpers.
  *
  *  Two modes:
@@ -7,11 +17,14 @@ import type { ParsedEmail } from "../parse/index.ts"
  *      header supplied by the MTA that delivered the message. Cheap,
  *      works on Workers, relies on the upstream being honest (typically
  *      Gmail, Google Workspace, Exchange, SES — all trustworthy).
- *   2. **Active verification**: plug in a callback to run DNS lookups +
- *      cryptographic verification. We don't bundle this because active
- *      DKIM needs DNS access (Workers require \`dns-over-https\`) and a
- *      real crypto validator — not worth reinventing. When the callback
- *      is present it overrides the parsed header result. */
+ *   2. **Active verification**: \`verifyDkimSignatures\` checks every
+ *      \`DKIM-Signature\` on the raw message against the signer's DNS
+ *      key, \`checkSpf\` evaluates the envelope sender's SPF policy for
+ *      the client IP, and \`evaluateDmarc\` combines the two under the
+ *      From domain's policy. All look DNS up through a \`DnsResolver\`
+ *      (\`node:dns\` by default, \`dohResolver()\` on Workers). Wire it — or any other check —
+ *      into \`VerifyOptions.verify\`; when that callback is present it
+ *      overrides the parsed header result. */
 
 export type AuthResult =
   | "pass"
@@ -48,14 +61,20 @@ export async function verifyAll(
   return parseAuthenticationResults(mail.headers["authentication-results"])
 }
 
+/** The relay's DKIM verdict. Use \`verifyDkimSignatures\` to check the
+ *  signatures yourself. */
 export function verifyDkim(mail: ParsedEmail): AuthResult {
   return parseAuthenticationResults(mail.headers["authentication-results"]).dkim
 }
 
+/** The relay's SPF verdict. Use \`checkSpf\` when you received the
+ *  connection yourself. */
 export function verifySpf(mail: ParsedEmail): AuthResult {
   return parseAuthenticationResults(mail.headers["authentication-results"]).spf
 }
 
+/** The relay's DMARC verdict. Use \`evaluateDmarc\` to apply the policy
+ *  yourself. */
 export function verifyDmarc(mail: ParsedEmail): AuthResult {
   return parseAuthenticationResults(mail.headers["authentication-results"]).dmarc
 }
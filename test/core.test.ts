@@ -1,6 +1,14 @@
 import { describe, expect, it } from "vitest"
-import { createEmail, defineDriver } from "../src/index.ts"
+import {
+  createEmail,
+  createError,
+  defineDriver,
+  type EmailMessage,
+  type Middleware,
+} from "../src/index.ts"
+import { batchResult } from "../src/_batch.ts"
 import mock from "../src/driver/mock.ts"
+import resend from "../src/driver/resend.ts"
 
 describe("createEmail", () => {
   it("sends via the default driver and returns {data, error}", async () => {
@@ -72,6 +80,45 @@ describe("createEmail", () => {
     expect(calls).toEqual(["before", "after"])
   })
 
+  it("composes around middleware by order, with stream middleware scoped to its mount", async () => {
+    const calls: string[] = []
+    const tag = (name: string, order?: number): Middleware => ({
+      name,
+      order,
+      async around(msg, _ctx, next) {
+        calls.push(`${name}:in`)
+        const result = await next({ ...msg, subject: `${msg.subject}>${name}` })
+        calls.push(`${name}:out`)
+        return result
+      },
+    })
+    const transactional = mock()
+    const broadcast = mock()
+    const email = createEmail({ driver: transactional })
+      .use(tag("b"))
+      .use(tag("a", -1))
+      .mount("broadcast", broadcast, { middleware: [tag("stream")] })
+
+    await email.send({ from: "a@b.com", to: "c@d.com", subject: "s", text: "x" })
+    expect(calls).toEqual(["a:in", "b:in", "b:out", "a:out"])
+    expect(transactional.getInstance?.()[0]?.subject).toBe("s>a>b")
+
+    calls.length = 0
+    await email.send({ stream: "broadcast", from: "a@b.com", to: "c@d.com", subject: "s" })
+    expect(calls).toEqual(["a:in", "b:in", "stream:in", "stream:out", "b:out", "a:out"])
+    expect(broadcast.getInstance?.()[0]?.subject).toBe("s>a>b>stream")
+  })
+
+  it("lets around middleware short-circuit the driver", async () => {
+    const driver = mock()
+    const email = createEmail({ driver }).use({
+      around: () => ({ data: { id: "cached", driver: "mock", at: new Date() }, error: null }),
+    })
+    const { data } = await email.send({ from: "a@b.com", to: "c@d.com", subject: "s" })
+    expect(data?.id).toBe("cached")
+    expect(driver.getInstance?.()).toHaveLength(0)
+  })
+
   it("sendBatchStream yields one Result per message without short-circuiting", async () => {
     let call = 0
     const email = createEmail({
@@ -113,6 +160,115 @@ describe("createEmail", () => {
     expect(outcomes).toEqual(["ok", "err", "ok"])
   })
 
+  it("sendBatch falls back to one send per message and keeps going past failures", async () => {
+    let call = 0
+    const email = createEmail({
+      driver: defineDriver(() => ({
+        name: "alt",
+        send: () => {
+          call++
+          if (call === 2) {
+            return {
+              data: null,
+              error: createError("alt", "PROVIDER", "bad recipient"),
+            }
+          }
+          return { data: { id: `id_${call}`, driver: "alt", at: new Date() }, error: null }
+        },
+      }))(),
+    })
+
+    const messages = [1, 2, 3].map((n) => ({
+      from: "a@b.com",
+      to: "c@d.com",
+      subject: `s${n}`,
+      text: "x",
+    }))
+    const { results, sent, failed } = await email.sendBatch(messages)
+    expect(results).toHaveLength(3)
+    expect(sent.map((s) => s.data.id)).toEqual(["id_1", "id_3"])
+    expect(failed.map((f) => f.index)).toEqual([1])
+  })
+
+  it("sendBatch reports a thrown driver error against every message", async () => {
+    const email = createEmail({
+      driver: defineDriver(() => ({
+        name: "alt",
+        send: () => ({ data: null, error: null as never }),
+        sendBatch: () => {
+          throw new Error("socket hang up")
+        },
+      }))(),
+    })
+    const { failed } = await email.sendBatch([
+      { from: "a@b.com", to: "c@d.com", subject: "1", text: "x" },
+      { from: "a@b.com", to: "e@f.com", subject: "2", text: "x" },
+    ])
+    expect(failed.map((f) => f.index)).toEqual([0, 1])
+    expect(failed[0]?.error.message).toMatch(/socket hang up/)
+  })
+
+  it("sendBatch sends each stream's messages through its own driver", async () => {
+    const transactional = mock()
+    const marketing = mock()
+    const email = createEmail({ driver: transactional }).mount("marketing", marketing)
+    const msg = { from: "a@b.com", to: "c@d.com", text: "x" }
+    const { results, failed } = await email.sendBatch([
+      { ...msg, subject: "receipt" },
+      { ...msg, subject: "newsletter", stream: "marketing" },
+      { ...msg, subject: "reset" },
+    ])
+    expect(failed).toEqual([])
+    expect(results.map((r) => r.data?.driver)).toEqual(["mock", "mock", "mock"])
+    expect(transactional.getInstance?.()?.map((m) => m.subject)).toEqual(["receipt", "reset"])
+    expect(marketing.getInstance?.()?.map((m) => m.subject)).toEqual(["newsletter"])
+  })
+
+  it("sendBatch splits at maxBatchSize and preflights each message in strict mode", async () => {
+    const requests: string[][] = []
+    const email = createEmail({
+      strict: true,
+      driver: defineDriver(() => ({
+        name: "bulk",
+        flags: { text: true, html: true },
+        limits: { maxBatchSize: 2 },
+        send: () => ({ data: null, error: null as never }),
+        sendBatch: (msgs) => {
+          requests.push(msgs.map((m) => m.subject))
+          return batchResult(
+            "bulk",
+            msgs.map((m) => ({
+              data: { id: m.subject, driver: "bulk", at: new Date() },
+              error: null,
+            })),
+          )
+        },
+      }))(),
+    })
+    const msg = { from: "a@b.com", to: "c@d.com", text: "x" }
+    const { results, failed } = await email.sendBatch([
+      { ...msg, subject: "1" },
+      { ...msg, subject: "2", attachments: [{ filename: "a.txt", content: "a" }] },
+      { ...msg, subject: "3" },
+      { ...msg, subject: "4", from: undefined as never },
+      { ...msg, subject: "5" },
+      { ...msg, subject: "6" },
+    ])
+    expect(requests).toEqual([
+      ["1", "3"],
+      ["5", "6"],
+    ])
+    expect(results.map((r) => r.data?.id ?? r.error?.code)).toEqual([
+      "1",
+      "UNSUPPORTED",
+      "3",
+      "INVALID_OPTIONS",
+      "5",
+      "6",
+    ])
+    expect(failed.map((f) => f.index)).toEqual([1, 3])
+  })
+
   it("dispose() cascades to mounted drivers", async () => {
     let disposed = 0
     const driver = defineDriver(() => ({
@@ -126,4 +282,161 @@ describe("createEmail", () => {
     await email.dispose()
     expect(disposed).toBe(2)
   })
+  it("validate() reports unsupported and degraded features", () => {
+    const driver = defineDriver(() => ({
+      name: "plain",
+      flags: { html: true, text: true },
+      limits: { maxRecipients: 2 },
+      send: () => ({ data: null, error: null as never }),
+    }))
+    const email = createEmail({ driver: driver() })
+    const issues = email.validate({
+      from: "a@b.com",
+      to: ["c@d.com", "e@f.com", "g@h.com"],
+      subject: "hi",
+      text: "x",
+      tags: [{ name: "kind", value: "welcome" }],
+      scheduledAt: new Date(Date.now() + 60_000),
+    })
+    expect(issues.map((i) => [i.feature, i.severity])).toEqual([
+      ["scheduling", "unsupported"],
+      ["tagging", "degraded"],
+      ["maxRecipients", "unsupported"],
+    ])
+    expect(issues[0]?.message).toMatch(/^\[plain\]/)
+  })
+
+  it("validate() is empty for drivers that advertise no flags", () => {
+    const email = createEmail({
+      driver: defineDriver(() => ({
+        name: "meta",
+        send: () => ({ data: null, error: null as never }),
+      }))(),
+    })
+    expect(
+      email.validate({ from: "a@b.com", to: "c@d.com", subject: "s", text: "x", amp: "<html/>" }),
+    ).toEqual([])
+  })
+
+  it("strict mode rejects unsupported features without calling the driver", async () => {
+    let calls = 0
+    const driver = defineDriver(() => ({
+      name: "plain",
+      flags: { html: true, text: true },
+      send: () => {
+        calls++
+        return { data: { id: "1", driver: "plain", at: new Date() }, error: null }
+      },
+    }))
+    const msg = { from: "a@b.com", to: "c@d.com", subject: "s", text: "x" }
+
+    const strict = createEmail({ driver: driver(), strict: true })
+    const { error } = await strict.send({ ...msg, scheduledAt: new Date(Date.now() + 60_000) })
+    expect(error?.code).toBe("UNSUPPORTED")
+    expect(error?.retryable).toBe(false)
+    expect(error?.message).toMatch(/scheduling/)
+    expect((error!.cause as Array<{ feature: string }>).map((i) => i.feature)).toEqual([
+      "scheduling",
+    ])
+
+    // Degraded features pass under `true`, fail under `"degraded"`.
+    const tagged = { ...msg, tags: [{ name: "kind", value: "x" }] }
+    expect((await strict.send(tagged)).error).toBeNull()
+    const pedantic = createEmail({ driver: driver(), strict: "degraded" })
+    expect((await pedantic.send(tagged)).error?.code).toBe("UNSUPPORTED")
+    expect(calls).toBe(1)
+  })
+  it("applies instance and stream defaults before middleware", async () => {
+    const inbox: EmailMessage[] = []
+    const seen: unknown[] = []
+    const email = createEmail({
+      driver: mock({ inbox }),
+      defaults: {
+        from: "team@acme.com",
+        headers: { "X-App": "acme", "X-Env": "prod" },
+        tags: [{ name: "app", value: "acme" }],
+        metadata: { tenant: "t1" },
+      },
+    })
+      .mount("marketing", mock({ inbox }), {
+        defaults: {
+          from: "news@acme.com",
+          tags: [{ name: "kind", value: "newsletter" }],
+          unsubscribe: { url: "https://acme.com/u" },
+        },
+      })
+      .use({ beforeSend: (msg) => void seen.push(msg.from) })
+
+    await email.send({ to: "a@b.com", subject: "s", text: "x", headers: { "x-env": "dev" } })
+    await email.send({
+      stream: "marketing",
+      to: "a@b.com",
+      subject: "s",
+      text: "x",
+      tags: [{ name: "app", value: "override" }],
+      metadata: { campaign: "c1" },
+    })
+
+    expect(seen).toEqual(["team@acme.com", "news@acme.com"])
+    expect(inbox[0]?.headers).toEqual({ "X-App": "acme", "x-env": "dev" })
+    expect(inbox[1]?.tags).toEqual([
+      { name: "kind", value: "newsletter" },
+      { name: "app", value: "override" },
+    ])
+    expect(inbox[1]?.metadata).toEqual({ tenant: "t1", campaign: "c1" })
+    expect(inbox[1]?.headers?.["List-Unsubscribe"]).toBe("<https://acme.com/u>")
+  })
+
+  it("rejects a send with no `from` anywhere", async () => {
+    const email = createEmail({ driver: mock() })
+    const { error } = await email.send({ to: "a@b.com", subject: "s", text: "x" })
+    expect(error?.code).toBe("INVALID_OPTIONS")
+  })
+
+  it("forwards a per-send signal to fetch and reports CANCELLED", async () => {
+    const hanging = ((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal!.addEventListener("abort", () => reject(init.signal!.reason))
+      })) as unknown as typeof fetch
+    const email = createEmail({ driver: resend({ apiKey: "re_test", fetch: hanging }) })
+    const controller = new AbortController()
+    const pending = email.send(
+      { from: "a@b.com", to: "c@d.com", subject: "s", text: "x" },
+      { signal: controller.signal },
+    )
+    controller.abort()
+    const { error } = await pending
+    expect(error?.code).toBe("CANCELLED")
+    expect(error?.retryable).toBe(false)
+  })
+
+  it("fails with a retryable TIMEOUT once `timeoutMs` passes", async () => {
+    const hanging = ((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal!.addEventListener("abort", () => reject(init.signal!.reason))
+      })) as unknown as typeof fetch
+    const email = createEmail({ driver: resend({ apiKey: "re_test", fetch: hanging }) })
+    const { error } = await email.send(
+      { from: "a@b.com", to: "c@d.com", subject: "s", text: "x" },
+      { timeoutMs: 20 },
+    )
+    expect(error?.code).toBe("TIMEOUT")
+    expect(error?.retryable).toBe(true)
+  })
+
+  it("reports an abort even when the driver ignores the signal", async () => {
+    const controller = new AbortController()
+    const driver = defineDriver(() => ({
+      name: "deaf",
+      send() {
+        controller.abort()
+        return { data: null, error: createError("deaf", "NETWORK", "socket hang up") }
+      },
+    }))()
+    const { error } = await createEmail({ driver }).send(
+      { from: "a@b.com", to: "c@d.com", subject: "s", text: "x" },
+      { signal: controller.signal },
+    )
+    expect(error?.code).toBe("CANCELLED")
+  })
 })
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest"
-import { parseDmarcAggregate } from "../../src/dmarc/index.ts"
+import { parseDmarcAggregate, parseDmarcFailureReport } from "../../src/dmarc/index.ts"
 
 const SAMPLE = `<?xml version="1.0" encoding="UTF-8" ?>
 <feedback>
@@ -64,3 +64,88 @@ describe("parseDmarcAggregate", () => {
     expect(report.records[1]?.disposition).toBe("reject")
   })
 })
+
+const FAILURE = [
+  'Content-Type: multipart/report; report-type=feedback-report; boundary="b1"',
+  "",
+  "--b1",
+  "Content-Type: text/plain",
+  "",
+  "This is an authentication failure report for an email message received from IP 192.0.2.1",
+  "",
+  "--b1",
+  "Content-Type: message/feedback-report",
+  "",
+  "Feedback-Type: auth-failure",
+  "User-Agent: ExampleFeedback/2.1",
+  "Version: 1",
+  "Original-Mail-From: <bounce@example.com>",
+  "Arrival-Date: Mon, 19 Oct 2026 08:14:03 +0000",
+  "Source-IP: 192.0.2.1",
+  "Reported-Domain: example.com",
+  "Authentication-Results: mx.example.net; dkim=fail header.d=example.com;",
+  "  spf=fail smtp.mailfrom=example.com; dmarc=fail header.from=example.com",
+  "Auth-Failure: dmarc",
+  "Delivery-Result: Reject",
+  "DKIM-Domain: example.com",
+  "DKIM-Selector: s1",
+  "DKIM-Canonicalized-Header: ZnJvbTpBZGEgPGFkYUBleGFtcGxlLmNvbT4NCg==",
+  'SPF-DNS: txt : example.com : "v=spf1 ip4:203.0.113.0/24 -all"',
+  "SPF-DNS: a : example.com : 203.0.113.10",
+  "Identity-Alignment: none",
+  "",
+  "--b1",
+  "Content-Type: text/rfc822-headers",
+  "",
+  "Received: from relay.example.org by mx.example.net",
+  "Received: from spoofer.example by relay.example.org",
+  "From: Ada <redacted@example.com>",
+  "Subject: Invoice",
+  "  #4471 overdue",
+  "Message-ID: <x1@spoofer.example>",
+  "",
+  "--b1--",
+].join("\r\n")
+
+describe("parseDmarcFailureReport", () => {
+  it("extracts the RFC 6591 auth-failure fields and original headers", () => {
+    const report = parseDmarcFailureReport(FAILURE)!
+    expect(report).toMatchObject({
+      feedbackType: "auth-failure",
+      sourceIp: "192.0.2.1",
+      reportedDomain: "example.com",
+      authFailure: "dmarc",
+      deliveryResult: "reject",
+      dkimDomain: "example.com",
+      dkimSelector: "s1",
+      dkimCanonicalizedHeader: "from:Ada <ada@example.com>\r\n",
+      identityAlignment: [],
+      reportedMessageId: "<x1@spoofer.example>",
+    })
+    expect(report.authenticationResults).toContain("spf=fail smtp.mailfrom=example.com")
+    expect(report.spfDns).toEqual([
+      'txt : example.com : "v=spf1 ip4:203.0.113.0/24 -all"',
+      "a : example.com : 203.0.113.10",
+    ])
+    expect(report.originalHeaders.filter((h) => h.name === "Received")).toHaveLength(2)
+    expect(report.reportedHeaders?.subject).toBe("Invoice #4471 overdue")
+  })
+
+  it("reads unknown Delivery-Result and Auth-Failure values as other", () => {
+    const quarantined = FAILURE.replace("Delivery-Result: Reject", "Delivery-Result: quarantine")
+    expect(parseDmarcFailureReport(quarantined)?.deliveryResult).toBe("other")
+    const spoofed = FAILURE.replace("Auth-Failure: dmarc", "Auth-Failure: spoofing")
+    expect(parseDmarcFailureReport(spoofed)?.authFailure).toBe("other")
+    const missing = FAILURE.replace("Delivery-Result: Reject\r\n", "")
+    expect(parseDmarcFailureReport(missing)?.deliveryResult).toBeUndefined()
+  })
+
+  it("reads Identity-Alignment lists and skips other feedback types", () => {
+    const aligned = FAILURE.replace("Identity-Alignment: none", "Identity-Alignment: dkim, spf")
+    expect(parseDmarcFailureReport(new TextEncoder().encode(aligned))?.identityAlignment).toEqual([
+      "dkim",
+      "spf",
+    ])
+    expect(parseDmarcFailureReport(FAILURE.replace("auth-failure", "abuse"))).toBeNull()
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+import { dsnParams, xtext } from "../../../src/driver/_smtp/dsn.ts"
+
+describe("dsnParams", () => {
+  it("splits RFC 3461 parameters between MAIL FROM and RCPT TO", () => {
+    const params = dsnParams(
+      {
+        notify: ["SUCCESS", "FAILURE"],
+        ret: "HDRS",
+        envid: "order 42",
+        orcpt: "a+b@example.com",
+      },
+      ["a@example.net"],
+    )
+    expect(params.mail).toBe("RET=HDRS ENVID=order+2042")
+    expect(params.rcpt("a@example.net")).toBe(
+      "NOTIFY=SUCCESS,FAILURE ORCPT=rfc822;a+2Bb@example.com",
+    )
+  })
+
+  it("sends ORCPT per recipient", () => {
+    const shared = dsnParams({ notify: ["FAILURE"], orcpt: "list@example.com" }, [
+      "a@example.net",
+      "b@example.net",
+    ])
+    expect(shared.rcpt("a@example.net")).toBe("NOTIFY=FAILURE")
+    const mapped = dsnParams({ orcpt: { "b@example.net": "bob@example.com" } }, [
+      "a@example.net",
+      "b@example.net",
+    ])
+    expect(mapped.rcpt("a@example.net")).toBe("")
+    expect(mapped.rcpt("b@example.net")).toBe("ORCPT=rfc822;bob@example.com")
+  })
+
+  it("rejects NEVER combined with other notify values", () => {
+    expect(() => dsnParams({ notify: ["NEVER", "DELAY"] }, [])).toThrow(/NEVER/)
+  })
+
+  it("xtext-encodes `=`, `+` and non-ASCII as UTF-8 bytes", () => {
+    expect(xtext("k=v+é")).toBe("k+3Dv+2B+C3+A9")
+  })
+})
@@ -17,15 +17,21 @@ export interface FakeServerHandle {
   host: string
   close: () => Promise<void>
   received: string[]
+  /** Lines grouped by the socket read they arrived in — pipelined
+   *  commands share one batch. */
+  batches: string[][]
 }
 
 export function startFakeServer(script: ScriptLine[]): Promise<FakeServerHandle> {
   return new Promise((resolve, reject) => {
     const received: string[] = []
+    const batches: string[][] = []
     const server = net.createServer((socket) => {
       let cursor = 0
       let inData = false
       let buffer = ""
+      // Outstanding BDAT chunk: octets still expected and its command line.
+      let bdat: { remaining: number; line: string; data: string } | null = null
 
       const write = (payload: string) =>
         socket.write(payload.endsWith("\r\n") ? payload : `${payload}\r\n`)
@@ -43,7 +49,22 @@ export function startFakeServer(script: ScriptLine[]): Promise<FakeServerHandle>
       socket.setEncoding("utf8")
       socket.on("data", (chunk: string | Buffer) => {
         buffer += typeof chunk === "string" ? chunk : chunk.toString("utf8")
+        const batch: string[] = []
+        batches.push(batch)
         while (true) {
+          if (bdat) {
+            // Tests send ASCII bodies, so characters and octets line up.
+            const take = buffer.slice(0, bdat.remaining)
+            buffer = buffer.slice(take.length)
+            bdat.data += take
+            bdat.remaining -= take.length
+            if (bdat.remaining > 0) break
+            received.push(bdat.data)
+            const line = bdat.line
+            bdat = null
+            respond(line)
+            continue
+          }
           const idx = buffer.indexOf("\n")
           if (idx < 0) break
           const rawLine = buffer.slice(0, idx).replace(/\r$/, "")
@@ -58,6 +79,12 @@ export function startFakeServer(script: ScriptLine[]): Promise<FakeServerHandle>
             continue
           }
           received.push(rawLine)
+          batch.push(rawLine)
+          const size = /^BDAT (\d+)/i.exec(rawLine)
+          if (size) {
+            bdat = { remaining: Number(size[1]), line: rawLine, data: "" }
+            continue
+          }
           respond(rawLine)
         }
       })
@@ -92,6 +119,7 @@ export function startFakeServer(script: ScriptLine[]): Promise<FakeServerHandle>
         port: addr.port,
         host: "127.0.0.1",
         received,
+        batches,
         close: () =>
           new Promise((r) => {
             ;(server as unknown as { closeAllConnections?: () => void }).closeAllConnections?.()
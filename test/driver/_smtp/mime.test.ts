@@ -83,4 +83,124 @@ describe("buildMime", () => {
     expect(out.headers.Cc).toBe("cc@d.com")
     expect(out.headers.Bcc).toBeUndefined()
   })
+
+  it("nests inline cid parts in multipart/related inside multipart/mixed", () => {
+    const out = buildMime(
+      normalizeMimeInput(
+        {
+          from: "a@b.com",
+          to: "c@d.com",
+          subject: "hi",
+          text: "logo below",
+          html: '<img src="cid:logo">',
+          attachments: [
+            {
+              filename: "logo.png",
+              content: "iVBORw0KGgo=",
+              contentType: "image/png",
+              cid: "logo",
+            },
+            { filename: "report.pdf", content: "JVBERi0=", contentType: "application/pdf" },
+          ],
+        },
+        "<id@host>",
+      ),
+    )
+    expect(out.headers["Content-Type"]).toMatch(/^multipart\/mixed;/)
+    const types = [...out.body.matchAll(/^Content-Type: ([^;\r]+)/gm)].map((m) => m[1])
+    expect(types).toEqual([
+      "multipart/mixed",
+      "multipart/related",
+      "multipart/alternative",
+      "text/plain",
+      "text/html",
+      "image/png",
+      "application/pdf",
+    ])
+    expect(out.body).toContain('multipart/related; type="multipart/alternative"')
+    expect(out.body).toContain('Content-Disposition: inline; filename="logo.png"')
+    expect(out.body).toContain("Content-ID: <logo>")
+    expect(out.body).toContain('Content-Disposition: attachment; filename="report.pdf"')
+  })
+
+  it("skips multipart/mixed when every attachment is inline", () => {
+    const out = buildMime(
+      normalizeMimeInput(
+        {
+          from: "a@b.com",
+          to: "c@d.com",
+          subject: "hi",
+          html: '<img src="cid:logo">',
+          attachments: [{ filename: "logo.png", content: "iVBORw0KGgo=", cid: "logo" }],
+        },
+        "<id@host>",
+      ),
+    )
+    expect(out.headers["Content-Type"]).toMatch(/^multipart\/related; type="text\/html";/)
+  })
+
+  it("encodes non-ASCII filenames per RFC 2231", () => {
+    const short = buildMime(
+      normalizeMimeInput(
+        {
+          from: "a@b.com",
+          to: "c@d.com",
+          subject: "hi",
+          text: "x",
+          attachments: [{ filename: "résumé.txt", content: "hello" }],
+        },
+        "<id@host>",
+      ),
+    )
+    expect(short.body).toContain("filename*=utf-8''r%C3%A9sum%C3%A9.txt")
+    expect(short.body).toContain('name="=?utf-8?B?')
+
+    const long = buildMime(
+      normalizeMimeInput(
+        {
+          from: "a@b.com",
+          to: "c@d.com",
+          subject: "hi",
+          text: "x",
+          attachments: [{ filename: `${"é".repeat(30)}.txt`, content: "hello" }],
+        },
+        "<id@host>",
+      ),
+    )
+    const unfolded = long.body.replace(/\r\n[ \t]+/g, " ")
+    expect(unfolded).toContain("filename*0*=utf-8''%C3%A9")
+    expect(unfolded).toMatch(/filename\*1\*=(%C3%A9)+/)
+  })
+
+  it("picks a transfer encoding per text part", () => {
+    const encodings = (text: string, options?: { eightBitMime?: boolean; signing?: boolean }) => {
+      const out = buildMime(
+        normalizeMimeInput({ from: "a@b.com", to: "c@d.com", subject: "hi", text }, "<id@host>"),
+        options,
+      )
+      return out.headers["Content-Transfer-Encoding"]
+    }
+    expect(encodings("plain ascii")).toBe("7bit")
+    expect(encodings("x".repeat(1200))).toBe("quoted-printable")
+    expect(encodings("Viele Grüße aus Köln, bis nächste Woche")).toBe("quoted-printable")
+    expect(encodings("日本語のメッセージです")).toBe("base64")
+    expect(encodings("Grüße aus Köln", { eightBitMime: true })).toBe("8bit")
+    expect(encodings("日本語のメッセージです", { eightBitMime: true })).toBe("8bit")
+    expect(encodings("Regards, \nAda")).toBe("7bit")
+    expect(encodings("Regards, \nAda", { signing: true })).toBe("quoted-printable")
+    expect(encodings("From here on", { signing: true })).toBe("quoted-printable")
+  })
+
+  it("encodes trailing whitespace and a leading From in quoted-printable", () => {
+    const out = buildMime(
+      normalizeMimeInput(
+        { from: "a@b.com", to: "c@d.com", subject: "hi", text: "Regards, \nFrom Ada\t\nFromage" },
+        "<id@host>",
+      ),
+      { signing: true },
+    )
+    expect(out.body.slice(out.body.indexOf("\r\n\r\n") + 4)).toBe(
+      "Regards,=20\r\n=46rom Ada=09\r\nFromage",
+    )
+  })
 })
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import { groupByDomain, resolveMxHosts } from "../../../src/driver/_smtp/mx.ts"
+
+const failing = (code: string) => ({
+  resolveMx: () => Promise.reject(Object.assign(new Error(code), { code })),
+})
+
+describe("resolveMxHosts", () => {
+  it("orders exchangers by preference", async () => {
+    const resolver = {
+      resolveMx: async () => [
+        { exchange: "backup.example.com.", priority: 20 },
+        { exchange: "mx.example.com", priority: 10 },
+      ],
+    }
+    expect(await resolveMxHosts("example.com", resolver)).toEqual([
+      "mx.example.com",
+      "backup.example.com",
+    ])
+  })
+
+  it("falls back to the domain itself without MX records", async () => {
+    expect(await resolveMxHosts("example.com", failing("ENODATA"))).toEqual(["example.com"])
+  })
+
+  it("fails permanently on null MX and NXDOMAIN, retryably otherwise", async () => {
+    const nullMx = { resolveMx: async () => [{ exchange: ".", priority: 0 }] }
+    await expect(resolveMxHosts("example.com", nullMx)).rejects.toMatchObject({
+      code: "PROVIDER",
+      retryable: false,
+    })
+    await expect(resolveMxHosts("nope.invalid", failing("ENOTFOUND"))).rejects.toMatchObject({
+      code: "PROVIDER",
+      retryable: false,
+    })
+    await expect(resolveMxHosts("example.com", failing("ETIMEOUT"))).rejects.toMatchObject({
+      code: "NETWORK",
+      retryable: true,
+    })
+  })
+})
+
+describe("groupByDomain", () => {
+  it("groups recipients case-insensitively by domain", () => {
+    expect(groupByDomain(["a@X.com", "b@y.com", "c@x.com"])).toEqual(
+      new Map([
+        ["x.com", ["a@X.com", "c@x.com"]],
+        ["y.com", ["b@y.com"]],
+      ]),
+    )
+  })
+})
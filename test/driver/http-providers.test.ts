@@ -133,11 +133,11 @@ describe("mailersend driver", () => {
         fetch: fetchMock as unknown as typeof fetch,
       }),
     })
-    const { data } = await email.sendBatch([
+    const { sent } = await email.sendBatch([
       { from: "a@b.com", to: "x@y.com", subject: "1", text: "x" },
       { from: "a@b.com", to: "y@y.com", subject: "2", text: "x" },
     ])
-    expect(data).toHaveLength(2)
+    expect(sent).toHaveLength(2)
     const [url] = fetchMock.mock.calls[0] as [string]
     expect(url).toBe("https://api.mailersend.com/v1/bulk-email")
   })
@@ -156,14 +156,14 @@ describe("mailtrap driver", () => {
     const email = createEmail({
       driver: mailtrap({ apiKey: "k", fetch: fetchMock as unknown as typeof fetch }),
     })
-    const { data, error } = await email.sendBatch([
+    const { sent, failed } = await email.sendBatch([
       { from: "a@b.com", to: "x@y.com", subject: "1", text: "x" },
       { from: "a@b.com", to: "y@y.com", subject: "2", text: "x" },
     ])
-    expect(error).toBeNull()
-    expect(data).toHaveLength(2)
-    expect(data?.[0]?.id).toBe("a")
-    expect(data?.[1]?.id).toBe("b")
+    expect(failed).toEqual([])
+    expect(sent).toHaveLength(2)
+    expect(sent[0]?.data.id).toBe("a")
+    expect(sent[1]?.data.id).toBe("b")
     const [url] = fetchMock.mock.calls[0] as [string]
     expect(url).toBe("https://send.api.mailtrap.io/api/batch")
     const [, init] = fetchMock.mock.calls[0] as [string, RequestInit]
@@ -322,10 +322,10 @@ describe("mailtrap driver", () => {
     const email = createEmail({
       driver: mailtrap({ apiKey: "k", fetch: fetchMock as unknown as typeof fetch }),
     })
-    const { error } = await email.sendBatch([
+    const { failed } = await email.sendBatch([
       { from: "a@b.com", to: "x@y.com", subject: "1", text: "x", sandbox: true },
     ])
-    expect(error?.code).toBe("INVALID_OPTIONS")
+    expect(failed[0]?.error.code).toBe("INVALID_OPTIONS")
     expect(fetchMock).not.toHaveBeenCalled()
   })
 
@@ -338,16 +338,17 @@ describe("mailtrap driver", () => {
         fetch: fetchMock as unknown as typeof fetch,
       }),
     })
-    const { error } = await email.sendBatch([
+    const { failed } = await email.sendBatch([
       { from: "a@b.com", to: "x@y.com", subject: "1", text: "x", sandbox: true },
       { from: "a@b.com", to: "y@y.com", subject: "2", text: "x", sandbox: false },
     ])
-    expect(error?.code).toBe("INVALID_OPTIONS")
-    expect(error?.message).toContain("mixed Email Sandbox")
+    expect(failed).toHaveLength(2)
+    expect(failed[0]?.error.code).toBe("INVALID_OPTIONS")
+    expect(failed[0]?.error.message).toContain("mixed Email Sandbox")
     expect(fetchMock).not.toHaveBeenCalled()
   })
 
-  it("sendBatch fails when a batch item has success false", async () => {
+  it("sendBatch reports the failing item by index when it has success false", async () => {
     const fetchMock = vi.fn().mockResolvedValue(
       jsonResponse({
         success: true,
@@ -360,10 +361,32 @@ describe("mailtrap driver", () => {
     const email = createEmail({
       driver: mailtrap({ apiKey: "k", fetch: fetchMock as unknown as typeof fetch }),
     })
-    const { error } = await email.sendBatch([
+    const { results, sent, failed } = await email.sendBatch([
       { from: "a@b.com", to: "x@y.com", subject: "1", text: "x" },
       { from: "a@b.com", to: "y@y.com", subject: "2", text: "x" },
     ])
-    expect(error?.code).toBe("PROVIDER")
+    expect(results).toHaveLength(2)
+    expect(sent.map((s) => s.index)).toEqual([0])
+    expect(failed.map((f) => f.index)).toEqual([1])
+    expect(failed[0]?.error.code).toBe("PROVIDER")
+  })
+
+  it("sendBatch reports unsupported items without dropping the rest", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        jsonResponse({ success: true, responses: [{ success: true, message_ids: ["b"] }] }),
+      )
+    const email = createEmail({
+      driver: mailtrap({ apiKey: "k", fetch: fetchMock as unknown as typeof fetch }),
+    })
+    const { sent, failed } = await email.sendBatch([
+      { from: "a@b.com", to: "x@y.com", subject: "1", text: "x", scheduledAt: new Date() },
+      { from: "a@b.com", to: "y@y.com", subject: "2", text: "x" },
+    ])
+    expect(failed[0]).toMatchObject({ index: 0, error: { code: "UNSUPPORTED" } })
+    expect(sent[0]).toMatchObject({ index: 1, data: { id: "b" } })
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+    expect(JSON.parse(init.body as string).requests).toHaveLength(1)
   })
 })
@@ -3,6 +3,7 @@ import { createEmail } from "../../src/index.ts"
 import { createError } from "../../src/errors.ts"
 import fallback from "../../src/driver/fallback.ts"
 import roundRobin from "../../src/driver/round-robin.ts"
+import route, { type RouteOutcome } from "../../src/driver/route.ts"
 import mock from "../../src/driver/mock.ts"
 import type { EmailDriver } from "../../src/types.ts"
 
@@ -92,3 +93,138 @@ describe("roundRobin driver", () => {
     expect(b.getInstance?.()).toHaveLength(2)
   })
 })
+
+describe("route driver", () => {
+  const msg = { from: "app@acme.com", subject: "x", text: "x" }
+
+  it("picks the first rule matching the recipient domain", async () => {
+    const microsoft = mock()
+    const rest = mock()
+    const email = createEmail({
+      driver: route({
+        rules: [{ recipientDomain: ["outlook.com", "*.live.com"], driver: microsoft }],
+        default: rest,
+      }),
+    })
+    await email.send({ ...msg, to: "ada@Outlook.com" })
+    await email.send({ ...msg, to: "bob@mail.live.com" })
+    await email.send({ ...msg, to: "cy@gmail.com" })
+    expect(microsoft.getInstance?.()).toHaveLength(2)
+    expect(rest.getInstance?.()).toHaveLength(1)
+  })
+
+  it("matches on sender domain, tag, stream, metadata and size", async () => {
+    const hit = mock()
+    const miss = mock()
+    const email = createEmail({
+      driver: route({
+        rules: [
+          {
+            senderDomain: /^acme\.com$/,
+            tag: { name: "kind", value: "receipt" },
+            stream: "transactional",
+            metadata: { tier: "pro" },
+            size: { max: 1024 },
+            driver: hit,
+          },
+        ],
+        default: miss,
+      }),
+    })
+    const base = {
+      ...msg,
+      to: "c@d.com",
+      stream: "transactional",
+      tags: [{ name: "kind", value: "receipt" }],
+      metadata: { tier: "pro" },
+    }
+    await email.send(base)
+    await email.send({ ...base, metadata: { tier: "free" } })
+    await email.send({ ...base, text: "x".repeat(2048) })
+    expect(hit.getInstance?.()).toHaveLength(1)
+    expect(miss.getInstance?.()).toHaveLength(2)
+  })
+
+  it("splits recipients across drivers and records who went where", async () => {
+    const ses = mock()
+    const resend = mock()
+    const email = createEmail({
+      driver: route({ rules: [{ recipientDomain: "hotmail.com", driver: ses }], default: resend }),
+    })
+    const { data, error } = await email.send({
+      ...msg,
+      to: ["ada@hotmail.com", "bob@gmail.com"],
+      cc: "cy@hotmail.com",
+    })
+    expect(error).toBeNull()
+    expect(data?.driver).toBe("route")
+    expect(ses.getInstance?.()[0]).toMatchObject({
+      to: [{ email: "ada@hotmail.com" }],
+      cc: [{ email: "cy@hotmail.com" }],
+    })
+    expect(resend.getInstance?.()[0]).toMatchObject({ to: [{ email: "bob@gmail.com" }], cc: [] })
+    const routes = (data!.provider as { routes: RouteOutcome[] }).routes
+    expect(routes.map((r) => [r.driver, r.recipients])).toEqual([
+      ["mock", ["ada@hotmail.com", "cy@hotmail.com"]],
+      ["mock", ["bob@gmail.com"]],
+    ])
+  })
+
+  it("fails a split send when any leg fails and keeps the legs on the cause", async () => {
+    const email = createEmail({
+      driver: route({
+        rules: [{ recipientDomain: "a.com", driver: failing("a") }],
+        default: mock(),
+      }),
+    })
+    const partial = await email.send({ ...msg, to: ["x@a.com", "y@b.com"] })
+    expect(partial.error).toMatchObject({ code: "PROVIDER", retryable: false })
+    const routes = (partial.error!.cause as { routes: RouteOutcome[] }).routes
+    expect(routes.map((r) => r.result.error?.code ?? "ok")).toEqual(["NETWORK", "ok"])
+
+    const none = createEmail({
+      driver: route({
+        rules: [{ recipientDomain: "a.com", driver: failing("a") }],
+        default: failing("b"),
+      }),
+    })
+    const { error } = await none.send({ ...msg, to: ["x@a.com", "y@b.com"] })
+    expect(error).toMatchObject({ driver: "route", code: "NETWORK" })
+    expect(error?.message).toMatch(/not delivered \(0 of 2\); first failure: NETWORK down$/)
+    const legs = (error!.cause as { routes: RouteOutcome[] }).routes
+    expect(legs.map((r) => r.recipients)).toEqual([["x@a.com"], ["y@b.com"]])
+  })
+
+  it("addresses Bcc-only legs to each of their recipients", async () => {
+    const ses = mock()
+    const resend = mock()
+    const email = createEmail({
+      driver: route({ rules: [{ recipientDomain: "hotmail.com", driver: ses }], default: resend }),
+    })
+    const { data, error } = await email.send({
+      ...msg,
+      to: "bob@gmail.com",
+      bcc: ["ada@hotmail.com", "cy@hotmail.com"],
+    })
+    expect(error).toBeNull()
+    expect(ses.getInstance?.()).toMatchObject([
+      { to: [{ email: "ada@hotmail.com" }], cc: [], bcc: [] },
+      { to: [{ email: "cy@hotmail.com" }], cc: [], bcc: [] },
+    ])
+    expect(resend.getInstance?.()[0]).toMatchObject({ to: [{ email: "bob@gmail.com" }], bcc: [] })
+    const routes = (data!.provider as { routes: RouteOutcome[] }).routes
+    expect(routes.map((r) => r.recipients)).toEqual([
+      ["bob@gmail.com"],
+      ["ada@hotmail.com"],
+      ["cy@hotmail.com"],
+    ])
+  })
+
+  it("rejects recipients no rule matches when there is no default", async () => {
+    const email = createEmail({
+      driver: route({ rules: [{ recipientDomain: "a.com", driver: mock() }] }),
+    })
+    const { error } = await email.send({ ...msg, to: "x@b.com" })
+    expect(error?.code).toBe("INVALID_OPTIONS")
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from "vitest"
-import { createEmail } from "../../src/index.ts"
+import { createEmail, createError, defineDriver, type BatchResult } from "../../src/index.ts"
 import sendgrid from "../../src/driver/sendgrid.ts"
 import mock from "../../src/driver/mock.ts"
 
@@ -28,22 +28,112 @@ describe("personalizations", () => {
     expect(body.personalizations[1].subject).toBe("Just for Bob")
   })
 
-  it("collapses to first personalization on drivers without native support", async () => {
+  it("expands into one send per personalization on drivers without native support", async () => {
     const driver = mock()
     const email = createEmail({ driver })
+    const sendAt = new Date("2030-01-01T00:00:00Z")
+    const { data, error } = await email.send({
+      from: "a@b.com",
+      to: "ignored@x.com",
+      subject: "Welcome {{name}}",
+      text: "Hi {{ name }}, your plan is {{plan.tier}}",
+      html: "<p>Hi {{name}}</p>",
+      metadata: { campaign: "spring" },
+      personalizations: [
+        { to: "ada@acme.com", variables: { name: "Ada", plan: { tier: "pro" } } },
+        {
+          to: "bob@acme.com",
+          subject: "Just for Bob",
+          variables: { name: "<Bob>" },
+          sendAt,
+          customArgs: { user: "42" },
+        },
+      ],
+    })
+    expect(error).toBeNull()
+    const inbox = driver.getInstance?.() ?? []
+    expect(inbox).toHaveLength(2)
+    const [ada, bob] = inbox
+    expect(ada).toMatchObject({
+      to: "ada@acme.com",
+      subject: "Welcome Ada",
+      text: "Hi Ada, your plan is pro",
+      html: "<p>Hi Ada</p>",
+    })
+    expect(ada).not.toHaveProperty("personalizations")
+    expect(bob).toMatchObject({
+      to: "bob@acme.com",
+      subject: "Just for Bob",
+      text: "Hi <Bob>, your plan is {{plan.tier}}",
+      html: "<p>Hi &lt;Bob&gt;</p>",
+      scheduledAt: sendAt,
+      metadata: { campaign: "spring", user: "42" },
+    })
+    expect(data?.personalizations?.sent).toHaveLength(2)
+    expect(data?.id).toBe(data?.personalizations?.sent[0]?.data.id)
+  })
+
+  it("fails when any copy failed and reports which ones went out", async () => {
+    const email = createEmail({
+      driver: defineDriver(() => ({
+        name: "picky",
+        send: (msg) =>
+          msg.to === "bad@acme.com"
+            ? { data: null, error: createError("picky", "PROVIDER", "rejected") }
+            : { data: { id: String(msg.to), driver: "picky", at: new Date() }, error: null },
+      }))(),
+    })
+    const partial = await email.send({
+      from: "a@b.com",
+      to: "ignored@x.com",
+      subject: "s",
+      text: "x",
+      personalizations: [{ to: "ok@acme.com" }, { to: "bad@acme.com" }],
+    })
+    expect(partial.error).toMatchObject({ code: "PROVIDER", retryable: false })
+    expect(partial.error?.message).toBe(
+      "[unemail] [picky] partially delivered (1 of 2); first failure: PROVIDER rejected",
+    )
+    const batch = partial.error?.cause as BatchResult
+    expect(batch.sent.map((s) => s.data.id)).toEqual(["ok@acme.com"])
+    expect(batch.failed.map((f) => f.index)).toEqual([1])
+
+    const total = await email.send({
+      from: "a@b.com",
+      to: "ignored@x.com",
+      subject: "s",
+      text: "x",
+      personalizations: [{ to: "bad@acme.com" }],
+    })
+    expect(total.error).toMatchObject({ code: "PROVIDER" })
+    expect(total.error?.message).toBe(
+      "[unemail] [picky] not delivered (0 of 1); first failure: PROVIDER rejected",
+    )
+    expect((total.error!.cause as BatchResult).failed.map((f) => f.index)).toEqual([0])
+  })
+
+  it("bounds the number of in-flight copies", async () => {
+    let inFlight = 0
+    let peak = 0
+    const email = createEmail({
+      personalizations: { concurrency: 2 },
+      driver: defineDriver(() => ({
+        name: "slow",
+        send: async () => {
+          peak = Math.max(peak, ++inFlight)
+          await new Promise((r) => setTimeout(r, 5))
+          inFlight--
+          return { data: { id: "x", driver: "slow", at: new Date() }, error: null }
+        },
+      }))(),
+    })
     await email.send({
       from: "a@b.com",
       to: "ignored@x.com",
-      subject: "Welcome",
+      subject: "s",
       text: "x",
-      personalizations: [{ to: "ada@acme.com" }, { to: "bob@acme.com" }],
+      personalizations: Array.from({ length: 6 }, (_, i) => ({ to: `u${i}@acme.com` })),
     })
-    const inbox = driver.getInstance?.() ?? []
-    expect(inbox).toHaveLength(1)
-    const sent = inbox[0]!
-    const to = Array.isArray(sent.to) ? sent.to : [sent.to]
-    const email0 = typeof to[0] === "string" ? to[0] : (to[0] as { email: string }).email
-    expect(email0).toBe("ada@acme.com")
-    expect(sent).not.toHaveProperty("personalizations")
+    expect(peak).toBe(2)
   })
 })
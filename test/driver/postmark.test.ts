@@ -91,7 +91,7 @@ describe("postmark driver", () => {
     expect(error?.retryable).toBe(false)
   })
 
-  it("sendBatch posts to /email/batch and fails the whole batch on partial error", async () => {
+  it("sendBatch posts to /email/batch and reports partial errors per message", async () => {
     const fetchMock = vi
       .fn()
       .mockResolvedValue(
@@ -100,13 +100,17 @@ describe("postmark driver", () => {
     const email = createEmail({
       driver: postmark({ token: "pmk_test", fetch: fetchMock as unknown as typeof fetch }),
     })
-    const { data, error } = await email.sendBatch([
+    const { results, sent, failed } = await email.sendBatch([
       { from: "a@b.com", to: "x@y.com", subject: "1", text: "x" },
       { from: "a@b.com", to: "y@y.com", subject: "2", text: "x" },
     ])
-    expect(data).toBeNull()
-    expect(error?.code).toBe("PROVIDER")
-    expect(error?.message).toMatch(/Invalid recipient/)
+    expect(results[0]?.data?.id).toBe("a")
+    expect(sent).toHaveLength(1)
+    expect(failed).toHaveLength(1)
+    expect(failed[0]?.index).toBe(1)
+    expect(failed[0]?.error.code).toBe("PROVIDER")
+    expect(failed[0]?.error.status).toBe(300)
+    expect(failed[0]?.error.message).toMatch(/Invalid recipient/)
     const [url] = fetchMock.mock.calls[0] as [string]
     expect(url).toBe("https://api.postmarkapp.com/email/batch")
   })
@@ -121,12 +125,12 @@ describe("postmark driver", () => {
     const email = createEmail({
       driver: postmark({ token: "pmk_test", fetch: fetchMock as unknown as typeof fetch }),
     })
-    const { data, error } = await email.sendBatch([
+    const { sent, failed } = await email.sendBatch([
       { from: "a@b.com", to: "x@y.com", subject: "1", text: "x" },
       { from: "a@b.com", to: "y@y.com", subject: "2", text: "x" },
     ])
-    expect(error).toBeNull()
-    expect(data).toHaveLength(2)
-    expect(data?.[0]?.id).toBe("a")
+    expect(failed).toEqual([])
+    expect(sent).toHaveLength(2)
+    expect(sent[0]?.data.id).toBe("a")
   })
 })
@@ -94,14 +94,36 @@ describe("resend driver", () => {
     const email = createEmail({
       driver: resend({ apiKey: "re_test_key", fetch: fetchMock as unknown as typeof fetch }),
     })
-    const { data } = await email.sendBatch([
+    const { sent } = await email.sendBatch([
       { from: "a@b.com", to: "x@y.com", subject: "1", text: "x" },
       { from: "a@b.com", to: "y@y.com", subject: "2", text: "x" },
     ])
-    expect(data).toHaveLength(2)
-    expect(data?.[0]?.id).toBe("a")
-    const [url] = fetchMock.mock.calls[0] as [string]
+    expect(sent).toHaveLength(2)
+    expect(sent[0]?.data.id).toBe("a")
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
     expect(url).toBe("https://api.resend.com/emails/batch")
+    expect((init.headers as Record<string, string>)["x-batch-validation"]).toBe("permissive")
+  })
+
+  it("maps permissive batch errors back to their input index", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      jsonResponse({
+        data: [{ id: "a" }, { id: "c" }],
+        errors: [{ index: 1, message: "Invalid `to` field" }],
+      }),
+    )
+    const email = createEmail({
+      driver: resend({ apiKey: "re_test_key", fetch: fetchMock as unknown as typeof fetch }),
+    })
+    const { results, failed } = await email.sendBatch([
+      { from: "a@b.com", to: "x@y.com", subject: "1", text: "x" },
+      { from: "a@b.com", to: "not-an-address", subject: "2", text: "x" },
+      { from: "a@b.com", to: "z@y.com", subject: "3", text: "x" },
+    ])
+    expect(results.map((r) => r.data?.id ?? null)).toEqual(["a", null, "c"])
+    expect(failed).toHaveLength(1)
+    expect(failed[0]?.index).toBe(1)
+    expect(failed[0]?.error.message).toMatch(/Invalid `to` field/)
   })
 
   it("rejects apiKey that does not start with 're_'", () => {
@@ -1,6 +1,7 @@
 import { afterEach, describe, expect, it } from "vitest"
 import { createEmail } from "../../src/index.ts"
 import smtp from "../../src/driver/smtp.ts"
+import { createOutboundTlsPolicy, type TlsRptFailure } from "../../src/mta-sts/index.ts"
 import { startFakeServer } from "./_smtp/fake-server.ts"
 import type { FakeServerHandle } from "./_smtp/fake-server.ts"
 
@@ -98,6 +99,388 @@ describe("smtp driver", () => {
     await email.dispose()
   })
 
+  it("tears the transaction down when `timeoutMs` passes", async () => {
+    active = await startFakeServer([
+      ...happyPath.slice(0, 5),
+      { expect: /^\.$/, delay: 2000, reply: "250 2.0.0 queued as abc" },
+    ])
+    const email = createEmail({
+      driver: smtp({
+        host: active.host,
+        port: active.port,
+        secure: false,
+        connectionTimeoutMs: 3000,
+        commandTimeoutMs: 3000,
+      }),
+    })
+    const started = Date.now()
+    const { error } = await email.send(
+      { from: "a@b.com", to: "c@d.com", subject: "x", text: "x" },
+      { timeoutMs: 200 },
+    )
+    expect(error?.code).toBe("TIMEOUT")
+    expect(Date.now() - started).toBeLessThan(1500)
+    await email.dispose()
+  })
+
+  it("adds DSN parameters when the server advertises DSN", async () => {
+    active = await startFakeServer([
+      { reply: "220 test.example ESMTP" },
+      { expect: /^EHLO /, reply: ["250-test.example hello", "250 DSN"] },
+      ...happyPath.slice(2),
+    ])
+    const email = createEmail({
+      driver: smtp({ host: active.host, port: active.port, secure: false }),
+    })
+    const { error } = await email.send({
+      from: "a@b.com",
+      to: "c@d.com",
+      subject: "x",
+      text: "x",
+      dsn: { notify: ["FAILURE", "DELAY"], ret: "HDRS", envid: "env-1" },
+    })
+    expect(error).toBeNull()
+    expect(active.received).toContain("MAIL FROM:<a@b.com> RET=HDRS ENVID=env-1")
+    expect(active.received).toContain("RCPT TO:<c@d.com> NOTIFY=FAILURE,DELAY")
+    await email.dispose()
+  })
+
+  it("sends non-ASCII text as 8bit only to servers advertising 8BITMIME", async () => {
+    const msg = {
+      from: "a@b.com",
+      to: "c@d.com",
+      subject: "x",
+      text: "Viele Grüße aus Köln, bis nächste Woche",
+    }
+    for (const eightBit of [false, true]) {
+      active = await startFakeServer([
+        { reply: "220 test.example ESMTP" },
+        {
+          expect: /^EHLO /,
+          reply: eightBit ? ["250-test.example hello", "250 8BITMIME"] : "250 test.example hello",
+        },
+        ...happyPath.slice(2),
+      ])
+      const email = createEmail({
+        driver: smtp({ host: active.host, port: active.port, secure: false }),
+      })
+      expect((await email.send(msg)).error).toBeNull()
+      const mailFrom = active.received.find((line) => line.startsWith("MAIL FROM:"))
+      if (eightBit) {
+        expect(mailFrom).toBe("MAIL FROM:<a@b.com> BODY=8BITMIME")
+        expect(active.received).toContain("Content-Transfer-Encoding: 8bit")
+        expect(active.received).toContain(msg.text)
+      } else {
+        expect(mailFrom).toBe("MAIL FROM:<a@b.com>")
+        expect(active.received).toContain("Content-Transfer-Encoding: quoted-printable")
+      }
+      await email.dispose()
+      await active.close()
+      active = null
+    }
+  })
+
+  it("warns or rejects when the server lacks DSN", async () => {
+    const msg = {
+      from: "a@b.com",
+      to: "c@d.com",
+      subject: "x",
+      text: "x",
+      dsn: { notify: ["FAILURE" as const] },
+    }
+    active = await startFakeServer(happyPath)
+    const warn = createEmail({
+      driver: smtp({ host: active.host, port: active.port, secure: false }),
+    })
+    const { data } = await warn.send(msg)
+    expect(data?.provider?.warnings).toEqual([expect.stringContaining("does not advertise DSN")])
+    expect(active.received).toContain("MAIL FROM:<a@b.com>")
+    await warn.dispose()
+
+    const reject = createEmail({
+      driver: smtp({
+        host: active.host,
+        port: active.port,
+        secure: false,
+        dsnUnsupported: "reject",
+      }),
+    })
+    const { error } = await reject.send(msg)
+    expect(error?.code).toBe("UNSUPPORTED")
+    await reject.dispose()
+  })
+
+  it("pipelines the envelope and DATA when PIPELINING is offered", async () => {
+    active = await startFakeServer([
+      { reply: "220 test.example ESMTP" },
+      { expect: /^EHLO /, reply: ["250-test.example hello", "250 PIPELINING"] },
+      { expect: /^MAIL FROM:/, reply: "250 ok" },
+      { expect: "RCPT TO:<a@x.com>", reply: "250 ok" },
+      { expect: "RCPT TO:<b@x.com>", reply: "250 ok" },
+      { expect: /^DATA$/, reply: "354 go ahead" },
+      { expect: /^\.$/, reply: "250 queued" },
+      { expect: /^QUIT$/, reply: "221 bye" },
+    ])
+    const email = createEmail({
+      driver: smtp({ host: active.host, port: active.port, secure: false }),
+    })
+    const { error } = await email.send({
+      from: "s@x.com",
+      to: ["a@x.com", "b@x.com"],
+      subject: "x",
+      text: "x",
+    })
+    expect(error).toBeNull()
+    expect(active.batches).toContainEqual([
+      "MAIL FROM:<s@x.com>",
+      "RCPT TO:<a@x.com>",
+      "RCPT TO:<b@x.com>",
+      "DATA",
+    ])
+    await email.dispose()
+  })
+
+  it("reports the first failing reply of a pipelined group", async () => {
+    active = await startFakeServer([
+      { reply: "220 test.example ESMTP" },
+      { expect: /^EHLO /, reply: ["250-test.example hello", "250 PIPELINING"] },
+      { expect: /^MAIL FROM:/, reply: "250 ok" },
+      { expect: /^RCPT TO:/, reply: "250 ok" },
+      { expect: /^RCPT TO:/, reply: "550 5.1.1 no such user" },
+      { expect: /^DATA$/, reply: "354 go ahead" },
+    ])
+    const email = createEmail({
+      driver: smtp({ host: active.host, port: active.port, secure: false }),
+    })
+    const { error } = await email.send({
+      from: "s@x.com",
+      to: ["a@x.com", "b@x.com"],
+      subject: "x",
+      text: "x",
+    })
+    expect(error?.status).toBe(550)
+    expect(error?.message).toContain("RCPT TO: 550")
+    await email.dispose()
+  })
+
+  it("sends the body with BDAT when CHUNKING is offered", async () => {
+    active = await startFakeServer([
+      { reply: "220 test.example ESMTP" },
+      { expect: /^EHLO /, reply: ["250-test.example hello", "250 CHUNKING"] },
+      { expect: /^MAIL FROM:/, reply: "250 ok" },
+      { expect: /^RCPT TO:/, reply: "250 ok" },
+      { expect: /^BDAT \d+ LAST$/, reply: "250 queued" },
+      { expect: /^QUIT$/, reply: "221 bye" },
+    ])
+    const email = createEmail({
+      driver: smtp({ host: active.host, port: active.port, secure: false }),
+    })
+    const { error } = await email.send({
+      from: "s@x.com",
+      to: "a@x.com",
+      subject: "x",
+      text: "line one\n.leading dot",
+    })
+    expect(error).toBeNull()
+    expect(active.received).not.toContain("DATA")
+    const body = active.received.find((line) => line.includes("Subject: x"))
+    expect(body).toContain("\r\n.leading dot")
+    expect(body).not.toContain("..leading dot")
+    await email.dispose()
+  })
+
+  it("fails atomically on a rejected recipient, listing every reply", async () => {
+    active = await startFakeServer([
+      { reply: "220 test.example ESMTP" },
+      { expect: /^EHLO /, reply: "250 test.example hello" },
+      { expect: /^MAIL FROM:/, reply: "250 ok" },
+      { expect: /^RCPT TO:/, reply: "250 2.1.5 ok" },
+      { expect: /^RCPT TO:/, reply: "550 5.1.1 no such user" },
+      { expect: /^QUIT$/, reply: "221 bye" },
+    ])
+    const email = createEmail({
+      driver: smtp({ host: active.host, port: active.port, secure: false }),
+    })
+    const { error } = await email.send({
+      from: "s@x.com",
+      to: ["a@x.com", "b@x.com"],
+      subject: "x",
+      text: "x",
+    })
+    expect(error?.status).toBe(550)
+    expect(error?.cause).toMatchObject({
+      accepted: [{ email: "a@x.com", code: 250, status: "2.1.5" }],
+      rejected: [{ email: "b@x.com", code: 550, status: "5.1.1" }],
+    })
+    expect(active.received).not.toContain("DATA")
+    await email.dispose()
+  })
+
+  it("delivers to the accepted subset with `partialDelivery`", async () => {
+    active = await startFakeServer([
+      { reply: "220 test.example ESMTP" },
+      { expect: /^EHLO /, reply: ["250-test.example hello", "250 PIPELINING"] },
+      { expect: /^MAIL FROM:/, reply: "250 ok" },
+      { expect: /^RCPT TO:/, reply: "550 5.1.1 no such user" },
+      { expect: /^RCPT TO:/, reply: "250 2.1.5 ok" },
+      { expect: /^DATA$/, reply: "354 go ahead" },
+      { expect: /^\.$/, reply: "250 queued" },
+      { expect: /^QUIT$/, reply: "221 bye" },
+    ])
+    const email = createEmail({
+      driver: smtp({ host: active.host, port: active.port, secure: false, partialDelivery: true }),
+    })
+    const { data, error } = await email.send({
+      from: "s@x.com",
+      to: ["gone@x.com", "b@x.com"],
+      subject: "x",
+      text: "x",
+    })
+    expect(error).toBeNull()
+    expect(data?.provider).toMatchObject({
+      accepted: [{ email: "b@x.com", code: 250 }],
+      rejected: [{ email: "gone@x.com", code: 550, status: "5.1.1" }],
+    })
+    await email.dispose()
+  })
+
+  it("delivers direct to MX, walking exchangers by preference", async () => {
+    active = await startFakeServer(happyPath)
+    const resolver = {
+      resolveMx: async () => [
+        // Nothing listens on 127.0.0.2 — the next exchanger takes over.
+        { exchange: "127.0.0.2", priority: 10 },
+        { exchange: "127.0.0.1", priority: 20 },
+      ],
+    }
+    const email = createEmail({
+      driver: smtp({ directMx: { resolver, port: active.port }, connectionTimeoutMs: 2000 }),
+    })
+    const { data, error } = await email.send({
+      from: "a@b.com",
+      to: "rcpt@example.com",
+      subject: "x",
+      text: "x",
+    })
+    expect(error).toBeNull()
+    expect(data?.provider?.domains).toMatchObject([
+      { domain: "example.com", recipients: ["rcpt@example.com"], host: "127.0.0.1" },
+    ])
+    await email.dispose()
+  })
+
+  it("classifies direct-to-MX failures per domain", async () => {
+    active = await startFakeServer(happyPath)
+    const resolver = {
+      resolveMx: async (domain: string) => {
+        if (domain === "gone.example")
+          throw Object.assign(new Error("nxdomain"), { code: "ENOTFOUND" })
+        return [{ exchange: "127.0.0.1", priority: 10 }]
+      },
+    }
+    const msg = { from: "a@b.com", to: ["ok@example.com", "x@gone.example"], subject: "x" }
+    const email = createEmail({
+      driver: smtp({ directMx: { resolver, port: active.port } }),
+    })
+    const { error } = await email.send({ ...msg, text: "x" })
+    expect(error).toMatchObject({ code: "PROVIDER", retryable: false })
+    const cause = error?.cause as { domains: Array<{ domain: string; error?: { code: string } }> }
+    expect(cause.domains.map((d) => [d.domain, d.error?.code])).toEqual([
+      ["example.com", undefined],
+      ["gone.example", "PROVIDER"],
+    ])
+    await email.dispose()
+
+    const partial = createEmail({
+      driver: smtp({ directMx: { resolver, port: active.port }, partialDelivery: true }),
+    })
+    const { data } = await partial.send({ ...msg, text: "y" })
+    expect(data?.provider?.accepted).toMatchObject([{ email: "ok@example.com" }])
+    await partial.dispose()
+  })
+
+  it("holds direct-to-MX sessions to the recipient's MTA-STS policy", async () => {
+    /** Policy for example.com listing the fake server; it offers no STARTTLS. */
+    const policy = (mode: string, failures: TlsRptFailure[]) =>
+      createOutboundTlsPolicy({
+        resolver: { resolveTxt: async () => [["v=STSv1; id=20260101"]] },
+        fetch: async () =>
+          new Response(`version: STSv1\nmode: ${mode}\nmx: 127.0.0.1\nmax_age: 86400\n`, {
+            headers: { "content-type": "text/plain" },
+          }),
+        onFailure: (failure) => failures.push(failure),
+      })
+    const resolveMx = async () => [{ exchange: "127.0.0.1", priority: 10 }]
+    const msg = { from: "a@b.com", to: "rcpt@example.com", subject: "x", text: "x" }
+
+    active = await startFakeServer(happyPath)
+    const enforced: TlsRptFailure[] = []
+    const strict = createEmail({
+      driver: smtp({
+        directMx: {
+          resolver: { resolveMx },
+          port: active.port,
+          tlsPolicy: policy("enforce", enforced),
+        },
+      }),
+    })
+    const { error } = await strict.send(msg)
+    expect(error).toMatchObject({ code: "NETWORK", retryable: true })
+    expect(error?.cause).toMatchObject({ tlsResult: "starttls-not-supported" })
+    expect(active.received.some((line) => line.startsWith("MAIL FROM"))).toBe(false)
+    expect(enforced).toMatchObject([
+      { policyType: "sts", policyDomain: "example.com", resultType: "starttls-not-supported" },
+    ])
+    await strict.dispose()
+    await active.close()
+
+    active = await startFakeServer(happyPath)
+    const tested: TlsRptFailure[] = []
+    const lenient = createEmail({
+      driver: smtp({
+        directMx: {
+          resolver: { resolveMx },
+          port: active.port,
+          tlsPolicy: policy("testing", tested),
+        },
+      }),
+    })
+    expect((await lenient.send(msg)).error).toBeNull()
+    expect(tested.map((failure) => failure.resultType)).toEqual(["starttls-not-supported"])
+    await lenient.dispose()
+  })
+
+  it("skips exchangers an enforced MTA-STS policy doesn't list", async () => {
+    const failures: TlsRptFailure[] = []
+    const tlsPolicy = createOutboundTlsPolicy({
+      resolver: { resolveTxt: async () => [["v=STSv1; id=1"]] },
+      fetch: async () =>
+        new Response("version: STSv1\nmode: enforce\nmx: mx.example.com\nmax_age: 60\n", {
+          headers: { "content-type": "text/plain" },
+        }),
+      onFailure: (failure) => failures.push(failure),
+    })
+    const email = createEmail({
+      driver: smtp({
+        directMx: {
+          resolver: { resolveMx: async () => [{ exchange: "127.0.0.1", priority: 10 }] },
+          tlsPolicy,
+        },
+      }),
+    })
+    const { error } = await email.send({
+      from: "a@b.com",
+      to: "x@example.com",
+      subject: "x",
+      text: "x",
+    })
+    expect(error?.cause).toMatchObject({ host: "127.0.0.1", tlsResult: "validation-failure" })
+    expect(failures).toMatchObject([
+      { resultType: "validation-failure", receivingMxHostname: "127.0.0.1" },
+    ])
+    await email.dispose()
+  })
+
   it("uses localName in EHLO, not the server host (#8 Brevo)", async () => {
     active = await startFakeServer(happyPath)
     const email = createEmail({
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest"
+import { createEmail, createError, defineDriver, type EmailResult } from "../src/index.ts"
+import { memoryIdempotencyStore, unstorageIdempotencyStore } from "../src/_idempotency.ts"
+import { withDedupe } from "../src/middleware/dedupe.ts"
+
+const msg = { from: "a@b.com", to: "c@d.com", subject: "s", text: "x", idempotencyKey: "order-1" }
+
+/** Driver whose sends stay in flight until `finish()` is called. */
+function gated(options: { fail?: boolean } = {}) {
+  let calls = 0
+  let open!: () => void
+  const gate = new Promise<void>((resolve) => {
+    open = resolve
+  })
+  const driver = defineDriver(() => ({
+    name: "gated",
+    async send() {
+      calls++
+      await gate
+      if (options.fail) {
+        return { data: null, error: createError("gated", "PROVIDER", "boom") }
+      }
+      return { data: { id: `id_${calls}`, driver: "gated", at: new Date() }, error: null }
+    },
+  }))()
+  return { driver, finish: () => open(), calls: () => calls }
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 5))
+
+describe("idempotency leases", () => {
+  it("joins concurrent sends with the same key in one process", async () => {
+    const { driver, finish, calls } = gated()
+    const email = createEmail({ driver, idempotency: true })
+    const pending = [email.send(msg), email.send(msg)]
+    finish()
+    const [a, b] = await Promise.all(pending)
+    expect(calls()).toBe(1)
+    expect(a.data?.id).toBe("id_1")
+    expect(b.data?.id).toBe("id_1")
+  })
+
+  it("makes a second worker wait for the first one's result", async () => {
+    const store = memoryIdempotencyStore()
+    const first = gated()
+    const second = gated()
+    const workerA = createEmail({ driver: first.driver, idempotency: { store, pollMs: 1 } })
+    const workerB = createEmail({ driver: second.driver, idempotency: { store, pollMs: 1 } })
+
+    const a = workerA.send(msg)
+    await tick()
+    const b = workerB.send(msg)
+    await tick()
+    first.finish()
+    expect((await b).data?.id).toBe("id_1")
+    expect((await a).data?.id).toBe("id_1")
+    expect(second.calls()).toBe(0)
+  })
+
+  it("lets a waiter take over after the first send fails", async () => {
+    const store = memoryIdempotencyStore()
+    const failing = gated({ fail: true })
+    const ok = gated()
+    ok.finish()
+    const workerA = createEmail({ driver: failing.driver, idempotency: { store, pollMs: 1 } })
+    const workerB = createEmail({ driver: ok.driver, idempotency: { store, pollMs: 1 } })
+
+    const a = workerA.send(msg)
+    await tick()
+    const b = workerB.send(msg)
+    failing.finish()
+    expect((await a).error?.code).toBe("PROVIDER")
+    expect((await b).data?.driver).toBe("gated")
+    expect(ok.calls()).toBe(1)
+  })
+
+  it("signals a retryable TIMEOUT when the lease expires mid-flight", async () => {
+    const store = memoryIdempotencyStore()
+    const stuck = gated()
+    const other = gated()
+    const options = { store, leaseSeconds: 0.02, waitMs: 1000, pollMs: 5 }
+    const workerA = createEmail({ driver: stuck.driver, idempotency: options })
+    const workerB = createEmail({ driver: other.driver, idempotency: options })
+
+    void workerA.send(msg)
+    await tick()
+    const { error } = await workerB.send(msg)
+    expect(error?.code).toBe("TIMEOUT")
+    expect(error?.retryable).toBe(true)
+    expect(other.calls()).toBe(0)
+    stuck.finish()
+  })
+
+  it("stops waiting on another worker's lease when the send times out", async () => {
+    const store = memoryIdempotencyStore()
+    const stuck = gated()
+    const other = gated()
+    const workerA = createEmail({ driver: stuck.driver, idempotency: { store } })
+    const workerB = createEmail({ driver: other.driver, idempotency: { store } })
+
+    void workerA.send(msg)
+    await tick()
+    const started = Date.now()
+    const { error } = await workerB.send(msg, { timeoutMs: 20 })
+    expect(error?.code).toBe("TIMEOUT")
+    expect(Date.now() - started).toBeLessThan(1000)
+    expect(other.calls()).toBe(0)
+
+    // Same process: the joined in-flight send is abandoned as well.
+    const joiner = await workerA.send(msg, { timeoutMs: 20 })
+    expect(joiner.error?.code).toBe("TIMEOUT")
+    stuck.finish()
+  })
+
+  it("withDedupe joins concurrent duplicates", async () => {
+    const { driver, finish, calls } = gated()
+    const email = createEmail({ driver }).use(withDedupe())
+    const pending = [email.send(msg), email.send(msg)]
+    finish()
+    await Promise.all(pending)
+    expect(calls()).toBe(1)
+  })
+})
+
+describe("unstorageIdempotencyStore", () => {
+  function fakeStorage() {
+    const data = new Map<string, string>()
+    return {
+      data,
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: unknown) => void data.set(key, JSON.stringify(value)),
+      removeItem: (key: string) => void data.delete(key),
+    }
+  }
+
+  it("moves a key from acquired to pending to completed", async () => {
+    const storage = fakeStorage()
+    const store = unstorageIdempotencyStore(storage)
+    const lease = await store.acquire!("k", 30)
+    expect(lease.status).toBe("acquired")
+    expect((await store.acquire!("k", 30)).status).toBe("pending")
+    expect(await store.get("k")).toBeNull()
+
+    const result: EmailResult = { id: "m1", driver: "x", at: new Date() }
+    await store.set("k", result)
+    const done = await store.acquire!("k", 30)
+    expect(done.status).toBe("completed")
+    expect(done.status === "completed" && done.result.at).toBeInstanceOf(Date)
+    expect([...storage.data.keys()]).toEqual(["unemail:idempotency:k"])
+  })
+
+  it("release frees the key only for the lease holder", async () => {
+    const store = unstorageIdempotencyStore(fakeStorage())
+    const lease = await store.acquire!("k", 30)
+    await store.release!("k", "someone-else")
+    expect((await store.acquire!("k", 30)).status).toBe("pending")
+    if (lease.status === "acquired") await store.release!("k", lease.token)
+    expect((await store.acquire!("k", 30)).status).toBe("acquired")
+  })
+})
@@ -168,4 +168,31 @@ describe("withRetry", () => {
     expect(letters[0]!.msg).toBe("dead")
     expect(String(letters[0]!.reason)).toContain("boom")
   })
+
+  it("works as around-middleware via email.use()", async () => {
+    const driver = flakyDriver(2)
+    const email = createEmail({ driver }).use(
+      withRetry({ retries: 3, initialDelay: 1, sleep: () => Promise.resolve() }),
+    )
+    const res = await email.send({ from: "a@b.com", to: "c@d.com", subject: "x", text: "x" })
+    expect(res.data?.id).toBe("ok_3")
+    expect(driver.attempts).toBe(3)
+  })
+
+  it("stops backing off when the send is aborted", async () => {
+    const driver = flakyDriver(10)
+    const controller = new AbortController()
+    const email = createEmail({
+      driver: withRetry(driver, { retries: 5, initialDelay: 10_000 }),
+    })
+    const pending = email.send(
+      { from: "a@b.com", to: "c@d.com", subject: "x", text: "x" },
+      { signal: controller.signal },
+    )
+    await new Promise((r) => setTimeout(r, 5))
+    controller.abort()
+    const res = await pending
+    expect(res.error?.code).toBe("CANCELLED")
+    expect(driver.attempts).toBe(1)
+  })
 })
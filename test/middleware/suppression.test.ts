@@ -114,4 +114,58 @@ describe("withSuppression", () => {
     })
     expect(blocks).toEqual([["blocked@x.com", "complaint"]])
   })
+
+  it("can be scoped to a single stream as middleware", async () => {
+    const store = memorySuppressionStore()
+    await store.add("blocked@x.com", "complaint")
+    const transactional = capturing()
+    const broadcast = capturing()
+    const email = createEmail({ driver: transactional.driver }).mount(
+      "broadcast",
+      broadcast.driver,
+      { middleware: [withSuppression({ store })] },
+    )
+    const msg = { from: "a@b.com", to: "blocked@x.com", subject: "hi", text: "x" }
+    const tx = await email.send(msg)
+    const bc = await email.send({ ...msg, stream: "broadcast" })
+    expect(tx.error).toBeNull()
+    expect(bc.error?.message).toMatch(/suppressed/)
+    expect(broadcast.count()).toBe(0)
+  })
+
+  it("records hard-rejected recipients reported by the driver", async () => {
+    const store = memorySuppressionStore()
+    const driver: EmailDriver = {
+      name: "smtp",
+      send: () => ({
+        data: {
+          id: "1",
+          driver: "smtp",
+          at: new Date(),
+          provider: {
+            rejected: [
+              { email: "gone@x.com", code: 550, status: "5.1.1", message: "no such user" },
+              { email: "blocked@x.com", code: 550, status: "5.7.1", message: "policy" },
+              { email: "spam@x.com", code: 550, message: "message rejected as spam" },
+            ],
+          },
+        },
+        error: null,
+      }),
+    }
+    const msg = {
+      from: "a@b.com",
+      to: ["gone@x.com", "blocked@x.com", "spam@x.com"],
+      subject: "s",
+      text: "x",
+    }
+    await createEmail({ driver: withSuppression(driver, { store }) }).send(msg)
+    expect(await store.has("gone@x.com")).toBeNull()
+
+    const recording = withSuppression(driver, { store, recordRejects: true })
+    await createEmail({ driver: recording }).send(msg)
+    expect(await store.has("gone@x.com")).toMatchObject({ reason: "invalid", source: "smtp" })
+    expect(await store.has("blocked@x.com")).toBeNull()
+    expect(await store.has("spam@x.com")).toBeNull()
+  })
 })
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest"
+import {
+  createOutboundTlsPolicy,
+  matchMx,
+  matchTlsa,
+  parseMtaStsPolicy,
+  summarizeTlsFailures,
+  type TlsRptFailure,
+} from "../../src/mta-sts/index.ts"
+
+const body =
+  "version: STSv1\r\nmode: enforce\r\nmx: mx1.example.com\r\nmx: *.mx.example.com\r\nmax_age: 86400\r\n"
+
+function policyFetch(text = body, init: ResponseInit = {}) {
+  const urls: string[] = []
+  const fetch = (async (url: string) => {
+    urls.push(url)
+    return new Response(text, { headers: { "content-type": "text/plain; charset=utf-8" }, ...init })
+  }) as typeof globalThis.fetch
+  return { fetch, urls }
+}
+
+const stsTxt = { resolveTxt: async () => [["v=STSv1; id=20260101T000000"]] }
+
+describe("parseMtaStsPolicy", () => {
+  it("reads mode, every mx line and max_age", () => {
+    expect(parseMtaStsPolicy(body)).toEqual({
+      mode: "enforce",
+      mx: ["mx1.example.com", "*.mx.example.com"],
+      maxAgeSeconds: 86400,
+    })
+  })
+
+  it("rejects bodies that aren't STSv1 policies", () => {
+    expect(parseMtaStsPolicy("version: STSv2\nmode: enforce\nmx: a\nmax_age: 1")).toBeNull()
+    expect(parseMtaStsPolicy("version: STSv1\nmode: enforce\nmax_age: 1")).toBeNull()
+    expect(parseMtaStsPolicy("version: STSv1\nmode: strict\nmx: a\nmax_age: 1")).toBeNull()
+    expect(parseMtaStsPolicy("version: STSv1\nmode: none\nmax_age: 1")?.mode).toBe("none")
+  })
+})
+
+describe("matchMx", () => {
+  it("matches exact names and single-label wildcards", () => {
+    expect(matchMx("MX1.example.com.", "mx1.example.com")).toBe(true)
+    expect(matchMx("a.mx.example.com", "*.mx.example.com")).toBe(true)
+    expect(matchMx("a.b.mx.example.com", "*.mx.example.com")).toBe(false)
+    expect(matchMx("mx.example.com", "*.mx.example.com")).toBe(false)
+  })
+})
+
+describe("createOutboundTlsPolicy", () => {
+  it("fetches a policy once and plans each exchanger against it", async () => {
+    const { fetch, urls } = policyFetch()
+    const failures: TlsRptFailure[] = []
+    const policy = createOutboundTlsPolicy({
+      fetch,
+      resolver: stsTxt,
+      onFailure: (f) => failures.push(f),
+    })
+    const plans = await policy.plan("example.com", ["a.mx.example.com", "rogue.example.net"])
+    await policy.plan("example.com", ["mx1.example.com"])
+    expect(urls).toEqual(["https://mta-sts.example.com/.well-known/mta-sts.txt"])
+    expect(plans.map((p) => [p.host, p.policyType, p.enforce, p.refused])).toEqual([
+      ["a.mx.example.com", "sts", true, undefined],
+      ["rogue.example.net", "sts", true, "validation-failure"],
+    ])
+    expect(failures).toMatchObject([
+      {
+        policyType: "sts",
+        resultType: "validation-failure",
+        receivingMxHostname: "rogue.example.net",
+      },
+    ])
+    expect(await plans[0]!.check({ authorized: true, chain: [] })).toBeNull()
+    expect(
+      await plans[0]!.check({
+        authorized: false,
+        authorizationError: "ERR_TLS_CERT_ALTNAME_INVALID",
+        chain: [],
+      }),
+    ).toBe("certificate-host-mismatch")
+  })
+
+  it("falls back to no policy when there is none to fetch", async () => {
+    const failures: TlsRptFailure[] = []
+    const missing = createOutboundTlsPolicy({
+      fetch: policyFetch().fetch,
+      resolver: {
+        resolveTxt: async () => {
+          throw Object.assign(new Error("no data"), { code: "ENODATA" })
+        },
+      },
+    })
+    expect((await missing.plan("example.com", ["mx1.example.com"]))[0]!.policyType).toBe(
+      "no-policy-found",
+    )
+
+    const broken = createOutboundTlsPolicy({
+      fetch: policyFetch("not found", { status: 404 }).fetch,
+      resolver: stsTxt,
+      onFailure: (f) => failures.push(f),
+    })
+    const [plan] = await broken.plan("example.com", ["mx1.example.com"])
+    expect(plan).toMatchObject({ policyType: "no-policy-found", enforce: false })
+    expect(failures).toMatchObject([{ policyType: "sts", resultType: "sts-policy-fetch-error" }])
+  })
+
+  it("lets testing mode through but reports mismatches", async () => {
+    const failures: TlsRptFailure[] = []
+    const policy = createOutboundTlsPolicy({
+      fetch: policyFetch(body.replace("enforce", "testing")).fetch,
+      resolver: stsTxt,
+      onFailure: (f) => failures.push(f),
+    })
+    const [plan] = await policy.plan("example.com", ["rogue.example.net"])
+    expect(plan!.enforce).toBe(false)
+    expect(plan!.refused).toBeUndefined()
+    expect(failures).toHaveLength(1)
+  })
+
+  it("authenticates DANE-EE exchangers by their TLSA records", async () => {
+    const leaf = new TextEncoder().encode("not really DER, but selector 0 hashes it as is")
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", leaf))
+    const policy = createOutboundTlsPolicy({
+      dane: true,
+      resolver: {
+        ...stsTxt,
+        resolveTlsa: async (name) =>
+          name === "_25._tcp.mx1.example.com"
+            ? [{ certUsage: 3, selector: 0, match: 1, data: digest }]
+            : [],
+      },
+      fetch: policyFetch().fetch,
+    })
+    const [dane, sts] = await policy.plan("example.com", ["mx1.example.com", "a.mx.example.com"])
+    expect([dane!.policyType, sts!.policyType]).toEqual(["tlsa", "sts"])
+    expect(await dane!.check({ authorized: false, chain: [leaf] })).toBeNull()
+    expect(await dane!.check({ authorized: true, chain: [new Uint8Array(4)] })).toBe(
+      "validation-failure",
+    )
+    expect(await matchTlsa([{ certUsage: 2, selector: 0, match: 1, data: digest }], [leaf])).toBe(
+      false,
+    )
+  })
+})
+
+describe("summarizeTlsFailures", () => {
+  it("counts failures per policy, result type and exchanger", () => {
+    const at = new Date()
+    const failure = {
+      policyType: "sts",
+      policyDomain: "example.com",
+      resultType: "starttls-not-supported",
+      receivingMxHostname: "mx1.example.com",
+      at,
+    } as const
+    expect(
+      summarizeTlsFailures([failure, failure, { ...failure, resultType: "certificate-expired" }]),
+    ).toEqual([
+      {
+        policyType: "sts",
+        policyDomain: "example.com",
+        totalFailure: 3,
+        failureDetails: [
+          {
+            resultType: "starttls-not-supported",
+            receivingMxHostname: "mx1.example.com",
+            count: 2,
+          },
+          { resultType: "certificate-expired", receivingMxHostname: "mx1.example.com", count: 1 },
+        ],
+      },
+    ])
+  })
+})
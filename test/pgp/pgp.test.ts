@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { createEmail } from "../../src/index.ts"
+import smtp from "../../src/driver/smtp.ts"
+import { buildPgp, wkdLookup, wkdUrls } from "../../src/pgp/index.ts"
+import { createPgpTestBackend } from "../../src/test/index.ts"
+import { startFakeServer, type FakeServerHandle } from "../driver/_smtp/fake-server.ts"
+
+const msg = {
+  from: "security@example.com",
+  to: "researcher@example.org",
+  subject: "Report #1234 triaged",
+  text: "Thanks — we reproduced it.",
+}
+
+/** Parts of a multipart entity, split on its first `boundary=`. */
+function parts(entity: string): string[] {
+  const boundary = /boundary="([^"]+)"/.exec(entity)![1]!
+  return entity
+    .split(`--${boundary}`)
+    .slice(1, -1)
+    .map((part) => part.replace(/^\r\n/, "").replace(/\r\n$/, ""))
+}
+
+describe("OpenPGP/MIME", () => {
+  it("signs the MIME entity into multipart/signed", async () => {
+    const backend = createPgpTestBackend()
+    const raw = await buildPgp(msg, { backend, sign: true })
+    const head = raw.slice(0, raw.indexOf("\r\n\r\n"))
+    expect(head).toMatch(/^Subject: Report #1234 triaged$/m)
+    expect(head).toContain("Content-Type: multipart/signed; micalg=pgp-sha256;")
+    expect(head).toContain('protocol="application/pgp-signature"')
+
+    const [signed, signature] = parts(raw)
+    expect(signed).toMatch(/^Content-Type: text\/plain; charset=utf-8\r\n/)
+    expect(signature).toMatch(/^Content-Type: application\/pgp-signature; name="signature\.asc"/)
+    const armored = signature!.slice(signature!.indexOf("\r\n\r\n") + 4)
+    expect(armored).toMatch(/^-----BEGIN PGP SIGNATURE-----\r\n/)
+    expect(await backend.verify(signed!, armored)).toBe(true)
+  })
+
+  it("quoted-printable encodes signed text that relays could alter", async () => {
+    const backend = createPgpTestBackend()
+    const raw = await buildPgp({ ...msg, text: "Thanks \nFrom the team" }, { backend, sign: true })
+    const [signed, signature] = parts(raw)
+    expect(signed).toContain("Content-Transfer-Encoding: quoted-printable")
+    expect(signed).toContain("Thanks=20\r\n=46rom the team")
+    const armored = signature!.slice(signature!.indexOf("\r\n\r\n") + 4)
+    expect(await backend.verify(signed!, armored)).toBe(true)
+  })
+
+  it("encrypts the signed entity to every recipient's key", async () => {
+    const backend = createPgpTestBackend()
+    const keys: Record<string, string> = {
+      "researcher@example.org": "KEY-R",
+      "lead@example.org": "KEY-L",
+    }
+    const raw = await buildPgp(
+      { ...msg, cc: "lead@example.org" },
+      { backend, sign: true, encrypt: { keys: (address) => keys[address] } },
+    )
+    expect(raw).toContain(
+      'Content-Type: multipart/encrypted; protocol="application/pgp-encrypted";',
+    )
+    const [version, payload] = parts(raw)
+    expect(version).toBe(
+      "Content-Type: application/pgp-encrypted\r\nContent-Description: PGP/MIME version identification\r\n\r\nVersion: 1\r\n",
+    )
+    expect(payload).toMatch(/^Content-Type: application\/octet-stream; name="encrypted\.asc"/)
+
+    const opened = backend.decrypt(payload!)
+    expect(opened.keys).toEqual(["KEY-R", "KEY-L"])
+    expect(opened.data).toMatch(/^Content-Type: multipart\/signed;/)
+    const [signed, signature] = parts(opened.data)
+    expect(signed).toContain("we reproduced it")
+    const armored = signature!.slice(signature!.indexOf("\r\n\r\n") + 4)
+    expect(await backend.verify(signed!, armored)).toBe(true)
+  })
+
+  it("refuses to encrypt when a recipient has no key", async () => {
+    await expect(
+      buildPgp(msg, { backend: createPgpTestBackend(), encrypt: { keys: () => null } }),
+    ).rejects.toMatchObject({
+      code: "INVALID_OPTIONS",
+      message: expect.stringContaining("researcher@"),
+    })
+  })
+
+  it("refuses to encrypt a message with Bcc recipients", async () => {
+    await expect(
+      buildPgp(
+        { ...msg, bcc: "lead@example.org" },
+        { backend: createPgpTestBackend(), encrypt: { keys: () => "KEY" } },
+      ),
+    ).rejects.toMatchObject({ code: "INVALID_OPTIONS", message: expect.stringContaining("Bcc") })
+  })
+})
+
+describe("wkdLookup", () => {
+  it("hashes the local part into both WKD URLs", async () => {
+    expect(await wkdUrls("Joe.Doe@Example.ORG")).toEqual([
+      "https://openpgpkey.example.org/.well-known/openpgpkey/example.org/hu/iy9q119eutrkn8s1mk4r39qejnbu3n5q?l=Joe.Doe",
+      "https://example.org/.well-known/openpgpkey/hu/iy9q119eutrkn8s1mk4r39qejnbu3n5q?l=Joe.Doe",
+    ])
+  })
+
+  it("falls back to the direct method and returns the binary key", async () => {
+    const requested: string[] = []
+    const key = await wkdLookup("joe.doe@example.org", {
+      fetch: async (input) => {
+        const url = String(input)
+        requested.push(new URL(url).hostname)
+        if (url.includes("openpgpkey.")) throw new TypeError("getaddrinfo ENOTFOUND")
+        return new Response(new Uint8Array([0x99, 0x01, 0x0d]), { status: 200 })
+      },
+    })
+    expect(requested).toEqual(["openpgpkey.example.org", "example.org"])
+    expect(key).toEqual(new Uint8Array([0x99, 0x01, 0x0d]))
+  })
+
+  it("returns null without a published key, and throws when unreachable", async () => {
+    const notFound = async () => new Response("", { status: 404 })
+    expect(await wkdLookup("joe@example.org", { fetch: notFound })).toBeNull()
+    const offline = async () => {
+      throw new TypeError("fetch failed")
+    }
+    await expect(wkdLookup("joe@example.org", { fetch: offline })).rejects.toMatchObject({
+      code: "NETWORK",
+      retryable: true,
+    })
+  })
+})
+
+describe("smtp driver pgp option", () => {
+  let active: FakeServerHandle | null = null
+  afterEach(async () => {
+    await active?.close()
+    active = null
+  })
+
+  it("DKIM-signs the OpenPGP-wrapped message", async () => {
+    active = await startFakeServer([
+      { reply: "220 test.example ESMTP" },
+      { expect: /^EHLO /, reply: "250 test.example hello" },
+      { expect: /^MAIL FROM:/, reply: "250 ok" },
+      { expect: /^RCPT TO:/, reply: "250 ok" },
+      { expect: /^DATA$/, reply: "354 go ahead" },
+      { expect: /^\.$/, reply: "250 queued" },
+      { expect: /^QUIT$/, reply: "221 bye" },
+    ])
+    const { privateKey } = await crypto.subtle.generateKey(
+      {
+        name: "RSASSA-PKCS1-v1_5",
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: "SHA-256",
+      },
+      false,
+      ["sign"],
+    )
+    const backend = createPgpTestBackend()
+    const email = createEmail({
+      driver: smtp({
+        host: active.host,
+        port: active.port,
+        dkim: { domain: "example.com", selector: "s1", privateKey },
+        pgp: { backend, encrypt: { keys: () => "KEY-R" } },
+      }),
+    })
+    expect((await email.send(msg)).error).toBeNull()
+    const data = active.received.slice(active.received.indexOf("DATA") + 1)
+    expect(data[0]).toMatch(/^DKIM-Signature: /)
+    expect(data).toContain(
+      'Content-Type: multipart/encrypted; protocol="application/pgp-encrypted";',
+    )
+    await email.dispose()
+  })
+
+  it("rejects smime and pgp on the same message", async () => {
+    const email = createEmail({
+      driver: smtp({
+        host: "127.0.0.1",
+        smime: { sign: { certificate: new Uint8Array(), privateKey: "" } },
+        pgp: { backend: createPgpTestBackend(), sign: true },
+      }),
+    })
+    expect((await email.send(msg)).error?.code).toBe("INVALID_OPTIONS")
+    await email.dispose()
+  })
+
+  it("fails encrypted sends with Bcc recipients before connecting", async () => {
+    const email = createEmail({
+      driver: smtp({
+        host: "127.0.0.1",
+        port: 1,
+        pgp: { backend: createPgpTestBackend(), encrypt: { keys: () => "KEY" } },
+      }),
+    })
+    const { error } = await email.send({ ...msg, bcc: "lead@example.org" })
+    expect(error).toMatchObject({
+      code: "INVALID_OPTIONS",
+      message: expect.stringContaining("Bcc"),
+    })
+    await email.dispose()
+  })
+})
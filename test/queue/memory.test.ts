@@ -5,6 +5,8 @@ import { startWorker } from "../../src/queue/worker.ts"
 import mock from "../../src/driver/mock.ts"
 import unstorageQueue from "../../src/queue/unstorage.ts"
 import type { UnstorageLike } from "../../src/queue/unstorage.ts"
+import type { EmailQueue } from "../../src/queue/index.ts"
+import type { EmailDriver } from "../../src/types.ts"
 
 describe("memoryQueue + worker", () => {
   it("enqueue → worker tick → ack", async () => {
@@ -141,3 +143,139 @@ describe("unstorageQueue", () => {
     expect(await queue.size()).toBe(0)
   })
 })
+
+describe("scheduledAt emulation", () => {
+  function plain() {
+    const sent: string[] = []
+    const driver: EmailDriver = {
+      name: "plain",
+      flags: { text: true, html: true },
+      send(msg) {
+        sent.push(msg.subject)
+        return { data: { id: `p_${sent.length}`, driver: "plain", at: new Date() }, error: null }
+      },
+    }
+    return { driver, sent }
+  }
+  const later = (ms: number) => new Date(Date.now() + ms)
+  const wait = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+  it("parks future sends on the queue and reports their status", async () => {
+    const { driver, sent } = plain()
+    const queue = memoryQueue()
+    const email = createEmail({ driver, scheduler: queue })
+    const worker = startWorker(email, queue)
+
+    const { data, error } = await email.send({
+      from: "a@b.com",
+      to: "c@d.com",
+      subject: "later",
+      text: "x",
+      scheduledAt: later(30),
+    })
+    expect(error).toBeNull()
+    expect(sent).toEqual([])
+    expect((await email.retrieve(data!.id)).data?.state).toBe("scheduled")
+
+    await wait(40)
+    await worker.tick()
+    expect(sent).toEqual(["later"])
+    const status = (await email.retrieve(data!.id)).data
+    expect(status?.state).toBe("sent")
+    expect(status?.provider).toEqual({ messageId: "p_1" })
+  })
+
+  it("cancels a parked send before it goes out", async () => {
+    const { driver, sent } = plain()
+    const queue = memoryQueue()
+    const email = createEmail({ driver, scheduler: queue })
+    const worker = startWorker(email, queue)
+    const msg = { from: "a@b.com", to: "c@d.com", subject: "s", text: "x" }
+
+    const { data } = await email.send({ ...msg, scheduledAt: later(20) })
+    expect((await email.cancel(data!.id)).error).toBeNull()
+    expect((await email.retrieve(data!.id)).data?.state).toBe("cancelled")
+    expect((await email.cancel(data!.id)).error?.message).toMatch(/already cancelled/)
+
+    await wait(30)
+    await worker.tick()
+    expect(sent).toEqual([])
+  })
+
+  it("refuses to cancel a due send that is in flight", async () => {
+    let release!: () => void
+    const driver: EmailDriver = {
+      name: "slow",
+      flags: { text: true },
+      async send() {
+        await new Promise<void>((r) => (release = r))
+        return { data: { id: "s_1", driver: "slow", at: new Date() }, error: null }
+      },
+    }
+    const queue = memoryQueue()
+    const email = createEmail({ driver, scheduler: queue })
+    const worker = startWorker(email, queue)
+    const { data } = await email.send({
+      from: "a@b.com",
+      to: "c@d.com",
+      subject: "s",
+      text: "x",
+      scheduledAt: later(10),
+    })
+
+    await wait(20)
+    const tick = worker.tick()
+    await wait(5)
+    expect((await email.cancel(data!.id)).error?.message).toMatch(/is being sent/)
+    release()
+    await tick
+    expect((await email.retrieve(data!.id)).data?.state).toBe("sent")
+  })
+
+  it("lets delivery win over a cancel that raced the worker's pull", async () => {
+    const { driver, sent } = plain()
+    const queue = memoryQueue()
+    const email = createEmail({ driver, scheduler: queue })
+    const msg = { from: "a@b.com", to: "c@d.com", subject: "raced", text: "x" }
+    const { data } = await email.send({ ...msg, scheduledAt: later(10) })
+
+    await wait(20)
+    const [item] = await queue.pull(1, Date.now())
+    expect((await email.cancel(data!.id)).error).toBeNull()
+    await email.send(item!.msg)
+    expect(sent).toEqual(["raced"])
+    expect((await email.retrieve(data!.id)).data?.state).toBe("sent")
+  })
+
+  it("reports NOT_FOUND when the item leaves the queue during retrieve", async () => {
+    const queue = memoryQueue()
+    const item = await queue.enqueue({ from: "a@b.com", to: "c@d.com", subject: "s", text: "x" })
+    let lookups = 0
+    const racing: EmailQueue = {
+      ...queue,
+      get: async (id) => (++lookups === 1 ? queue.get!(id) : null),
+    }
+    const email = createEmail({ driver: plain().driver, scheduler: racing })
+    expect((await email.retrieve(item.id)).error).toMatchObject({ code: "NOT_FOUND" })
+  })
+
+  it("leaves drivers with native scheduling alone", async () => {
+    const native = mock()
+    const queue = memoryQueue()
+    const email = createEmail({ driver: native, scheduler: queue })
+    await email.send({ from: "a@b.com", to: "c@d.com", subject: "s", scheduledAt: later(60_000) })
+    expect(await queue.size()).toBe(0)
+    expect(native.getInstance?.()).toHaveLength(1)
+  })
+
+  it("reports emulated scheduling as degraded", () => {
+    const email = createEmail({ driver: plain().driver, scheduler: memoryQueue() })
+    const issues = email.validate({
+      from: "a@b.com",
+      to: "c@d.com",
+      subject: "s",
+      scheduledAt: later(1),
+    })
+    expect(issues.map((i) => i.severity)).toEqual(["degraded"])
+  })
+})
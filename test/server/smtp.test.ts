@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { createEmail, defineDriver, type EmailMessage } from "../../src/index.ts"
+import smtp from "../../src/driver/smtp.ts"
+import { createSmtpServer, type SmtpServer, type SmtpServerOptions } from "../../src/server/smtp.ts"
+
+/** Driver that keeps what the relay hands it. */
+function capture() {
+  const inbox: EmailMessage[] = []
+  const driver = defineDriver(() => ({
+    name: "capture",
+    flags: {
+      raw: true,
+      html: true,
+      text: true,
+      attachments: true,
+      customHeaders: true,
+      replyTo: true,
+    },
+    send(msg) {
+      inbox.push(msg)
+      return { data: { id: `m${inbox.length}`, driver: "capture", at: new Date() }, error: null }
+    },
+  }))()
+  return { inbox, email: createEmail({ driver }) }
+}
+
+/** Stand-in for postal-mime: reads the headers the client wrote. */
+async function parse(raw: unknown) {
+  const text = new TextDecoder().decode(raw as Uint8Array)
+  const header = (name: string) => new RegExp(`^${name}: (.*)$`, "im").exec(text)?.[1]?.trim()
+  const address = (value = "") => ({ address: /<([^>]+)>/.exec(value)?.[1] ?? value })
+  return {
+    subject: header("Subject"),
+    from: address(header("From")),
+    to: (header("To") ?? "").split(",").map((value) => address(value.trim())),
+    text: text.slice(text.indexOf("\r\n\r\n") + 4).trim(),
+  }
+}
+
+let server: SmtpServer | null = null
+afterEach(async () => {
+  await server?.close()
+  server = null
+})
+
+async function relay(options: Omit<SmtpServerOptions, "email">) {
+  const sink = capture()
+  server = createSmtpServer({ parse, ...options, email: sink.email })
+  const { host, port } = await server.listen()
+  return { ...sink, host, port }
+}
+
+const credentials = {
+  authenticate: ({ username, password }: { username: string; password: string }) =>
+    username === "app" && password === "secret",
+  allowInsecureAuth: true,
+}
+
+describe("createSmtpServer", () => {
+  it("relays authenticated mail to envelope recipients only", async () => {
+    const { inbox, host, port } = await relay(credentials)
+    const client = createEmail({
+      driver: smtp({ host, port, user: "app", password: "secret", requireTLS: false }),
+    })
+    const { data, error } = await client.send({
+      from: "app@example.com",
+      to: "a@example.com",
+      bcc: "hidden@example.com",
+      subject: "hello",
+      text: "body",
+    })
+    expect(error).toBeNull()
+    expect(data?.provider?.accepted).toHaveLength(2)
+    expect(inbox).toHaveLength(1)
+    expect(inbox[0]).toMatchObject({
+      from: { email: "app@example.com" },
+      to: [{ email: "a@example.com" }],
+      bcc: ["hidden@example.com"],
+      subject: "hello",
+    })
+    await client.dispose()
+  })
+
+  it("checks credentials with AUTH LOGIN and requires them before MAIL", async () => {
+    const { inbox, host, port } = await relay(credentials)
+    const msg = { from: "app@example.com", to: "a@example.com", subject: "x", text: "x" }
+
+    const anonymous = createEmail({ driver: smtp({ host, port }) })
+    expect((await anonymous.send(msg)).error?.code).toBe("AUTH")
+    const wrong = createEmail({
+      driver: smtp({ host, port, user: "app", password: "nope", authMethod: "LOGIN" }),
+    })
+    expect((await wrong.send(msg)).error?.code).toBe("AUTH")
+    const right = createEmail({
+      driver: smtp({ host, port, user: "app", password: "secret", authMethod: "LOGIN" }),
+    })
+    expect((await right.send(msg)).error).toBeNull()
+    expect(inbox).toHaveLength(1)
+    await Promise.all([anonymous.dispose(), wrong.dispose(), right.dispose()])
+  })
+
+  it("enforces allowed senders and per-client rate limits", async () => {
+    const { inbox, host, port } = await relay({
+      allowedSenders: ["@example.com", "ops@partner.test"],
+      rateLimit: { messages: 2, windowMs: 60_000 },
+    })
+    const client = createEmail({ driver: smtp({ host, port, pool: true }) })
+    const send = (from: string) =>
+      client.send({ from, to: "a@example.com", subject: "x", text: "x" })
+
+    expect((await send("mallory@evil.test")).error).toMatchObject({
+      code: "PROVIDER",
+      status: 550,
+    })
+    expect((await send("app@example.com")).error).toBeNull()
+    expect((await send("ops@partner.test")).error).toBeNull()
+    const limited = await send("app@example.com")
+    expect(limited.error).toMatchObject({ status: 450, retryable: true })
+    expect(inbox).toHaveLength(2)
+    await client.dispose()
+  })
+
+  it("passes the message through untouched in raw mode", async () => {
+    const { inbox, host, port } = await relay({ mode: "raw" })
+    const client = createEmail({ driver: smtp({ host, port }) })
+    const raw = "From: a@example.com\r\nTo: b@example.com\r\nSubject: As is\r\n\r\n.leading dot"
+    const { error } = await client.send({
+      from: "a@example.com",
+      to: "b@example.com",
+      subject: "",
+      raw,
+    })
+    expect(error).toBeNull()
+    expect(inbox[0]!.subject).toBe("As is")
+    expect(new TextDecoder().decode(inbox[0]!.raw as Uint8Array)).toBe(`${raw}\r\n`)
+    await client.dispose()
+  })
+
+  it("hangs up on a DATA line that outgrows the size limit", async () => {
+    const { inbox, host, port } = await relay({ maxMessageBytes: 8192 })
+    const { connect } = await import("node:net")
+    const socket = connect(port, host)
+    let transcript = ""
+    socket.on("data", (chunk) => (transcript += chunk))
+    const closed = new Promise((resolve) => socket.once("close", resolve))
+    socket.write("EHLO client\r\nMAIL FROM:<a@example.com>\r\nRCPT TO:<b@example.com>\r\n")
+    socket.write("DATA\r\n")
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    for (let i = 0; i < 4; i++) socket.write("x".repeat(4096))
+    await closed
+    expect(transcript).toMatch(/^354 .*\r\n552 5\.3\.4 /m)
+    expect(inbox).toHaveLength(0)
+  })
+
+  it("hangs up on a client that pipelines past the size limit while a reply is pending", async () => {
+    let release!: () => void
+    const stalled = defineDriver(() => ({
+      name: "stalled",
+      flags: { raw: true, text: true },
+      async send() {
+        await new Promise<void>((resolve) => (release = resolve))
+        return { data: { id: "s1", driver: "stalled", at: new Date() }, error: null }
+      },
+    }))()
+    server = createSmtpServer({
+      parse,
+      maxMessageBytes: 8192,
+      email: createEmail({ driver: stalled }),
+    })
+    const { host, port } = await server.listen()
+    const { connect } = await import("node:net")
+    const socket = connect(port, host)
+    let transcript = ""
+    socket.on("data", (chunk) => (transcript += chunk))
+    const closed = new Promise((resolve) => socket.once("close", resolve))
+    socket.write("EHLO client\r\nMAIL FROM:<a@example.com>\r\nRCPT TO:<b@example.com>\r\n")
+    socket.write("DATA\r\n")
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    socket.write("Subject: first\r\n\r\nhi\r\n.\r\n")
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    for (let i = 0; i < 4; i++) socket.write(`${"NOOP ".repeat(800)}\r\n`)
+    await closed
+    release()
+    expect(transcript).toMatch(/^421 4\.7\.0 /m)
+  })
+})
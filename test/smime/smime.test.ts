@@ -0,0 +1,272 @@
+import { afterEach, beforeAll, describe, expect, it } from "vitest"
+import { createEmail } from "../../src/index.ts"
+import smtp from "../../src/driver/smtp.ts"
+import { buildSmime } from "../../src/smime/index.ts"
+import {
+  NULL,
+  childrenOf,
+  contextTag,
+  der,
+  decodeDer,
+  integer,
+  objectId,
+  sequence,
+  setOf,
+  time,
+  type Asn1Node,
+} from "../../src/driver/_smtp/asn1.ts"
+import { startFakeServer, type FakeServerHandle } from "../driver/_smtp/fake-server.ts"
+
+interface Identity {
+  certificate: Uint8Array
+  privateKey: CryptoKey
+  publicKey: CryptoKey
+  pkcs8: Uint8Array
+}
+
+/** Self-signed RSA certificate — enough X.509 for CMS to reference. */
+async function issue(commonName: string, serial: number): Promise<Identity> {
+  const keys = await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"],
+  )
+  const spki = new Uint8Array(await crypto.subtle.exportKey("spki", keys.publicKey))
+  const name = sequence(
+    setOf(sequence(objectId("2.5.4.3"), der(0x0c, new TextEncoder().encode(commonName)))),
+  )
+  const sha256WithRsa = sequence(objectId("1.2.840.113549.1.1.11"), NULL)
+  const now = Date.now()
+  const tbs = sequence(
+    contextTag(0, integer(2)),
+    integer(serial),
+    sha256WithRsa,
+    name,
+    sequence(time(new Date(now - 60_000)), time(new Date(now + 86_400_000))),
+    name,
+    spki,
+  )
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: "RSASSA-PKCS1-v1_5" }, keys.privateKey, tbs as BufferSource),
+  )
+  return {
+    certificate: sequence(tbs, sha256WithRsa, der(0x03, new Uint8Array([0]), signature)),
+    privateKey: keys.privateKey,
+    publicKey: keys.publicKey,
+    pkcs8: new Uint8Array(await crypto.subtle.exportKey("pkcs8", keys.privateKey)),
+  }
+}
+
+function fromBase64(b64: string): Uint8Array {
+  return Uint8Array.from(atob(b64.replace(/\s+/g, "")), (c) => c.charCodeAt(0))
+}
+
+function hex(bytes: Uint8Array): string {
+  return [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+/** Inner CMS structure of a ContentInfo: `[0] EXPLICIT content`. */
+function cmsContent(bytes: Uint8Array): Asn1Node[] {
+  const [, explicit] = childrenOf(decodeDer(bytes))
+  return childrenOf(childrenOf(explicit!)[0]!)
+}
+
+/** Check a `multipart/signed` entity the way a receiving client would. */
+async function verifySigned(entity: string, publicKey: CryptoKey): Promise<string> {
+  const boundary = /boundary="([^"]+)"/.exec(entity)![1]!
+  const parts = entity.split(`--${boundary}`)
+  const content = parts[1]!.replace(/^\r\n/, "").replace(/\r\n$/, "")
+  const p7s = fromBase64(parts[2]!.split("\r\n\r\n")[1]!)
+  const signerInfos = cmsContent(p7s)[4]!
+  const [, , , signedAttrs, , signature] = childrenOf(childrenOf(signerInfos)[0]!)
+  const messageDigest = childrenOf(signedAttrs!)
+    .map((attr) => childrenOf(attr))
+    .find(([oid]) => hex(oid!.bytes) === hex(objectId("1.2.840.113549.1.9.4")))!
+  const digest = new Uint8Array(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content)),
+  )
+  expect(hex(childrenOf(messageDigest[1]!)[0]!.value)).toBe(hex(digest))
+  const signedBytes = Uint8Array.from(signedAttrs!.bytes)
+  signedBytes[0] = 0x31
+  const valid = await crypto.subtle.verify(
+    { name: "RSASSA-PKCS1-v1_5" },
+    publicKey,
+    signature!.value as BufferSource,
+    signedBytes as BufferSource,
+  )
+  expect(valid).toBe(true)
+  return content
+}
+
+async function decrypt(entity: string, recipient: Identity): Promise<string> {
+  const [, recipientInfos, encryptedContentInfo] = cmsContent(
+    fromBase64(entity.split("\r\n\r\n")[1]!),
+  )
+  const oaepKey = await crypto.subtle.importKey(
+    "pkcs8",
+    recipient.pkcs8 as BufferSource,
+    { name: "RSA-OAEP", hash: "SHA-256" },
+    false,
+    ["decrypt"],
+  )
+  let rawKey: ArrayBuffer | undefined
+  for (const info of childrenOf(recipientInfos!)) {
+    try {
+      rawKey = await crypto.subtle.decrypt(
+        { name: "RSA-OAEP" },
+        oaepKey,
+        childrenOf(info)[3]!.value as BufferSource,
+      )
+    } catch {
+      // Another recipient's key.
+    }
+  }
+  const [, algorithm, encrypted] = childrenOf(encryptedContentInfo!)
+  const iv = childrenOf(algorithm!)[1]!.value
+  const aes = await crypto.subtle.importKey("raw", rawKey!, "AES-CBC", false, ["decrypt"])
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-CBC", iv: iv as BufferSource },
+    aes,
+    encrypted!.value as BufferSource,
+  )
+  return new TextDecoder().decode(plain)
+}
+
+const msg = {
+  from: "ada@example.com",
+  to: "bob@example.com",
+  cc: "cy@example.com",
+  subject: "Lab results",
+  text: "Results attached.",
+  html: "<p>Results attached.</p>",
+}
+
+describe("S/MIME", () => {
+  let ada: Identity
+  let bob: Identity
+  let cy: Identity
+  beforeAll(async () => {
+    ada = await issue("ada@example.com", 1)
+    bob = await issue("bob@example.com", 2)
+    cy = await issue("cy@example.com", 3)
+  })
+
+  it("signs with a detached CMS signature over the MIME entity", async () => {
+    const raw = await buildSmime(msg, {
+      sign: { certificate: ada.certificate, privateKey: ada.privateKey },
+    })
+    const head = raw.slice(0, raw.indexOf("\r\n\r\n"))
+    expect(head).toMatch(/^Subject: Lab results$/m)
+    expect(head).toMatch(/^MIME-Version: 1\.0$/m)
+    expect(head).toContain('Content-Type: multipart/signed; protocol="application/pkcs7-signature"')
+    expect(head).toContain("micalg=sha-256")
+    const content = await verifySigned(raw, ada.publicKey)
+    expect(content).toMatch(/^Content-Type: multipart\/alternative;/)
+    expect(content).not.toMatch(/^Subject:/m)
+  })
+
+  it("quoted-printable encodes signed text with trailing whitespace", async () => {
+    const raw = await buildSmime(
+      { ...msg, html: undefined, text: "Results attached. \nAda" },
+      { sign: { certificate: ada.certificate, privateKey: ada.privateKey } },
+    )
+    const content = await verifySigned(raw, ada.publicKey)
+    expect(content).toContain("Content-Transfer-Encoding: quoted-printable")
+    expect(content).toContain("Results attached.=20\r\nAda")
+  })
+
+  it("signs, then encrypts for every recipient's certificate", async () => {
+    const certificates = new Map([
+      ["bob@example.com", bob.certificate],
+      ["cy@example.com", cy.certificate],
+    ])
+    const raw = await buildSmime(msg, {
+      sign: { certificate: ada.certificate, privateKey: ada.privateKey },
+      encrypt: { certificates: (address) => certificates.get(address) },
+    })
+    expect(raw).toContain("Content-Type: application/pkcs7-mime; smime-type=enveloped-data")
+    const entity = raw.slice(raw.indexOf("Content-Type:"))
+    for (const recipient of [bob, cy]) {
+      const signed = await decrypt(entity, recipient)
+      expect(await verifySigned(signed, ada.publicKey)).toContain("Results attached.")
+    }
+  })
+
+  it("refuses to encrypt when a recipient has no certificate", async () => {
+    await expect(
+      buildSmime(msg, {
+        encrypt: {
+          certificates: (address) => (address === "bob@example.com" ? bob.certificate : null),
+        },
+      }),
+    ).rejects.toMatchObject({ code: "INVALID_OPTIONS", message: expect.stringContaining("cy@") })
+  })
+
+  it("refuses to encrypt a message with Bcc recipients", async () => {
+    const certificates = (address: string) =>
+      address === "bob@example.com" ? bob.certificate : cy.certificate
+    await expect(
+      buildSmime({ ...msg, cc: undefined, bcc: "cy@example.com" }, { encrypt: { certificates } }),
+    ).rejects.toMatchObject({ code: "INVALID_OPTIONS", message: expect.stringContaining("Bcc") })
+    // Signing alone doesn't reveal anyone.
+    const signed = await buildSmime(
+      { ...msg, bcc: "dee@example.com" },
+      { sign: { certificate: ada.certificate, privateKey: ada.privateKey } },
+    )
+    expect(signed).not.toContain("dee@example.com")
+  })
+
+  describe("smtp driver", () => {
+    let active: FakeServerHandle | null = null
+    afterEach(async () => {
+      await active?.close()
+      active = null
+    })
+
+    it("DKIM-signs the S/MIME-wrapped message", async () => {
+      active = await startFakeServer([
+        { reply: "220 test.example ESMTP" },
+        { expect: /^EHLO /, reply: ["250-test.example hello", "250 8BITMIME"] },
+        { expect: /^MAIL FROM:/, reply: "250 ok" },
+        { expect: /^RCPT TO:/, reply: "250 ok" },
+        { expect: /^RCPT TO:/, reply: "250 ok" },
+        { expect: /^DATA$/, reply: "354 go ahead" },
+        { expect: /^\.$/, reply: "250 queued" },
+        { expect: /^QUIT$/, reply: "221 bye" },
+      ])
+      const dkimKey = await crypto.subtle.generateKey(
+        {
+          name: "RSASSA-PKCS1-v1_5",
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: "SHA-256",
+        },
+        false,
+        ["sign"],
+      )
+      const email = createEmail({
+        driver: smtp({
+          host: active.host,
+          port: active.port,
+          dkim: { domain: "example.com", selector: "s1", privateKey: dkimKey.privateKey },
+          smime: { sign: { certificate: ada.certificate, privateKey: ada.privateKey } },
+        }),
+      })
+      const { error } = await email.send({ ...msg, text: "Grüße" })
+      expect(error).toBeNull()
+      const data = active.received.slice(active.received.indexOf("DATA") + 1)
+      expect(data[0]).toMatch(/^DKIM-Signature: /)
+      expect(data).toContain(
+        'Content-Type: multipart/signed; protocol="application/pkcs7-signature";',
+      )
+      // Signed content stays 7-bit even though the server takes 8BITMIME.
+      expect(data.join("\n")).not.toContain("Grüße")
+      await email.dispose()
+    })
+  })
+})
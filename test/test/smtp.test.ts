@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { createEmail } from "../../src/index.ts"
+import smtp, { type SmtpDriverOptions } from "../../src/driver/smtp.ts"
+import { createSmtpTestServer, type SmtpTestServer } from "../../src/test/smtp.ts"
+
+/** Stand-in for postal-mime: enough to read the subject back. */
+const parse = async (raw: unknown) => ({
+  subject: /^Subject: (.*)$/m.exec(new TextDecoder().decode(raw as Uint8Array))?.[1]?.trim(),
+})
+
+const msg = { from: "a@example.com", to: "b@example.com", subject: "Hello", text: "hi" }
+
+let server: SmtpTestServer | null = null
+afterEach(async () => {
+  await server?.close()
+  server = null
+})
+
+function client(options: Partial<SmtpDriverOptions> = {}) {
+  return createEmail({
+    driver: smtp({ host: server!.host, port: server!.port, commandTimeoutMs: 2000, ...options }),
+  })
+}
+
+describe("createSmtpTestServer", () => {
+  it("records envelopes, raw messages and parsed emails", async () => {
+    server = await createSmtpTestServer({ parse, auth: { user: "u", password: "p" } })
+    const email = client({ user: "u", password: "p" })
+    const { error } = await email.send({ ...msg, bcc: "c@example.com" })
+    expect(error).toBeNull()
+    expect(server.messages).toHaveLength(1)
+    expect(server.last).toMatchObject({
+      envelope: { from: "a@example.com", to: ["b@example.com", "c@example.com"] },
+      parsed: { subject: "Hello" },
+      user: "u",
+    })
+    expect(server.last!.raw).toContain("Subject: Hello")
+    await email.dispose()
+  })
+
+  it("rejects bad credentials", async () => {
+    server = await createSmtpTestServer({ auth: { user: "u", password: "p" } })
+    const email = client({ user: "u", password: "wrong" })
+    expect((await email.send(msg)).error?.code).toBe("AUTH")
+    expect(server.messages).toHaveLength(0)
+    await email.dispose()
+  })
+
+  it("replays scripted failures at the stage they target", async () => {
+    server = await createSmtpTestServer({
+      parse,
+      failures: [{ stage: "MAIL", reply: "451 4.3.0 Try again later" }],
+    })
+    const email = client({ partialDelivery: true })
+
+    const deferred = await email.send(msg)
+    expect(deferred.error).toMatchObject({ code: "NETWORK", status: 451, retryable: true })
+    // Spent after one use.
+    expect((await email.send(msg)).error).toBeNull()
+
+    server.fail({ stage: "RCPT", match: /gone@/, reply: "550 5.1.1 No such user" })
+    const partial = await email.send({ ...msg, to: ["gone@example.com", "b@example.com"] })
+    expect(partial.data?.provider?.rejected).toMatchObject([{ email: "gone@example.com" }])
+    expect(server.last!.envelope.to).toEqual(["b@example.com"])
+
+    server.fail({ stage: "message", reply: "554 5.7.1 Spam detected" })
+    expect((await email.send(msg)).error).toMatchObject({ code: "PROVIDER", status: 554 })
+    expect(server.messages).toHaveLength(2)
+    await email.dispose()
+  })
+
+  it("drops the connection on a scripted disconnect", async () => {
+    server = await createSmtpTestServer({ failures: [{ stage: "DATA", reply: "disconnect" }] })
+    const email = client()
+    const { error } = await email.send(msg)
+    expect(error).toMatchObject({ code: "NETWORK", retryable: true })
+    server.reset()
+    expect((await email.send(msg)).error).toBeNull()
+    await email.dispose()
+  })
+})
@@ -0,0 +1,139 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { signArc, verifyArc } from "../../src/verify/arc.ts"
+import type { ArcSignerOptions } from "../../src/verify/arc.ts"
+import type { DnsResolver } from "../../src/verify/index.ts"
+
+const message = [
+  "From: alice@example.com",
+  "To: dev@lists.example.org",
+  "Subject: Release 2.4 checklist",
+  "Date: Mon, 19 Oct 2026 09:00:00 +0000",
+  "",
+  "Please sign off by Friday.",
+  "",
+].join("\r\n")
+
+let keys: Record<string, string>
+let privateKey: CryptoKey
+
+const resolver: DnsResolver = {
+  async resolveTxt(name) {
+    if (!keys[name]) throw Object.assign(new Error("ENOTFOUND"), { code: "ENOTFOUND" })
+    return [[keys[name]]]
+  },
+}
+
+beforeAll(async () => {
+  const pair = (await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair
+  privateKey = pair.privateKey
+  let binary = ""
+  for (const b of new Uint8Array(await crypto.subtle.exportKey("spki", pair.publicKey)))
+    binary += String.fromCharCode(b)
+  const record = `v=DKIM1; k=rsa; p=${btoa(binary)}`
+  keys = {
+    "arc._domainkey.lists.example.org": record,
+    "arc._domainkey.relay.example.net": record,
+  }
+})
+
+/** `message` with one hop's ARC set prepended, as a forwarder sends it. */
+async function forward(
+  raw: string,
+  options: Omit<ArcSignerOptions, "privateKey" | "selector">,
+): Promise<string> {
+  const set = await signArc(raw, { ...options, selector: "arc", privateKey })
+  return [
+    `ARC-Seal: ${set["ARC-Seal"]}`,
+    `ARC-Message-Signature: ${set["ARC-Message-Signature"]}`,
+    `ARC-Authentication-Results: ${set["ARC-Authentication-Results"]}`,
+    raw,
+  ].join("\r\n")
+}
+
+describe("verifyArc", () => {
+  it("passes a single-hop chain and exposes its authentication results", async () => {
+    const raw = await forward(message, {
+      domain: "lists.example.org",
+      instance: 1,
+      authResults: "lists.example.org; dkim=pass header.d=example.com; spf=pass; dmarc=pass",
+    })
+    const result = await verifyArc(raw, { resolver })
+    expect(result).toMatchObject({
+      cv: "pass",
+      oldestPass: 1,
+      authResults: { dkim: "pass", dmarc: "pass", authenticatedDomain: "example.com" },
+      sets: [{ instance: 1, domain: "lists.example.org", seal: "pass", messageSignature: "pass" }],
+    })
+  })
+
+  it("keeps the chain valid when a later hop changes the body", async () => {
+    const hop1 = await forward(message, {
+      domain: "lists.example.org",
+      instance: 1,
+      authResults: "lists.example.org; dkim=pass header.d=example.com; dmarc=pass",
+    })
+    const footered = `${hop1}--\r\nUnsubscribe: https://lists.example.org/u\r\n`
+    const hop2 = await forward(footered, {
+      domain: "relay.example.net",
+      instance: 2,
+      cv: (await verifyArc(hop1, { resolver })).cv,
+      authResults: "relay.example.net; dkim=pass header.d=lists.example.org; arc=pass",
+    })
+    const result = await verifyArc(hop2, { resolver })
+    expect(result.cv).toBe("pass")
+    expect(result.sets.map((set) => [set.seal, set.messageSignature])).toEqual([
+      ["pass", "fail"],
+      ["pass", "pass"],
+    ])
+    expect(result.oldestPass).toBe(2)
+    expect(result.authResults?.authenticatedDomain).toBe("lists.example.org")
+  })
+
+  it("fails on a broken seal, a cv=fail hop, or a missing set", async () => {
+    const hop1 = await forward(message, {
+      domain: "lists.example.org",
+      instance: 1,
+      authResults: "lists.example.org; dkim=pass header.d=example.com",
+    })
+    const hop2 = await forward(hop1, {
+      domain: "relay.example.net",
+      instance: 2,
+      authResults: "relay.example.net; arc=pass",
+    })
+    const rewritten = await verifyArc(hop2.replace("dkim=pass", "dkim=fail"), { resolver })
+    expect(rewritten).toMatchObject({
+      cv: "fail",
+      reason: "ARC-Seal i=1: signature did not verify",
+    })
+
+    const failed = await forward(hop1, {
+      domain: "relay.example.net",
+      instance: 2,
+      cv: "fail",
+      authResults: "relay.example.net; arc=fail",
+    })
+    expect(await verifyArc(failed, { resolver })).toMatchObject({
+      cv: "fail",
+      reason: "ARC-Seal i=2 has cv=fail",
+    })
+
+    const gap = hop2.replace(/^ARC-Seal: i=1;.*\r\n/m, "")
+    expect(await verifyArc(gap, { resolver })).toMatchObject({
+      cv: "fail",
+      reason: "incomplete ARC set i=1",
+    })
+  })
+
+  it("reports none for mail without ARC headers", async () => {
+    expect(await verifyArc(message, { resolver })).toEqual({ cv: "none", sets: [] })
+  })
+})
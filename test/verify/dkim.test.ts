@@ -0,0 +1,201 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { signDkim } from "../../src/driver/_smtp/dkim.ts"
+import { dohResolver, verifyDkimSignatures } from "../../src/verify/index.ts"
+import type { DnsResolver } from "../../src/verify/index.ts"
+
+const message = [
+  "From: alerts@example.com",
+  "To: ops@example.org",
+  "Subject: Disk usage above 90%",
+  "Date: Mon, 19 Oct 2026 09:00:00 +0000",
+  "MIME-Version: 1.0",
+  "Content-Type: text/plain; charset=utf-8",
+  "",
+  "db-01 is at 93% on /var.",
+  "",
+].join("\r\n")
+
+function base64(bytes: ArrayBuffer | Uint8Array): string {
+  let binary = ""
+  for (const byte of new Uint8Array(bytes)) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+/** Answers TXT queries from `records`; unknown names are NXDOMAIN. */
+function stubResolver(records: Record<string, string>): DnsResolver & { queries: string[] } {
+  const queries: string[] = []
+  return {
+    queries,
+    async resolveTxt(name) {
+      queries.push(name)
+      const record = records[name]
+      if (record === undefined)
+        throw Object.assign(new Error(`queryTxt ENOTFOUND ${name}`), { code: "ENOTFOUND" })
+      return [record.match(/.{1,255}/g)!]
+    },
+  }
+}
+
+let rsa: CryptoKeyPair
+let rsaRecord: string
+
+beforeAll(async () => {
+  rsa = (await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair
+  rsaRecord = `v=DKIM1; k=rsa; p=${base64(await crypto.subtle.exportKey("spki", rsa.publicKey))}`
+})
+
+describe("verifyDkimSignatures", () => {
+  it("passes an RSA signature made by the SMTP driver's signer", async () => {
+    const signed = await signDkim(message, {
+      domain: "example.com",
+      selector: "s1",
+      privateKey: rsa.privateKey,
+    })
+    const resolver = stubResolver({ "s1._domainkey.example.com": rsaRecord })
+    expect(await verifyDkimSignatures(signed, { resolver })).toEqual([
+      expect.objectContaining({
+        result: "pass",
+        domain: "example.com",
+        selector: "s1",
+        algorithm: "rsa-sha256",
+      }),
+    ])
+    expect(resolver.queries).toEqual(["s1._domainkey.example.com"])
+  })
+
+  it("passes an Ed25519 signature (RFC 8463)", async () => {
+    const ed = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+      "sign",
+      "verify",
+    ])) as CryptoKeyPair
+    const signed = await signDkim(message, {
+      domain: "example.com",
+      selector: "ed",
+      privateKey: ed.privateKey,
+      algorithm: "ed25519-sha256",
+    })
+    const raw = base64(await crypto.subtle.exportKey("raw", ed.publicKey))
+    const [result] = await verifyDkimSignatures(new TextEncoder().encode(signed), {
+      resolver: stubResolver({ "ed._domainkey.example.com": `v=DKIM1; k=ed25519; p=${raw}` }),
+    })
+    expect(result).toMatchObject({ result: "pass", algorithm: "ed25519-sha256" })
+  })
+
+  it("fails when the body or a signed header was altered", async () => {
+    const signed = await signDkim(message, {
+      domain: "example.com",
+      selector: "s1",
+      privateKey: rsa.privateKey,
+    })
+    const resolver = stubResolver({ "s1._domainkey.example.com": rsaRecord })
+    const [body] = await verifyDkimSignatures(signed.replace("93%", "39%"), { resolver })
+    expect(body).toMatchObject({ result: "fail", reason: "body hash mismatch" })
+    const [header] = await verifyDkimSignatures(signed.replace("above 90%", "above 95%"), {
+      resolver,
+    })
+    expect(header).toMatchObject({ result: "fail", reason: "signature did not verify" })
+    // Relaxed canonicalization tolerates whitespace changes in transit.
+    const [rewrapped] = await verifyDkimSignatures(
+      signed.replace("Subject: Disk", "Subject:   Disk").replace(/\r\n/g, "\n"),
+      { resolver },
+    )
+    expect(rewrapped).toMatchObject({ result: "pass" })
+  })
+
+  it("honours simple/simple canonicalization and l=", async () => {
+    const body = "db-01 is at 93% on /var.\r\n"
+    const bh = base64(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body)))
+    const head = [
+      "From: alerts@example.com\r\n",
+      "Subject: Disk usage above 90%\r\n",
+      `DKIM-Signature: v=1; a=rsa-sha256; c=simple/simple; d=example.com; s=s1;\r\n\th=From:Subject; l=${body.length}; bh=${bh}; b=`,
+    ]
+    const signature = await crypto.subtle.sign(
+      "RSASSA-PKCS1-v1_5",
+      rsa.privateKey,
+      new TextEncoder().encode(head.join("")),
+    )
+    const signed = `${head[2]}${base64(signature)}\r\n${head[0]}${head[1]}\r\n${body}`
+    const resolver = stubResolver({ "s1._domainkey.example.com": rsaRecord })
+
+    const [appended] = await verifyDkimSignatures(`${signed}-- \r\nsent by a list\r\n`, {
+      resolver,
+    })
+    expect(appended).toMatchObject({ result: "pass", bodyLength: body.length })
+    const [respaced] = await verifyDkimSignatures(signed.replace("Subject: ", "Subject:  "), {
+      resolver,
+    })
+    expect(respaced).toMatchObject({ result: "fail" })
+    const [truncated] = await verifyDkimSignatures(signed.replace(" on /var.", ""), { resolver })
+    expect(truncated).toMatchObject({ result: "fail", reason: "l= exceeds body length" })
+  })
+
+  it("reports key and signature problems as permerror", async () => {
+    const signed = await signDkim(message, {
+      domain: "example.com",
+      selector: "s1",
+      privateKey: rsa.privateKey,
+    })
+    const noKey = await verifyDkimSignatures(signed, { resolver: stubResolver({}) })
+    expect(noKey[0]).toMatchObject({ result: "permerror", reason: "no key record" })
+    const revoked = await verifyDkimSignatures(signed, {
+      resolver: stubResolver({ "s1._domainkey.example.com": "v=DKIM1; k=rsa; p=" }),
+    })
+    expect(revoked[0]).toMatchObject({ result: "permerror", reason: "key revoked" })
+    const sha1 = await verifyDkimSignatures(signed.replace("a=rsa-sha256", "a=rsa-sha1"), {
+      resolver: stubResolver({ "s1._domainkey.example.com": rsaRecord }),
+    })
+    expect(sha1[0]).toMatchObject({ result: "permerror", reason: "unsupported algorithm rsa-sha1" })
+  })
+
+  it("reports DNS failures as temperror and unsigned mail as no results", async () => {
+    const signed = await signDkim(message, {
+      domain: "example.com",
+      selector: "s1",
+      privateKey: rsa.privateKey,
+    })
+    const flaky: DnsResolver = {
+      resolveTxt: async () => {
+        throw Object.assign(new Error("queryTxt ETIMEOUT"), { code: "ETIMEOUT" })
+      },
+    }
+    expect((await verifyDkimSignatures(signed, { resolver: flaky }))[0]).toMatchObject({
+      result: "temperror",
+    })
+    expect(await verifyDkimSignatures(message, { resolver: flaky })).toEqual([])
+  })
+})
+
+describe("dohResolver", () => {
+  it("queries the JSON API and splits TXT character-strings", async () => {
+    const urls: string[] = []
+    const resolver = dohResolver({
+      endpoint: "https://dns.example/dns-query",
+      fetch: async (input) => {
+        urls.push(String(input))
+        const name = new URL(String(input)).searchParams.get("name")
+        if (name === "missing.example.com") return Response.json({ Status: 3 })
+        return Response.json({
+          Status: 0,
+          Answer: [{ name, type: 16, data: '"v=DKIM1; k=rsa; " "p=MIIB\\"x"' }],
+        })
+      },
+    })
+    expect(await resolver.resolveTxt("s1._domainkey.example.com")).toEqual([
+      ["v=DKIM1; k=rsa; ", 'p=MIIB"x'],
+    ])
+    expect(urls[0]).toBe("https://dns.example/dns-query?name=s1._domainkey.example.com&type=16")
+    await expect(resolver.resolveTxt("missing.example.com")).rejects.toMatchObject({
+      code: "ENOTFOUND",
+    })
+  })
+})
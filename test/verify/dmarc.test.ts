@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest"
+import { evaluateDmarc, organizationalDomain } from "../../src/verify/index.ts"
+import type { DkimSignatureResult, DnsResolver, SpfResult } from "../../src/verify/index.ts"
+import type { ParsedEmail } from "../../src/parse/index.ts"
+
+function mailFrom(email: string): ParsedEmail {
+  return { from: { email }, to: [], cc: [], bcc: [], references: [], attachments: [], headers: {} }
+}
+
+function txtResolver(records: Record<string, string>): DnsResolver & { queries: string[] } {
+  const queries: string[] = []
+  return {
+    queries,
+    async resolveTxt(name) {
+      queries.push(name)
+      if (records[name] === undefined)
+        throw Object.assign(new Error(`ENOTFOUND ${name}`), { code: "ENOTFOUND" })
+      return [[records[name]!]]
+    },
+  }
+}
+
+const dkimPass = (domain: string): DkimSignatureResult => ({ result: "pass", domain })
+const spf = (result: SpfResult["result"], domain: string): SpfResult => ({
+  result,
+  domain,
+  trace: [],
+})
+
+describe("organizationalDomain", () => {
+  it("uses the public suffix snapshot", () => {
+    expect(organizationalDomain("mail.news.example.com")).toBe("example.com")
+    expect(organizationalDomain("shop.example.co.uk")).toBe("example.co.uk")
+    expect(organizationalDomain("docs.acme.github.io")).toBe("acme.github.io")
+    expect(organizationalDomain("a.b.foo.bd")).toBe("b.foo.bd")
+    expect(organizationalDomain("www.ck")).toBe("www.ck")
+    expect(organizationalDomain("co.uk")).toBe("co.uk")
+  })
+})
+
+describe("evaluateDmarc", () => {
+  const resolver = txtResolver({
+    "_dmarc.example.com": "v=DMARC1; p=reject; sp=quarantine; adkim=s; rua=mailto:d@example.com",
+    "_dmarc.example.org": "v=DMARC1; p=quarantine; pct=0",
+  })
+
+  it("passes on relaxed SPF alignment and strict DKIM alignment", async () => {
+    const mail = mailFrom("billing@example.com")
+    const relaxedSpf = await evaluateDmarc(mail, {
+      dkim: [dkimPass("mail.example.com")],
+      spf: spf("pass", "bounces.example.com"),
+      resolver,
+    })
+    expect(relaxedSpf).toMatchObject({
+      result: "pass",
+      disposition: "none",
+      dkim: "fail",
+      spf: "pass",
+      headerFrom: "example.com",
+      policyDomain: "example.com",
+      spfDomain: "bounces.example.com",
+      policy: { p: "reject", sp: "quarantine", adkim: "s", aspf: "r", pct: 100 },
+    })
+    const strictDkim = await evaluateDmarc(mail, {
+      dkim: [{ result: "fail", domain: "example.com" }, dkimPass("example.com")],
+      spf: spf("fail", "example.com"),
+      resolver,
+    })
+    expect(strictDkim).toMatchObject({ result: "pass", dkim: "pass", dkimDomain: "example.com" })
+  })
+
+  it("applies p=, or sp= for subdomains found through the organizational domain", async () => {
+    const unaligned = { dkim: [dkimPass("esp.example")], spf: spf("pass", "esp.example"), resolver }
+    expect(await evaluateDmarc(mailFrom("a@example.com"), unaligned)).toMatchObject({
+      result: "fail",
+      disposition: "reject",
+      dkim: "fail",
+      spf: "fail",
+      reason: "no aligned pass",
+    })
+    resolver.queries.length = 0
+    expect(await evaluateDmarc(mailFrom("a@news.example.com"), unaligned)).toMatchObject({
+      result: "fail",
+      disposition: "quarantine",
+      headerFrom: "news.example.com",
+      policyDomain: "example.com",
+    })
+    expect(resolver.queries).toEqual(["_dmarc.news.example.com", "_dmarc.example.com"])
+  })
+
+  it("relaxes the disposition for messages sampled out by pct", async () => {
+    const result = await evaluateDmarc(mailFrom("a@example.org"), {
+      dkim: [],
+      spf: spf("softfail", "example.org"),
+      resolver,
+    })
+    expect(result).toMatchObject({
+      result: "fail",
+      disposition: "none",
+      reason: "sampled out by pct=0",
+    })
+
+    const half = txtResolver({ "_dmarc.example.net": "v=DMARC1; p=reject; pct=50" })
+    const options = { dkim: [], spf: spf("fail", "example.net"), resolver: half }
+    const applied = await evaluateDmarc(mailFrom("a@example.net"), {
+      ...options,
+      random: () => 0.49,
+    })
+    expect(applied).toMatchObject({ disposition: "reject", reason: "no aligned pass" })
+    const sampled = await evaluateDmarc(mailFrom("a@example.net"), {
+      ...options,
+      random: () => 0.5,
+    })
+    expect(sampled).toMatchObject({ disposition: "quarantine", reason: "sampled out by pct=50" })
+  })
+
+  it("stops discovery at a From domain with several records", async () => {
+    const resolver: DnsResolver & { queries: string[] } = {
+      queries: [],
+      async resolveTxt(name) {
+        this.queries.push(name)
+        if (name === "_dmarc.news.example.com")
+          return [["v=DMARC1; p=none"], ["v=DMARC1; p=reject"]]
+        return [["v=DMARC1; p=reject"]]
+      },
+    }
+    const result = await evaluateDmarc(mailFrom("a@news.example.com"), {
+      dkim: [],
+      spf: spf("fail", "news.example.com"),
+      resolver,
+    })
+    expect(result).toMatchObject({ result: "none", disposition: "none" })
+    expect(resolver.queries).toEqual(["_dmarc.news.example.com"])
+  })
+
+  it("reports none without a record and temperror when DNS fails", async () => {
+    const options = { dkim: [], spf: spf("none", "example.edu") }
+    expect(await evaluateDmarc(mailFrom("a@example.edu"), { ...options, resolver })).toMatchObject({
+      result: "none",
+      disposition: "none",
+    })
+    const failing: DnsResolver = {
+      resolveTxt: async () => {
+        throw Object.assign(new Error("ESERVFAIL"), { code: "ESERVFAIL" })
+      },
+    }
+    expect(
+      await evaluateDmarc(mailFrom("a@example.edu"), { ...options, resolver: failing }),
+    ).toMatchObject({ result: "temperror" })
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest"
+import { checkSpf } from "../../src/verify/index.ts"
+import type { DnsResolver } from "../../src/verify/index.ts"
+
+interface Zone {
+  txt?: Record<string, string[]>
+  a?: Record<string, string[]>
+  aaaa?: Record<string, string[]>
+  mx?: Record<string, string[]>
+  ptr?: Record<string, string[]>
+  /** Names whose lookups time out. */
+  broken?: string[]
+}
+
+/** Resolver over an in-memory zone; records every query as `TYPE name`. */
+function zoneResolver(zone: Zone): DnsResolver & { queries: string[] } {
+  const queries: string[] = []
+  const answer = <T>(type: string, table: Record<string, T[]> | undefined, name: string) => {
+    queries.push(`${type} ${name}`)
+    if (zone.broken?.includes(name))
+      return Promise.reject(Object.assign(new Error("ETIMEOUT"), { code: "ETIMEOUT" }))
+    const records = table?.[name]
+    if (!records?.length)
+      return Promise.reject(Object.assign(new Error("ENOTFOUND"), { code: "ENOTFOUND" }))
+    return Promise.resolve(records)
+  }
+  return {
+    queries,
+    resolveTxt: async (name) => (await answer("TXT", zone.txt, name)).map((text) => [text]),
+    resolve4: (name) => answer("A", zone.a, name),
+    resolve6: (name) => answer("AAAA", zone.aaaa, name),
+    resolveMx: async (name) =>
+      (await answer("MX", zone.mx, name)).map((exchange, priority) => ({ exchange, priority })),
+    reverse: (ip) => answer("PTR", zone.ptr, ip),
+  }
+}
+
+const envelope = { mailFrom: "billing@example.com", helo: "mta1.example.com" }
+
+describe("checkSpf", () => {
+  it("matches ip4/ip6 ranges and applies the qualifier", async () => {
+    const resolver = zoneResolver({
+      txt: { "example.com": ["v=spf1 ip4:192.0.2.0/24 ip6:2001:db8::/32 -all"] },
+    })
+    expect(await checkSpf({ ...envelope, ip: "192.0.2.55" }, { resolver })).toMatchObject({
+      result: "pass",
+      domain: "example.com",
+      mechanism: "ip4:192.0.2.0/24",
+    })
+    expect(await checkSpf({ ...envelope, ip: "2001:db8:0:1::25" }, { resolver })).toMatchObject({
+      result: "pass",
+      mechanism: "ip6:2001:db8::/32",
+    })
+    const denied = await checkSpf({ ...envelope, ip: "198.51.100.7" }, { resolver })
+    expect(denied).toMatchObject({ result: "fail", mechanism: "-all" })
+    expect(denied.trace).toEqual([
+      "example.com: v=spf1 ip4:192.0.2.0/24 ip6:2001:db8::/32 -all",
+      "example.com: -all matched, fail",
+    ])
+  })
+
+  it("follows a, mx, include and redirect", async () => {
+    const resolver = zoneResolver({
+      txt: {
+        "example.com": ["v=spf1 a mx/28 include:_spf.esp.example ~all"],
+        "_spf.esp.example": ["v=spf1 redirect=_spf2.esp.example"],
+        "_spf2.esp.example": ["v=spf1 ip4:203.0.113.0/24 -all"],
+      },
+      a: { "example.com": ["192.0.2.1"], "mx.example.com": ["198.51.100.16"] },
+      mx: { "example.com": ["mx.example.com"] },
+    })
+    expect((await checkSpf({ ...envelope, ip: "192.0.2.1" }, { resolver })).mechanism).toBe("a")
+    expect((await checkSpf({ ...envelope, ip: "198.51.100.30" }, { resolver })).mechanism).toBe(
+      "mx/28",
+    )
+    const esp = await checkSpf({ ...envelope, ip: "203.0.113.9" }, { resolver })
+    expect(esp).toMatchObject({ result: "pass", mechanism: "include:_spf.esp.example" })
+    expect(esp.trace).toContain("_spf.esp.example: redirect=_spf2.esp.example")
+    // The included domain's -all doesn't match for the outer record.
+    expect(await checkSpf({ ...envelope, ip: "192.0.2.99" }, { resolver })).toMatchObject({
+      result: "softfail",
+      mechanism: "~all",
+    })
+  })
+
+  it("expands macros in exists and exp", async () => {
+    const resolver = zoneResolver({
+      txt: {
+        "example.com": ["v=spf1 exists:%{ir}.%{l1r-}.allow.%{d} -all exp=why.%{d}"],
+        "why.example.com": ["%{i} may not send as %{S} via %{h}"],
+      },
+      a: { "55.2.0.192.billing.allow.example.com": ["127.0.0.2"] },
+    })
+    expect((await checkSpf({ ...envelope, ip: "192.0.2.55" }, { resolver })).result).toBe("pass")
+    expect(await checkSpf({ ...envelope, ip: "192.0.2.56" }, { resolver })).toMatchObject({
+      result: "fail",
+      explanation: "192.0.2.56 may not send as billing%40example.com via mta1.example.com",
+    })
+  })
+
+  it("checks postmaster@helo for bounces and verifies ptr both ways", async () => {
+    const resolver = zoneResolver({
+      txt: { "mta1.example.com": ["v=spf1 ptr:example.com -all"] },
+      ptr: { "192.0.2.10": ["mta1.example.com"], "192.0.2.11": ["spoof.example.com"] },
+      a: { "mta1.example.com": ["192.0.2.10"], "spoof.example.com": ["198.51.100.1"] },
+    })
+    const bounce = { mailFrom: "", helo: "mta1.example.com" }
+    expect(await checkSpf({ ...bounce, ip: "192.0.2.10" }, { resolver })).toMatchObject({
+      result: "pass",
+      domain: "mta1.example.com",
+    })
+    expect((await checkSpf({ ...bounce, ip: "192.0.2.11" }, { resolver })).result).toBe("fail")
+  })
+
+  it("returns none, temperror and permerror per RFC 7208 §2.6", async () => {
+    const resolver = zoneResolver({
+      txt: {
+        "example.com": ["google-site-verification=abc"],
+        "twice.example": ["v=spf1 -all", "v=spf1 +all"],
+        "typo.example": ["v=spf1 ip4:192.0.2.1 incldue:_spf.example.net -all"],
+        "dangling.example": ["v=spf1 include:nothing.example -all"],
+      },
+      broken: ["slow.example"],
+    })
+    const ip = "192.0.2.1"
+    const check = (domain: string) =>
+      checkSpf({ ip, mailFrom: `a@${domain}`, helo: "mta1.example.com" }, { resolver })
+    expect((await check("example.com")).result).toBe("none")
+    expect((await check("slow.example")).result).toBe("temperror")
+    expect((await check("twice.example")).result).toBe("permerror")
+    expect((await check("typo.example")).trace.at(-1)).toBe(
+      "typo.example: invalid term incldue:_spf.example.net",
+    )
+    expect((await check("dangling.example")).result).toBe("permerror")
+  })
+
+  it("stops after 10 DNS-querying terms and 2 void lookups", async () => {
+    const chain: Record<string, string[]> = {}
+    for (let i = 0; i < 11; i++) chain[`l${i}.example`] = [`v=spf1 include:l${i + 1}.example`]
+    chain["l11.example"] = ["v=spf1 +all"]
+    const deep = await checkSpf(
+      { ip: "192.0.2.1", mailFrom: "a@l0.example", helo: "h.example" },
+      { resolver: zoneResolver({ txt: chain }) },
+    )
+    expect(deep.result).toBe("permerror")
+    expect(deep.trace.at(-1)).toBe("l10.example: more than 10 DNS lookups")
+
+    const voids = zoneResolver({
+      txt: { "example.com": ["v=spf1 a:x1.example a:x2.example a:x3.example +all"] },
+    })
+    const empty = await checkSpf({ ...envelope, ip: "192.0.2.1" }, { resolver: voids })
+    expect(empty.result).toBe("permerror")
+    expect(empty.trace.at(-1)).toBe("more than 2 void lookups")
+  })
+})